@@ -4,16 +4,28 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { NotificationsProvider } from "@/hooks/useNotifications";
+import PasswordRecoveryRedirect from "@/components/PasswordRecoveryRedirect";
+import RequireAuth from "@/components/RequireAuth";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import ForgotPassword from "./pages/ForgotPassword";
+import ResetPassword from "./pages/ResetPassword";
 import Donations from "./pages/Donations";
 import DonationForm from "./pages/DonationForm";
+import DonationDetail from "./pages/DonationDetail";
 import DonationSuccess from "./pages/DonationSuccess";
 import HelpRequests from "./pages/HelpRequests";
 import HelpRequestForm from "./pages/HelpRequestForm";
+import HelpRequestDetail from "./pages/HelpRequestDetail";
 import RequestSuccess from "./pages/RequestSuccess";
 import Profile from "./pages/Profile";
+import AccountSettings from "./pages/AccountSettings";
+import Messages from "./pages/Messages";
+import Notifications from "./pages/Notifications";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -21,26 +33,48 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/" element={<Index />} />
-            <Route path="/login" element={<Login />} />
-            <Route path="/signup" element={<Signup />} />
-            <Route path="/donate" element={<Donations />} />
-            <Route path="/donate/new" element={<DonationForm />} />
-            <Route path="/donation-success" element={<DonationSuccess />} />
-            <Route path="/request-help" element={<HelpRequests />} />
-            <Route path="/request-help/new" element={<HelpRequestForm />} />
-            <Route path="/request-success" element={<RequestSuccess />} />
-            <Route path="/profile" element={<Profile />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </TooltipProvider>
+      <NotificationsProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <PasswordRecoveryRedirect />
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/login" element={<Login />} />
+              <Route path="/signup" element={<Signup />} />
+              <Route path="/forgot-password" element={<ForgotPassword />} />
+              <Route path="/reset-password" element={<ResetPassword />} />
+              <Route path="/donate" element={<Donations />} />
+              <Route path="/donate/:id" element={<DonationDetail />} />
+              <Route path="/donation-success" element={<DonationSuccess />} />
+              <Route path="/request-help" element={<HelpRequests />} />
+              <Route path="/request-help/:id" element={<HelpRequestDetail />} />
+              <Route path="/request-success" element={<RequestSuccess />} />
+              {/* Pages below need a signed-in user */}
+              <Route element={<RequireAuth />}>
+                <Route path="/donate/new" element={<DonationForm />} />
+                <Route path="/donate/:id/edit" element={<DonationForm />} />
+                <Route path="/request-help/new" element={<HelpRequestForm />} />
+                <Route path="/request-help/:id/edit" element={<HelpRequestForm />} />
+                <Route path="/profile" element={<Profile />} />
+                <Route path="/settings" element={<AccountSettings />} />
+                {/* Messaging and notifications need the hosted backend */}
+                {!IS_LOCAL_BACKEND && (
+                  <>
+                    <Route path="/messages" element={<Messages />} />
+                    <Route path="/messages/:id" element={<Messages />} />
+                    <Route path="/notifications" element={<Notifications />} />
+                  </>
+                )}
+                <Route path="/admin" element={<Admin />} />
+              </Route>
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </TooltipProvider>
+      </NotificationsProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
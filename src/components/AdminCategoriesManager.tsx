@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { AlertCircle, MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import CategoryBadge from "@/components/CategoryBadge";
+import CategoryFormDialog from "@/components/CategoryFormDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategories, useDeleteCategory } from "@/hooks/useCategories";
+import { toast } from "sonner";
+import type { Category } from "@/lib/api/categories";
+import { getErrorMessage } from "@/lib/api/errors";
+import { parseCategoryFields } from "@/lib/categoryFields";
+import { getCategoryIcon } from "@/lib/categoryIcons";
+
+// What the form dialog is doing: editing a category or adding one under an optional parent
+type FormTarget = { category: Category } | { parentId: string | null };
+
+const AdminCategoriesManager = () => {
+  const { isAdmin } = useAuth();
+  const { registry, isPending, isError, refetch } = useCategories();
+  const deleteCategory = useDeleteCategory();
+  const [formTarget, setFormTarget] = useState<FormTarget | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Category | null>(null);
+
+  const handleDelete = (category: Category) => {
+    deleteCategory.mutate(category.id, {
+      onSuccess: () => toast.success(`"${category.name}" deleted`),
+      onError: (err) => {
+        toast.error(
+          getErrorMessage(
+            err,
+            {
+              "23503": "Posts still use this category. Move them to another category first.",
+              "42501": "Only admins can manage categories",
+            },
+            "Failed to delete category"
+          )
+        );
+        console.error("Category delete error:", err);
+      },
+    });
+    setDeleteTarget(null);
+  };
+
+  const rows = registry.tree.flatMap((category) => [category, ...category.children]);
+
+  const renderRow = (category: Category) => {
+    const Icon = getCategoryIcon(category.icon);
+    const isChild = category.parent_id !== null;
+
+    return (
+      <TableRow key={category.id}>
+        <TableCell>
+          <span className={`flex items-center gap-2 ${isChild ? "pl-6 text-muted-foreground" : "font-medium"}`}>
+            <Icon className="h-4 w-4 flex-shrink-0" />
+            {category.name}
+          </span>
+        </TableCell>
+        <TableCell className="text-muted-foreground font-mono text-xs">{category.slug}</TableCell>
+        <TableCell>
+          <CategoryBadge category={category.slug} />
+        </TableCell>
+        <TableCell className="text-muted-foreground text-sm">
+          {isChild
+            ? "Same as parent"
+            : parseCategoryFields(category.fields)
+                .map((field) => field.label)
+                .join(", ") || "None"}
+        </TableCell>
+        <TableCell className="text-muted-foreground">{category.sort_order}</TableCell>
+        <TableCell>
+          {isAdmin && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" aria-label={`Actions for ${category.name}`}>
+                  <MoreHorizontal className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => setFormTarget({ category })}>
+                  <Pencil className="h-4 w-4" />
+                  Edit
+                </DropdownMenuItem>
+                {!isChild && (
+                  <DropdownMenuItem onClick={() => setFormTarget({ parentId: category.id })}>
+                    <Plus className="h-4 w-4" />
+                    Add subcategory
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-destructive" onClick={() => setDeleteTarget(category)}>
+                  <Trash2 className="h-4 w-4" />
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </TableCell>
+      </TableRow>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          {isAdmin
+            ? "Categories appear in the post forms and feed filters in this order."
+            : "Only admins can change categories."}
+        </p>
+        {isAdmin && (
+          <Button variant="outline" onClick={() => setFormTarget({ parentId: null })}>
+            <Plus className="h-4 w-4" />
+            Add Category
+          </Button>
+        )}
+      </div>
+
+      {isError ? (
+        <div className="text-center py-16">
+          <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <div className="text-muted-foreground mb-4">Failed to load categories. Please try again.</div>
+          <Button variant="outline" onClick={() => refetch()}>Try Again</Button>
+        </div>
+      ) : (
+        <div className="bg-card rounded-xl border border-border shadow-soft">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Slug</TableHead>
+                <TableHead>Badge</TableHead>
+                <TableHead>Fields</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isPending ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+                </TableRow>
+              ) : rows.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No categories yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                rows.map(renderRow)
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <CategoryFormDialog
+        category={formTarget && "category" in formTarget ? formTarget.category : null}
+        parentId={formTarget && "parentId" in formTarget ? formTarget.parentId : null}
+        open={formTarget !== null}
+        onOpenChange={(open) => !open && setFormTarget(null)}
+      />
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete category</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.name}" and its subcategories will be removed. Categories still used by posts can't be
+              deleted; posts filed under a deleted subcategory keep their main category.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteTarget && handleDelete(deleteTarget)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminCategoriesManager;
@@ -0,0 +1,399 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { AlertCircle, Ban, Eye, EyeOff, MoreHorizontal, Pencil, Search, Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import FeedPagination from "@/components/FeedPagination";
+import CategoryBadge from "@/components/CategoryBadge";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { DONATION_STATUS_META, type DonationStatus } from "@/lib/donationStatus";
+import { HELP_REQUEST_STATUS_META, type HelpRequestStatus } from "@/lib/helpRequestStatus";
+import {
+  ADMIN_PAGE_SIZE,
+  SEARCH_DEBOUNCE_MS,
+  applyFilterParams,
+  getPageRange,
+  parsePage,
+  toSearchPattern,
+} from "@/lib/feedFilters";
+
+export type AdminPostKind = "donations" | "requests";
+
+interface Post {
+  id: string;
+  title: string;
+  category: string;
+  status: DonationStatus | HelpRequestStatus;
+  user_id: string;
+  created_at: string;
+  hidden_at: string | null;
+  ownerName: string;
+}
+
+// Per-kind wording and the status a moderator closes a post with
+const POST_KINDS = {
+  donations: {
+    table: "donations",
+    noun: "donation",
+    detailPath: "/donate",
+    closedStatus: "given",
+    statusMeta: DONATION_STATUS_META as Record<string, { label: string; className: string }>,
+  },
+  requests: {
+    table: "help_requests",
+    noun: "help request",
+    detailPath: "/request-help",
+    closedStatus: "closed",
+    statusMeta: HELP_REQUEST_STATUS_META as Record<string, { label: string; className: string }>,
+  },
+} as const;
+
+const VISIBILITY_FILTERS = [
+  { value: "all", label: "All posts" },
+  { value: "visible", label: "Visible" },
+  { value: "hidden", label: "Hidden" },
+];
+
+interface AdminPostsTableProps {
+  kind: AdminPostKind;
+}
+
+const AdminPostsTable = ({ kind }: AdminPostsTableProps) => {
+  const config = POST_KINDS[kind];
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const visibility = searchParams.get("visibility") ?? VISIBILITY_FILTERS[0].value;
+  const page = parsePage(searchParams.get("page"));
+
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<Post | null>(null);
+
+  const totalPages = Math.ceil(totalCount / ADMIN_PAGE_SIZE);
+
+  const updateFilters = useCallback(
+    (updates: Record<string, string | null>) => {
+      setSearchParams((current) => applyFilterParams(current, updates), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  // Only overwrite the input when the URL changed to something else, not when it caught up with a trailing space
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === searchQuery ? current : searchQuery));
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery) return;
+    const timeout = setTimeout(() => updateFilters({ q: searchInput.trim() || null }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, searchQuery, updateFilters]);
+
+  const fetchPosts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      let query = supabase
+        .from(config.table)
+        .select("id, title, category, status, user_id, created_at, hidden_at", { count: "exact" })
+        .order("created_at", { ascending: false });
+
+      const titlePattern = toSearchPattern(searchQuery);
+      if (titlePattern) {
+        query = query.ilike("title", titlePattern);
+      }
+
+      if (visibility === "hidden") {
+        query = query.not("hidden_at", "is", null);
+      } else if (visibility === "visible") {
+        query = query.is("hidden_at", null);
+      }
+
+      const [from, to] = getPageRange(page, ADMIN_PAGE_SIZE);
+      const { data, error, count } = await query.range(from, to);
+
+      if (error) {
+        console.error("Admin posts fetch error:", error);
+        throw new Error("Failed to load posts");
+      }
+
+      const userIds = [...new Set((data || []).map((p) => p.user_id))];
+      const profileMap = new Map<string, string>();
+
+      if (userIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from("member_directory")
+          .select("id, full_name, email")
+          .in("id", userIds);
+
+        if (profilesError) {
+          console.error("Profiles fetch error:", profilesError);
+        } else {
+          profilesData?.forEach((p) => {
+            if (p.id) profileMap.set(p.id, p.full_name || p.email || "Anonymous");
+          });
+        }
+      }
+
+      setPosts((data || []).map((p) => ({ ...p, ownerName: profileMap.get(p.user_id) || "Anonymous" })));
+      setTotalCount(count ?? 0);
+    } catch (err) {
+      setError(`Failed to load ${config.noun}s. Please try again.`);
+      console.error("Admin fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [config, searchQuery, visibility, page]);
+
+  useEffect(() => {
+    fetchPosts();
+  }, [fetchPosts]);
+
+  // Applies a moderation change and mirrors it locally once the database accepts it
+  const moderate = async (
+    post: Post,
+    request: PromiseLike<{ error: PostgrestError | null }>,
+    changes: Partial<Post>,
+    message: string
+  ) => {
+    try {
+      const { error } = await request;
+
+      if (error) {
+        if (error.code === "42501") {
+          toast.error(`You don't have permission to moderate this ${config.noun}`);
+        } else {
+          toast.error(`Failed to update ${config.noun}`);
+        }
+        console.error("Moderation update error:", error);
+        return;
+      }
+
+      setPosts((current) => current.map((p) => (p.id === post.id ? { ...p, ...changes } : p)));
+      toast.success(message);
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected moderation error:", err);
+    }
+  };
+
+  const handleToggleHidden = (post: Post) => {
+    const hiddenAt = post.hidden_at ? null : new Date().toISOString();
+    const request = supabase
+      .from(config.table)
+      .update({ hidden_at: hiddenAt, hidden_by: hiddenAt ? user?.id ?? null : null, updated_at: new Date().toISOString() })
+      .eq("id", post.id);
+
+    moderate(post, request, { hidden_at: hiddenAt }, hiddenAt ? `"${post.title}" hidden` : `"${post.title}" is visible again`);
+  };
+
+  const handleClose = (post: Post) => {
+    const updatedAt = new Date().toISOString();
+    const request =
+      kind === "donations"
+        ? supabase.from("donations").update({ status: "given", updated_at: updatedAt }).eq("id", post.id)
+        : supabase.from("help_requests").update({ status: "closed", updated_at: updatedAt }).eq("id", post.id);
+
+    moderate(post, request, { status: config.closedStatus }, `"${post.title}" closed`);
+  };
+
+  const handleDelete = async (post: Post) => {
+    try {
+      const { error } = await supabase.from(config.table).delete().eq("id", post.id);
+      if (error) {
+        if (error.code === "42501") {
+          toast.error(`You don't have permission to delete this ${config.noun}`);
+        } else {
+          toast.error(`Failed to delete ${config.noun}`);
+        }
+        console.error("Moderation delete error:", error);
+      } else {
+        setPosts((current) => current.filter((p) => p.id !== post.id));
+        setTotalCount((current) => Math.max(current - 1, 0));
+        toast.success(`"${post.title}" deleted`);
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected moderation delete error:", err);
+    } finally {
+      setDeleteTarget(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by title..."
+            className="pl-9"
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <Select value={visibility} onValueChange={(value) => updateFilters({ visibility: value === "all" ? null : value })}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {VISIBILITY_FILTERS.map((filter) => (
+              <SelectItem key={filter.value} value={filter.value}>
+                {filter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {error ? (
+        <div className="text-center py-16">
+          <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <div className="text-muted-foreground mb-4">{error}</div>
+          <Button variant="outline" onClick={fetchPosts}>Try Again</Button>
+        </div>
+      ) : (
+        <div className="bg-card rounded-xl border border-border shadow-soft">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Title</TableHead>
+                <TableHead>Posted by</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Posted</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+                </TableRow>
+              ) : posts.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No {config.noun}s found
+                  </TableCell>
+                </TableRow>
+              ) : (
+                posts.map((post) => (
+                  <TableRow key={post.id} className={post.hidden_at ? "opacity-60" : undefined}>
+                    <TableCell className="font-medium max-w-xs truncate">
+                      <Link to={`${config.detailPath}/${post.id}`} className="hover:text-primary">
+                        {post.title}
+                      </Link>
+                    </TableCell>
+                    <TableCell>{post.ownerName}</TableCell>
+                    <TableCell>
+                      <CategoryBadge category={post.category} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge className={`${config.statusMeta[post.status]?.className} border-0 text-xs`}>
+                          {config.statusMeta[post.status]?.label ?? post.status}
+                        </Badge>
+                        {post.hidden_at && (
+                          <Badge variant="outline" className="text-xs">Hidden</Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(post.created_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Moderation actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <Link to={`${config.detailPath}/${post.id}`}>
+                              <Eye className="h-4 w-4" />
+                              View
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem asChild>
+                            <Link to={`${config.detailPath}/${post.id}/edit`}>
+                              <Pencil className="h-4 w-4" />
+                              Edit
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleToggleHidden(post)}>
+                            {post.hidden_at ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                            {post.hidden_at ? "Unhide" : "Hide"}
+                          </DropdownMenuItem>
+                          {post.status !== config.closedStatus && (
+                            <DropdownMenuItem onClick={() => handleClose(post)}>
+                              <Ban className="h-4 w-4" />
+                              Close
+                            </DropdownMenuItem>
+                          )}
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-destructive" onClick={() => setDeleteTarget(post)}>
+                            <Trash2 className="h-4 w-4" />
+                            Delete
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {totalPages > 1 && <FeedPagination page={page} totalPages={totalPages} />}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {config.noun}</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" will be removed for everyone. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteTarget && handleDelete(deleteTarget)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminPostsTable;
@@ -0,0 +1,324 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { AlertCircle, CheckCheck, Eye, EyeOff, MoreHorizontal, Trash2 } from "lucide-react";
+import type { PostgrestError } from "@supabase/supabase-js";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import FeedPagination from "@/components/FeedPagination";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import { ADMIN_PAGE_SIZE, getPageRange, parsePage } from "@/lib/feedFilters";
+import { REPORT_REASON_META } from "@/lib/reportReasons";
+
+type QueueEntry = Database["public"]["Functions"]["get_report_queue"]["Returns"][number];
+
+// The queue groups reports by post, so a post is identified by whichever id is set
+const entryKey = (entry: QueueEntry) => entry.donation_id ?? entry.help_request_id ?? "";
+
+const entryPath = (entry: QueueEntry) =>
+  entry.donation_id ? `/donate/${entry.donation_id}` : `/request-help/${entryKey(entry)}`;
+
+const AdminReportsQueue = () => {
+  const { user, isAdmin } = useAuth();
+  const [searchParams] = useSearchParams();
+  const page = parsePage(searchParams.get("page"));
+
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [threshold, setThreshold] = useState("");
+  const [savingThreshold, setSavingThreshold] = useState(false);
+  const [deleteTarget, setDeleteTarget] = useState<QueueEntry | null>(null);
+
+  const totalPages = Math.ceil(totalCount / ADMIN_PAGE_SIZE);
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const [from, to] = getPageRange(page, ADMIN_PAGE_SIZE);
+      const [queueRes, settingsRes] = await Promise.all([
+        supabase.rpc("get_report_queue", {}, { count: "exact" }).range(from, to),
+        supabase.from("moderation_settings").select("report_threshold").maybeSingle(),
+      ]);
+
+      if (queueRes.error) {
+        console.error("Report queue fetch error:", queueRes.error);
+        throw new Error("Failed to load reports");
+      }
+
+      if (settingsRes.error) {
+        console.error("Moderation settings fetch error:", settingsRes.error);
+      } else if (settingsRes.data) {
+        setThreshold(String(settingsRes.data.report_threshold));
+      }
+
+      setEntries(queueRes.data || []);
+      setTotalCount(queueRes.count ?? 0);
+    } catch (err) {
+      setError("Failed to load reports. Please try again.");
+      console.error("Admin fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleSaveThreshold = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = Number.parseInt(threshold, 10);
+    if (!Number.isFinite(value) || value < 1) {
+      toast.error("The threshold must be at least 1");
+      return;
+    }
+
+    setSavingThreshold(true);
+
+    const { error } = await supabase
+      .from("moderation_settings")
+      .update({ report_threshold: value, updated_at: new Date().toISOString() })
+      .eq("id", true);
+
+    if (error) {
+      toast.error(error.code === "42501" ? "Only admins can change the threshold" : "Failed to save the threshold");
+      console.error("Moderation settings update error:", error);
+    } else {
+      toast.success(`Posts are now hidden after ${value} ${value === 1 ? "report" : "reports"}`);
+    }
+
+    setSavingThreshold(false);
+  };
+
+  // Runs a moderation request and refreshes the queue once the database accepts it
+  const moderate = async (request: PromiseLike<{ error: PostgrestError | null }>, message: string) => {
+    try {
+      const { error } = await request;
+
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to moderate this post");
+        } else {
+          toast.error("Failed to update the post");
+        }
+        console.error("Report moderation error:", error);
+        return;
+      }
+
+      toast.success(message);
+      fetchQueue();
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected moderation error:", err);
+    }
+  };
+
+  const handleToggleHidden = (entry: QueueEntry) => {
+    const hiddenAt = entry.hidden_at ? null : new Date().toISOString();
+    const update = { hidden_at: hiddenAt, hidden_by: hiddenAt ? user?.id ?? null : null, updated_at: new Date().toISOString() };
+    const request = entry.donation_id
+      ? supabase.from("donations").update(update).eq("id", entryKey(entry))
+      : supabase.from("help_requests").update(update).eq("id", entryKey(entry));
+
+    moderate(request, hiddenAt ? `"${entry.title}" hidden` : `"${entry.title}" is visible again`);
+  };
+
+  const handleResolve = (entry: QueueEntry) => {
+    const update = { resolved_at: new Date().toISOString(), resolved_by: user?.id ?? null };
+    const request = (
+      entry.donation_id
+        ? supabase.from("reports").update(update).eq("donation_id", entryKey(entry))
+        : supabase.from("reports").update(update).eq("help_request_id", entryKey(entry))
+    ).is("resolved_at", null);
+
+    moderate(request, `Reports on "${entry.title}" resolved`);
+  };
+
+  const handleDelete = async (entry: QueueEntry) => {
+    const request = entry.donation_id
+      ? supabase.from("donations").delete().eq("id", entryKey(entry))
+      : supabase.from("help_requests").delete().eq("id", entryKey(entry));
+
+    await moderate(request, `"${entry.title}" deleted`);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <form
+        onSubmit={handleSaveThreshold}
+        className="bg-card rounded-xl border border-border p-4 shadow-soft flex flex-col sm:flex-row sm:items-end gap-3"
+      >
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="reportThreshold">Auto-hide threshold</Label>
+          <p className="text-xs text-muted-foreground">
+            Posts are hidden automatically once this many members report them.
+          </p>
+        </div>
+        <Input
+          id="reportThreshold"
+          type="number"
+          min={1}
+          className="sm:w-24"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          disabled={!isAdmin}
+        />
+        {isAdmin && (
+          <Button type="submit" variant="outline" disabled={savingThreshold}>
+            {savingThreshold ? "Saving..." : "Save"}
+          </Button>
+        )}
+      </form>
+
+      {error ? (
+        <div className="text-center py-16">
+          <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <div className="text-muted-foreground mb-4">{error}</div>
+          <Button variant="outline" onClick={fetchQueue}>Try Again</Button>
+        </div>
+      ) : (
+        <div className="bg-card rounded-xl border border-border shadow-soft">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Post</TableHead>
+                <TableHead>Reports</TableHead>
+                <TableHead>Reasons</TableHead>
+                <TableHead>Last reported</TableHead>
+                <TableHead>Visibility</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+                </TableRow>
+              ) : entries.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No open reports. Nice work!
+                  </TableCell>
+                </TableRow>
+              ) : (
+                entries.map((entry) => (
+                  <TableRow key={entryKey(entry)}>
+                    <TableCell className="max-w-xs">
+                      <Link to={entryPath(entry)} className="font-medium hover:text-primary line-clamp-1">
+                        {entry.title}
+                      </Link>
+                      <span className="text-xs text-muted-foreground">
+                        {entry.donation_id ? "Donation" : "Help request"}
+                      </span>
+                      {entry.details.length > 0 && (
+                        <p className="text-xs text-muted-foreground italic line-clamp-2 mt-1">"{entry.details[0]}"</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="font-semibold">{entry.report_count}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {entry.reasons.map((reason) => (
+                          <Badge key={reason} variant="secondary" className="text-xs">
+                            {REPORT_REASON_META[reason].label}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(entry.last_reported_at), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      {entry.hidden_at ? (
+                        <Badge variant="outline" className="text-xs">Hidden</Badge>
+                      ) : (
+                        <Badge variant="secondary" className="text-xs">Visible</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" aria-label="Moderation actions">
+                            <MoreHorizontal className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem asChild>
+                            <Link to={entryPath(entry)}>
+                              <Eye className="h-4 w-4" />
+                              View
+                            </Link>
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleToggleHidden(entry)}>
+                            {entry.hidden_at ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                            {entry.hidden_at ? "Unhide" : "Hide"}
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => handleResolve(entry)}>
+                            <CheckCheck className="h-4 w-4" />
+                            Resolve reports
+                          </DropdownMenuItem>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem className="text-destructive" onClick={() => setDeleteTarget(entry)}>
+                            <Trash2 className="h-4 w-4" />
+                            Delete post
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {totalPages > 1 && <FeedPagination page={page} totalPages={totalPages} />}
+
+      <AlertDialog open={deleteTarget !== null} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete post</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deleteTarget?.title}" and its reports will be removed for everyone. This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleteTarget && handleDelete(deleteTarget)}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminReportsQueue;
@@ -0,0 +1,364 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { AlertCircle, Search, ShieldCheck, UserCheck, UserX } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import FeedPagination from "@/components/FeedPagination";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth, type AppRole } from "@/hooks/useAuth";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import {
+  ADMIN_PAGE_SIZE,
+  SEARCH_DEBOUNCE_MS,
+  applyFilterParams,
+  getPageRange,
+  parsePage,
+  toSearchPattern,
+} from "@/lib/feedFilters";
+
+interface Member {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  created_at: string;
+  role: AppRole;
+  suspended: boolean;
+}
+
+const ROLE_LABELS: Record<AppRole, string> = {
+  admin: "Admin",
+  moderator: "Moderator",
+  member: "Member",
+};
+
+// Members without a user_roles row are plain members
+const highestRole = (roles: AppRole[]): AppRole =>
+  roles.includes("admin") ? "admin" : roles.includes("moderator") ? "moderator" : "member";
+
+const AdminUsersTable = () => {
+  const { user, isAdmin } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const page = parsePage(searchParams.get("page"));
+
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [suspendTarget, setSuspendTarget] = useState<Member | null>(null);
+  const [suspendReason, setSuspendReason] = useState("");
+
+  const totalPages = Math.ceil(totalCount / ADMIN_PAGE_SIZE);
+
+  const updateFilters = useCallback(
+    (updates: Record<string, string | null>) => {
+      setSearchParams((current) => applyFilterParams(current, updates), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  // Only overwrite the input when the URL changed to something else, not when it caught up with a trailing space
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === searchQuery ? current : searchQuery));
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery) return;
+    const timeout = setTimeout(() => updateFilters({ q: searchInput.trim() || null }), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, searchQuery, updateFilters]);
+
+  const fetchMembers = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      let query = supabase
+        .from("member_directory")
+        .select("id, full_name, email, created_at", { count: "exact" })
+        .order("created_at", { ascending: false });
+
+      const pattern = toSearchPattern(searchQuery);
+      if (pattern) {
+        query = query.or(`full_name.ilike.${pattern},email.ilike.${pattern}`);
+      }
+
+      const [from, to] = getPageRange(page, ADMIN_PAGE_SIZE);
+      const { data, error, count } = await query.range(from, to);
+
+      if (error) {
+        console.error("Admin users fetch error:", error);
+        throw new Error("Failed to load users");
+      }
+
+      // View columns are all nullable in the generated types, though these never are
+      const rows = (data || []).map((p) => ({ ...p, id: p.id!, created_at: p.created_at! }));
+      const ids = rows.map((p) => p.id);
+      const [rolesRes, suspensionsRes] = ids.length
+        ? await Promise.all([
+            supabase.from("user_roles").select("user_id, role").in("user_id", ids),
+            supabase.from("account_suspensions").select("user_id").in("user_id", ids),
+          ])
+        : [{ data: [], error: null }, { data: [], error: null }];
+
+      if (rolesRes.error) {
+        console.error("User roles fetch error:", rolesRes.error);
+      }
+      if (suspensionsRes.error) {
+        console.error("Suspensions fetch error:", suspensionsRes.error);
+      }
+
+      const suspended = new Set((suspensionsRes.data || []).map((s) => s.user_id));
+
+      setMembers(
+        rows.map((p) => ({
+          ...p,
+          role: highestRole((rolesRes.data || []).filter((r) => r.user_id === p.id).map((r) => r.role)),
+          suspended: suspended.has(p.id),
+        }))
+      );
+      setTotalCount(count ?? 0);
+    } catch (err) {
+      setError("Failed to load users. Please try again.");
+      console.error("Admin fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [searchQuery, page]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const updateMember = (id: string, changes: Partial<Member>) => {
+    setMembers((current) => current.map((m) => (m.id === id ? { ...m, ...changes } : m)));
+  };
+
+  const handleSuspend = async () => {
+    if (!user || !suspendTarget) return;
+    const member = suspendTarget;
+
+    try {
+      const { error } = await supabase.from("account_suspensions").insert({
+        user_id: member.id,
+        reason: suspendReason.trim() || null,
+        suspended_by: user.id,
+      });
+
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to suspend this account");
+        } else if (error.code === "23505") {
+          toast.error("This account is already suspended");
+        } else {
+          toast.error("Failed to suspend account");
+        }
+        console.error("Suspend account error:", error);
+        return;
+      }
+
+      updateMember(member.id, { suspended: true });
+      toast.success(`${member.full_name || member.email} has been suspended`);
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected suspend error:", err);
+    } finally {
+      setSuspendTarget(null);
+      setSuspendReason("");
+    }
+  };
+
+  const handleUnsuspend = async (member: Member) => {
+    try {
+      const { error } = await supabase.from("account_suspensions").delete().eq("user_id", member.id);
+
+      if (error) {
+        toast.error("Failed to lift suspension");
+        console.error("Unsuspend account error:", error);
+        return;
+      }
+
+      updateMember(member.id, { suspended: false });
+      toast.success(`${member.full_name || member.email} can post again`);
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected unsuspend error:", err);
+    }
+  };
+
+  // A member holds at most one staff role; set_member_role swaps it in one transaction
+  const handleRoleChange = async (member: Member, role: AppRole) => {
+    try {
+      const { error } = await supabase.rpc("set_member_role", { member_id: member.id, new_role: role });
+
+      if (error) {
+        throw error;
+      }
+
+      updateMember(member.id, { role });
+      toast.success(`${member.full_name || member.email} is now ${ROLE_LABELS[role].toLowerCase()}`);
+    } catch (err) {
+      toast.error("Failed to change role");
+      console.error("Role change error:", err);
+      fetchMembers();
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          placeholder="Search by name or email..."
+          className="pl-9"
+          value={searchInput}
+          onChange={(e) => setSearchInput(e.target.value)}
+        />
+      </div>
+
+      {error ? (
+        <div className="text-center py-16">
+          <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+          <div className="text-muted-foreground mb-4">{error}</div>
+          <Button variant="outline" onClick={fetchMembers}>Try Again</Button>
+        </div>
+      ) : (
+        <div className="bg-card rounded-xl border border-border shadow-soft">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Joined</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {loading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">Loading...</TableCell>
+                </TableRow>
+              ) : members.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">No users found</TableCell>
+                </TableRow>
+              ) : (
+                members.map((member) => {
+                  const isSelf = member.id === user?.id;
+                  return (
+                    <TableRow key={member.id}>
+                      <TableCell className="font-medium">{member.full_name || "Anonymous"}</TableCell>
+                      <TableCell className="text-muted-foreground">{member.email}</TableCell>
+                      <TableCell className="text-muted-foreground whitespace-nowrap">
+                        {format(new Date(member.created_at), "d MMM yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        {isAdmin && !isSelf ? (
+                          <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as AppRole)}>
+                            <SelectTrigger className="h-8 w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ROLE_LABELS) as AppRole[]).map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {ROLE_LABELS[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant={member.role === "member" ? "secondary" : "default"} className="text-xs gap-1">
+                            {member.role !== "member" && <ShieldCheck className="h-3 w-3" />}
+                            {ROLE_LABELS[member.role]}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        {member.suspended ? (
+                          <Badge variant="destructive" className="text-xs">Suspended</Badge>
+                        ) : (
+                          <Badge variant="outline" className="text-xs">Active</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {!isSelf && member.role !== "admin" && (
+                          member.suspended ? (
+                            <Button variant="outline" size="sm" onClick={() => handleUnsuspend(member)}>
+                              <UserCheck className="h-4 w-4" />
+                              Unsuspend
+                            </Button>
+                          ) : (
+                            <Button variant="outline" size="sm" onClick={() => setSuspendTarget(member)}>
+                              <UserX className="h-4 w-4" />
+                              Suspend
+                            </Button>
+                          )
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      {totalPages > 1 && <FeedPagination page={page} totalPages={totalPages} />}
+
+      <AlertDialog
+        open={suspendTarget !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSuspendTarget(null);
+            setSuspendReason("");
+          }
+        }}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Suspend account</AlertDialogTitle>
+            <AlertDialogDescription>
+              {suspendTarget?.full_name || suspendTarget?.email} won't be able to post, offer help, claim donations or send
+              messages until the suspension is lifted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspendReason">Reason (Optional)</Label>
+            <Textarea
+              id="suspendReason"
+              value={suspendReason}
+              onChange={(e) => setSuspendReason(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSuspend}>Suspend</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default AdminUsersTable;
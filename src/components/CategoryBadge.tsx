@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categoryColors";
+import { cn } from "@/lib/utils";
+
+interface CategoryBadgeProps {
+  // Category and optional subcategory slugs, as stored on the post
+  category: string;
+  subcategory?: string | null;
+  className?: string;
+}
+
+const CategoryBadge = ({ category, subcategory, className }: CategoryBadgeProps) => {
+  const { registry } = useCategories();
+  const color = registry.find(category)?.color ?? "gray";
+
+  return (
+    <Badge className={cn(getCategoryColor(color), "border-0 text-xs", className)}>
+      {registry.label(category)}
+      {subcategory && ` · ${registry.label(subcategory)}`}
+    </Badge>
+  );
+};
+
+export default CategoryBadge;
@@ -0,0 +1,49 @@
+import { useCategories } from "@/hooks/useCategories";
+import type { Json } from "@/integrations/supabase/types";
+import { formatDetail, parsePostDetails } from "@/lib/categoryFields";
+
+interface CategoryDetailsProps {
+  // Category slug and the post's `details` column
+  category: string;
+  details: Json;
+  // Small chips for cards instead of a labelled list
+  compact?: boolean;
+  className?: string;
+}
+
+// A post's answers to its category's fields, in the order the category lists them
+const CategoryDetails = ({ category, details, compact = false, className = "" }: CategoryDetailsProps) => {
+  const { registry } = useCategories();
+  const answers = parsePostDetails(details);
+  const entries = registry
+    .fields(category)
+    .filter((field) => answers[field.key])
+    .map((field) => ({ field, value: formatDetail(field, answers[field.key]) }));
+
+  if (entries.length === 0) return null;
+
+  if (compact) {
+    return (
+      <div className={`flex flex-wrap gap-1.5 ${className}`}>
+        {entries.map(({ field, value }) => (
+          <span key={field.key} className="rounded-md bg-secondary px-2 py-0.5 text-xs text-secondary-foreground">
+            {field.label}: {value}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <dl className={`grid gap-3 sm:grid-cols-2 ${className}`}>
+      {entries.map(({ field, value }) => (
+        <div key={field.key}>
+          <dt className="text-xs text-muted-foreground">{field.label}</dt>
+          <dd className="text-sm font-medium text-foreground">{value}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default CategoryDetails;
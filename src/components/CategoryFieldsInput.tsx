@@ -0,0 +1,74 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import type { CategoryField, PostDetails } from "@/lib/categoryFields";
+
+const NOT_SPECIFIED = "none";
+
+interface CategoryFieldsInputProps {
+  // Category slug whose fields are shown
+  category: string;
+  values: PostDetails;
+  onChange: (values: PostDetails) => void;
+}
+
+// The chosen category's structured fields for the post forms; every field is optional
+const CategoryFieldsInput = ({ category, values, onChange }: CategoryFieldsInputProps) => {
+  const { registry } = useCategories();
+  const fields = registry.fields(category);
+
+  if (fields.length === 0) return null;
+
+  const setValue = (key: string, value: string) => onChange({ ...values, [key]: value });
+
+  const renderInput = (field: CategoryField) => {
+    const id = `detail-${field.key}`;
+
+    if (field.type === "select") {
+      return (
+        <Select
+          value={values[field.key] || NOT_SPECIFIED}
+          onValueChange={(value) => value && setValue(field.key, value === NOT_SPECIFIED ? "" : value)}
+        >
+          <SelectTrigger id={id} className="h-12">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NOT_SPECIFIED}>Not specified</SelectItem>
+            {field.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        id={id}
+        type={field.type === "date" ? "date" : "text"}
+        placeholder={field.placeholder}
+        className="h-12"
+        value={values[field.key] ?? ""}
+        onChange={(e) => setValue(field.key, e.target.value)}
+        maxLength={100}
+      />
+    );
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      {fields.map((field) => (
+        <div key={field.key} className="space-y-2">
+          <Label htmlFor={`detail-${field.key}`}>{field.label} (Optional)</Label>
+          {renderInput(field)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CategoryFieldsInput;
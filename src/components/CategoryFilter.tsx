@@ -0,0 +1,100 @@
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { getFilterFields, type PostDetails } from "@/lib/categoryFields";
+import { getCategoryIcon } from "@/lib/categoryIcons";
+
+const ANY = "any";
+
+interface CategoryFilterProps {
+  // Selected slugs; null means "All"
+  category: string | null;
+  subcategory: string | null;
+  onChange: (category: string | null, subcategory: string | null) => void;
+  // Field filters for the chosen category, e.g. { size: "M" }
+  details: PostDetails;
+  onDetailChange: (key: string, value: string | null) => void;
+}
+
+// Category buttons for the feeds, with rows for the chosen category's subcategories and field filters
+const CategoryFilter = ({ category, subcategory, onChange, details, onDetailChange }: CategoryFilterProps) => {
+  const { registry } = useCategories();
+  const selected = registry.tree.find((c) => c.slug === category);
+  const filterFields = getFilterFields(registry.fields(category));
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2 flex-wrap">
+        <Button
+          variant={category === null ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(null, null)}
+          className="transition-all"
+        >
+          All
+        </Button>
+        {registry.tree.map((c) => {
+          const Icon = getCategoryIcon(c.icon);
+          return (
+            <Button
+              key={c.id}
+              variant={category === c.slug ? "default" : "outline"}
+              size="sm"
+              onClick={() => onChange(c.slug, null)}
+              className="transition-all"
+            >
+              <Icon className="h-4 w-4" />
+              {c.name}
+            </Button>
+          );
+        })}
+      </div>
+      {selected && selected.children.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          <Button
+            variant={subcategory === null ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => onChange(selected.slug, null)}
+          >
+            All {selected.name}
+          </Button>
+          {selected.children.map((child) => (
+            <Button
+              key={child.id}
+              variant={subcategory === child.slug ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => onChange(selected.slug, child.slug)}
+            >
+              {child.name}
+            </Button>
+          ))}
+        </div>
+      )}
+      {filterFields.length > 0 && (
+        <div className="flex gap-2 flex-wrap">
+          {filterFields.map((field) => (
+            <Select
+              key={field.key}
+              value={details[field.key] ?? ANY}
+              onValueChange={(value) => value && onDetailChange(field.key, value === ANY ? null : value)}
+            >
+              <SelectTrigger className="h-9 w-auto min-w-36" aria-label={field.label}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any {field.label.toLowerCase()}</SelectItem>
+                {field.options.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {option}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CategoryFilter;
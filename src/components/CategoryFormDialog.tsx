@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { useCategories, useCreateCategory, useUpdateCategory } from "@/hooks/useCategories";
+import type { Category } from "@/lib/api/categories";
+import { getErrorMessage } from "@/lib/api/errors";
+import { toCategorySlug } from "@/lib/categories";
+import { CATEGORY_COLORS, getCategoryColor } from "@/lib/categoryColors";
+import { CATEGORY_ICONS } from "@/lib/categoryIcons";
+
+const NO_PARENT = "none";
+
+const SAVE_ERRORS = {
+  "23505": "A category with this slug already exists",
+  "23514": "Subcategories can't have subcategories of their own",
+  "42501": "Only admins can manage categories",
+};
+
+interface CategoryFormDialogProps {
+  // The category being edited, or null to add one
+  category: Category | null;
+  // Preselected parent when adding a subcategory
+  parentId?: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CategoryFormDialog = ({ category, parentId = null, open, onOpenChange }: CategoryFormDialogProps) => {
+  const { registry } = useCategories();
+  const createCategory = useCreateCategory();
+  const updateCategory = useUpdateCategory();
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [slugEdited, setSlugEdited] = useState(false);
+  const [icon, setIcon] = useState("package");
+  const [color, setColor] = useState("gray");
+  const [parent, setParent] = useState(NO_PARENT);
+  const [sortOrder, setSortOrder] = useState("0");
+
+  const isEditing = category !== null;
+  const hasChildren = registry.tree.some((c) => c.id === category?.id && c.children.length > 0);
+  const loading = createCategory.isPending || updateCategory.isPending;
+
+  // Start from the category being edited, or a blank form, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setName(category?.name ?? "");
+    setSlug(category?.slug ?? "");
+    setSlugEdited(isEditing);
+    setIcon(category?.icon ?? "package");
+    setColor(category?.color ?? "gray");
+    setParent(category?.parent_id ?? parentId ?? NO_PARENT);
+    setSortOrder(String(category?.sort_order ?? 0));
+  }, [open, category, parentId, isEditing]);
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    if (!slugEdited) setSlug(toCategorySlug(value));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    if (!toCategorySlug(slug)) {
+      toast.error("Please enter a slug");
+      return;
+    }
+
+    const values = {
+      name: name.trim(),
+      slug: toCategorySlug(slug),
+      icon,
+      color,
+      parent_id: parent === NO_PARENT ? null : parent,
+      sort_order: Number.parseInt(sortOrder, 10) || 0,
+    };
+
+    try {
+      if (category) {
+        await updateCategory.mutateAsync({ id: category.id, values });
+        toast.success(`"${values.name}" updated`);
+      } else {
+        await createCategory.mutateAsync(values);
+        toast.success(`"${values.name}" added`);
+      }
+      onOpenChange(false);
+    } catch (err) {
+      toast.error(getErrorMessage(err, SAVE_ERRORS, "Failed to save category. Please try again."));
+      console.error("Category save error:", err);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>{isEditing ? "Edit Category" : "Add Category"}</DialogTitle>
+            <DialogDescription>
+              {isEditing
+                ? "Changes show up on every post in this category straight away."
+                : "New categories are available in the post forms and feed filters straight away."}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="categoryName">Name</Label>
+              <Input
+                id="categoryName"
+                placeholder="e.g., Medicine"
+                value={name}
+                onChange={(e) => handleNameChange(e.target.value)}
+                maxLength={50}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categorySlug">Slug</Label>
+              <Input
+                id="categorySlug"
+                placeholder="medicine"
+                value={slug}
+                onChange={(e) => {
+                  setSlug(e.target.value);
+                  setSlugEdited(true);
+                }}
+                maxLength={50}
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categoryIcon">Icon</Label>
+              <Select value={icon} onValueChange={setIcon}>
+                <SelectTrigger id="categoryIcon">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CATEGORY_ICONS).map(([value, Icon]) => (
+                    <SelectItem key={value} value={value}>
+                      <span className="flex items-center gap-2">
+                        <Icon className="h-4 w-4" />
+                        {value}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categoryColor">Color</Label>
+              <Select value={color} onValueChange={setColor}>
+                <SelectTrigger id="categoryColor">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.keys(CATEGORY_COLORS).map((value) => (
+                    <SelectItem key={value} value={value}>
+                      <span className={`rounded px-2 py-0.5 text-xs ${getCategoryColor(value)}`}>{value}</span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categoryParent">Parent</Label>
+              <Select value={parent} onValueChange={setParent} disabled={hasChildren}>
+                <SelectTrigger id="categoryParent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {registry.tree
+                    .filter((c) => c.id !== category?.id)
+                    .map((c) => (
+                      <SelectItem key={c.id} value={c.id}>
+                        {c.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              {hasChildren && (
+                <p className="text-xs text-muted-foreground">Categories with subcategories stay at the top level.</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="categorySortOrder">Sort order</Label>
+              <Input
+                id="categorySortOrder"
+                type="number"
+                value={sortOrder}
+                onChange={(e) => setSortOrder(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={loading}>
+              {loading ? "Saving..." : isEditing ? "Save Changes" : "Add Category"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CategoryFormDialog;
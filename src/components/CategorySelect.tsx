@@ -0,0 +1,71 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryIcon } from "@/lib/categoryIcons";
+
+interface CategorySelectProps {
+  category: string;
+  subcategory: string | null;
+  onChange: (category: string, subcategory: string | null) => void;
+}
+
+// Category picker for the post forms; the subcategory picker appears when the category has any
+const CategorySelect = ({ category, subcategory, onChange }: CategorySelectProps) => {
+  const { registry } = useCategories();
+  const selected = registry.tree.find((c) => c.slug === category);
+
+  // Radix reports an empty value when a prefilled slug renders before the registry has loaded
+  const handleCategoryChange = (value: string) => {
+    if (value && value !== category) onChange(value, null);
+  };
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor="category">Category</Label>
+        <Select value={category} onValueChange={handleCategoryChange}>
+          <SelectTrigger id="category" className="h-12">
+            <SelectValue placeholder="Select a category" />
+          </SelectTrigger>
+          <SelectContent>
+            {registry.tree.map((c) => {
+              const Icon = getCategoryIcon(c.icon);
+              return (
+                <SelectItem key={c.id} value={c.slug}>
+                  <span className="flex items-center gap-2">
+                    <Icon className="h-4 w-4 text-muted-foreground" />
+                    {c.name}
+                  </span>
+                </SelectItem>
+              );
+            })}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selected && selected.children.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="subcategory">Subcategory (Optional)</Label>
+          <Select
+            value={subcategory ?? "none"}
+            onValueChange={(value) => value && onChange(category, value === "none" ? null : value)}
+          >
+            <SelectTrigger id="subcategory" className="h-12">
+              <SelectValue placeholder="Any" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Any {selected.name.toLowerCase()}</SelectItem>
+              {selected.children.map((child) => (
+                <SelectItem key={child.id} value={child.slug}>
+                  {child.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default CategorySelect;
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { loginPath } from "@/lib/authRedirect";
+
+interface ClaimDonationDialogProps {
+  donation: { id: string; title: string; user_id: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClaimed?: () => void;
+}
+
+const ClaimDonationDialog = ({ donation, open, onOpenChange, onClaimed }: ClaimDonationDialogProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setMessage("");
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!donation) return;
+
+    if (!user) {
+      toast.error("Please sign in to request this item");
+      navigate(loginPath(`${location.pathname}${location.search}`));
+      return;
+    }
+
+    if (donation.user_id === user.id) {
+      toast.error("You can't request your own donation");
+      return;
+    }
+
+    if (!message.trim()) {
+      toast.error("Please tell the donor why you need this item");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("donation_claims").insert({
+        donation_id: donation.id,
+        claimant_id: user.id,
+        message: message.trim(),
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error("You have already requested this item");
+        } else if (error.code === "23503") {
+          toast.error("User profile not found. Please try logging out and back in.");
+        } else if (error.code === "42501") {
+          toast.error("Permission denied. Please ensure you're logged in.");
+        } else {
+          toast.error("Failed to send your request. Please try again.");
+        }
+        console.error("Donation claim error:", error);
+      } else {
+        toast.success(`Request sent for "${donation.title}"! The donor can now review it.`);
+        handleOpenChange(false);
+        onClaimed?.();
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred. Please try again.");
+      console.error("Unexpected error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Request This Item</DialogTitle>
+            <DialogDescription>
+              {donation ? `Let the donor know why you need "${donation.title}" and when you can collect it.` : null}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="claim-message">Message</Label>
+            <Textarea
+              id="claim-message"
+              placeholder="e.g., My daughter needs a warm sweater for school. I can pick it up on Saturday."
+              className="min-h-[120px] resize-none"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={500}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="hero" disabled={loading}>
+              {loading ? "Sending..." : "Send Request"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClaimDonationDialog;
@@ -1,59 +1,94 @@
-import { MapPin, Clock, User } from "lucide-react";
+import { MapPin, Navigation, Clock, User, MoreVertical, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Link } from "react-router-dom";
+import CategoryBadge from "@/components/CategoryBadge";
+import CategoryDetails from "@/components/CategoryDetails";
+import type { Json } from "@/integrations/supabase/types";
 
 interface DonationCardProps {
   id: string;
   title: string;
   description: string;
+  // Category and subcategory slugs
   category: string;
+  subcategory?: string | null;
+  // Answers to the category's fields
+  details?: Json;
   location: string;
   userName: string;
   createdAt: string;
+  imageUrl?: string;
+  distance?: string;
   onRequest?: () => void;
+  onReport?: () => void;
 }
 
 const DonationCard = ({
+  id,
   title,
   description,
   category,
+  subcategory,
+  details = {},
   location,
   userName,
   createdAt,
+  imageUrl,
+  distance,
   onRequest,
+  onReport,
 }: DonationCardProps) => {
-  const getCategoryColor = (cat: string) => {
-    const colors: Record<string, string> = {
-      Clothing: "bg-blue-100 text-blue-700",
-      Electronics: "bg-purple-100 text-purple-700",
-      Education: "bg-green-100 text-green-700",
-      Food: "bg-orange-100 text-orange-700",
-      Services: "bg-pink-100 text-pink-700",
-      Other: "bg-gray-100 text-gray-700",
-    };
-    return colors[cat] || colors.Other;
-  };
-
   return (
     <div className="group bg-card rounded-xl border border-border p-5 shadow-soft hover:shadow-elevated transition-all duration-300 hover:-translate-y-1">
+      {imageUrl && (
+        <Link to={`/donate/${id}`} className="block -mx-5 -mt-5 mb-4 aspect-video overflow-hidden rounded-t-xl bg-secondary">
+          <img src={imageUrl} alt={title} loading="lazy" className="h-full w-full object-cover" />
+        </Link>
+      )}
       <div className="flex items-start justify-between mb-3">
         <h3 className="font-semibold text-lg text-foreground group-hover:text-primary transition-colors line-clamp-1">
-          {title}
+          <Link to={`/donate/${id}`} className="hover:underline">
+            {title}
+          </Link>
         </h3>
-        <Badge className={`${getCategoryColor(category)} border-0 text-xs font-medium`}>
-          {category}
-        </Badge>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <CategoryBadge category={category} subcategory={subcategory} className="font-medium" />
+          {onReport && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7 -mr-2" aria-label="More options">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={onReport}>
+                  <Flag className="h-4 w-4" />
+                  Report
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       </div>
       
       <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
         {description}
       </p>
+
+      <CategoryDetails category={category} details={details} compact className="mb-4" />
       
       <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mb-4">
         <span className="flex items-center gap-1">
           <MapPin className="h-3 w-3" />
           {location}
         </span>
+        {distance && (
+          <span className="flex items-center gap-1 text-primary">
+            <Navigation className="h-3 w-3" />
+            {distance}
+          </span>
+        )}
         <span className="flex items-center gap-1">
           <User className="h-3 w-3" />
           {userName}
@@ -64,13 +99,15 @@ const DonationCard = ({
         </span>
       </div>
       
-      <Button 
-        variant="warm" 
-        className="w-full"
-        onClick={onRequest}
-      >
-        Request This Item
-      </Button>
+      {onRequest && (
+        <Button 
+          variant="warm" 
+          className="w-full"
+          onClick={onRequest}
+        >
+          Request This Item
+        </Button>
+      )}
     </div>
   );
 };
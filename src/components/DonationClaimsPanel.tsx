@@ -0,0 +1,338 @@
+import { useState, useEffect, useCallback } from "react";
+import { Check, X, Undo2, PackageCheck, AlertCircle, Unlock } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import MessageButton from "@/components/MessageButton";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import type { DonationStatus } from "@/lib/donationStatus";
+import { formatDistanceToNow } from "date-fns";
+
+type DonationClaimStatus = Database["public"]["Enums"]["donation_claim_status"];
+
+interface DonationClaim {
+  id: string;
+  donation_id: string;
+  claimant_id: string;
+  message: string | null;
+  status: DonationClaimStatus;
+  created_at: string;
+  donations: { id: string; title: string; user_id: string; status: DonationStatus } | null;
+}
+
+interface DonationClaimsPanelProps {
+  userId: string;
+  onDonationStatusChange?: (donationId: string, status: DonationStatus) => void;
+}
+
+const STATUS_STYLES: Record<DonationClaimStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-700",
+  approved: "bg-green-100 text-green-700",
+  rejected: "bg-red-100 text-red-700",
+  cancelled: "bg-gray-100 text-gray-700",
+};
+
+const DonationClaimsPanel = ({ userId, onDonationStatusChange }: DonationClaimsPanelProps) => {
+  const [incoming, setIncoming] = useState<(DonationClaim & { claimantName: string })[]>([]);
+  const [outgoing, setOutgoing] = useState<DonationClaim[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchClaims = useCallback(async () => {
+    setError(null);
+
+    try {
+      const [incomingRes, outgoingRes] = await Promise.all([
+        supabase
+          .from("donation_claims")
+          .select("id, donation_id, claimant_id, message, status, created_at, donations!inner(id, title, user_id, status)")
+          .eq("donations.user_id", userId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("donation_claims")
+          .select("id, donation_id, claimant_id, message, status, created_at, donations(id, title, user_id, status)")
+          .eq("claimant_id", userId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (incomingRes.error) {
+        console.error("Incoming claims fetch error:", incomingRes.error);
+        throw new Error("Failed to load incoming claims");
+      }
+
+      if (outgoingRes.error) {
+        console.error("Outgoing claims fetch error:", outgoingRes.error);
+        throw new Error("Failed to load your claims");
+      }
+
+      // Fetch profiles for the claimant names
+      const claimantIds = [...new Set(incomingRes.data?.map(c => c.claimant_id) || [])];
+      const profileMap = new Map<string, string>();
+
+      if (claimantIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", claimantIds);
+
+        if (profilesError) {
+          console.error("Profiles fetch error:", profilesError);
+        } else {
+          profilesData?.forEach((p) => {
+            profileMap.set(p.id, p.full_name || "Anonymous");
+          });
+        }
+      }
+
+      setIncoming((incomingRes.data || []).map(c => ({
+        ...c,
+        claimantName: profileMap.get(c.claimant_id) || "Anonymous",
+      })));
+      setOutgoing(outgoingRes.data || []);
+    } catch (err) {
+      setError("Failed to load donation requests. Please try again.");
+      console.error("Claims fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchClaims();
+  }, [fetchClaims]);
+
+  const handleApprove = async (claim: DonationClaim) => {
+    try {
+      const { error } = await supabase.rpc("approve_donation_claim", { claim_id: claim.id });
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to approve this request");
+        } else if (error.code === "55000") {
+          toast.error("This donation is no longer available");
+        } else {
+          toast.error("Failed to approve request");
+        }
+        console.error("Approve claim error:", error);
+      } else {
+        toast.success("Request approved. The donation is now reserved.");
+        onDonationStatusChange?.(claim.donation_id, "reserved");
+        fetchClaims();
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected approve error:", err);
+    }
+  };
+
+  const handleRelease = async (claim: DonationClaim) => {
+    try {
+      const { error } = await supabase.rpc("release_donation_claim", { claim_id: claim.id });
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to release this reservation");
+        } else if (error.code === "55000") {
+          toast.error("This donation is no longer reserved for this request");
+        } else {
+          toast.error("Failed to release reservation");
+        }
+        console.error("Release claim error:", error);
+      } else {
+        toast.success("Reservation released. The donation is available again.");
+        onDonationStatusChange?.(claim.donation_id, "available");
+        fetchClaims();
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected release error:", err);
+    }
+  };
+
+  const handleMarkGiven = async (claim: DonationClaim) => {
+    try {
+      const { error } = await supabase.rpc("complete_donation_claim", { claim_id: claim.id });
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to update this donation");
+        } else if (error.code === "55000") {
+          toast.error("This donation is no longer reserved for this request");
+        } else {
+          toast.error("Failed to update donation");
+        }
+        console.error("Mark given error:", error);
+      } else {
+        const donationGiven = <T extends DonationClaim>(c: T): T =>
+          c.donation_id === claim.donation_id && c.donations
+            ? { ...c, donations: { ...c.donations, status: "given" as const } }
+            : c;
+        setIncoming(incoming.map(donationGiven));
+        toast.success("Marked as given. Thank you for donating!");
+        onDonationStatusChange?.(claim.donation_id, "given");
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected update error:", err);
+    }
+  };
+
+  const updateClaimStatus = async (id: string, status: DonationClaimStatus, successMessage: string) => {
+    try {
+      const { data, error } = await supabase.from("donation_claims").update({ status }).eq("id", id).select("id");
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to update this request");
+        } else {
+          toast.error("Failed to update request");
+        }
+        console.error("Update claim error:", error);
+      } else if (!data || data.length === 0) {
+        // Row level security only matches claims that are still pending
+        toast.error("This request has already been answered");
+        fetchClaims();
+      } else {
+        setIncoming(incoming.map((c) => (c.id === id ? { ...c, status } : c)));
+        setOutgoing(outgoing.map((c) => (c.id === id ? { ...c, status } : c)));
+        toast.success(successMessage);
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected claim update error:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-muted-foreground">Loading requests...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+        <div className="text-muted-foreground mb-4">{error}</div>
+        <Button variant="hero" onClick={fetchClaims}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Incoming Claims */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-6">Requests for Your Donations</h2>
+
+        {incoming.length > 0 ? (
+          <div className="space-y-4">
+            {incoming.map((claim) => (
+              <div key={claim.id} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <h3 className="font-medium text-foreground">{claim.claimantName}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      For "{claim.donations?.title}" · {formatDistanceToNow(new Date(claim.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge className={`${STATUS_STYLES[claim.status]} border-0 text-xs capitalize`}>
+                    {claim.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4 whitespace-pre-line">{claim.message}</p>
+                {claim.status === "pending" && claim.donations?.status === "available" && (
+                  <div className="flex gap-2">
+                    <Button variant="hero" size="sm" onClick={() => handleApprove(claim)}>
+                      <Check className="h-3 w-3" />
+                      Approve
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => updateClaimStatus(claim.id, "rejected", "Request rejected")}
+                    >
+                      <X className="h-3 w-3" />
+                      Reject
+                    </Button>
+                  </div>
+                )}
+                {claim.status === "approved" && claim.donations?.status === "reserved" && (
+                  <div className="flex gap-2">
+                    <Button variant="hero" size="sm" onClick={() => handleMarkGiven(claim)}>
+                      <PackageCheck className="h-3 w-3" />
+                      Mark as Given
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRelease(claim)}>
+                      <Unlock className="h-3 w-3" />
+                      Release Reservation
+                    </Button>
+                  </div>
+                )}
+                {claim.status === "approved" && claim.donations?.status === "given" && (
+                  <p className="text-xs font-medium text-primary">Handed over</p>
+                )}
+                <MessageButton
+                  recipientId={claim.claimant_id}
+                  donationId={claim.donation_id}
+                  className="mt-2"
+                />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No one has requested your donations yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Outgoing Claims */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-6">Items You've Requested</h2>
+
+        {outgoing.length > 0 ? (
+          <div className="space-y-4">
+            {outgoing.map((claim) => (
+              <div key={claim.id} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <h3 className="font-medium text-foreground">{claim.donations?.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Requested {formatDistanceToNow(new Date(claim.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge className={`${STATUS_STYLES[claim.status]} border-0 text-xs capitalize`}>
+                    {claim.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4 whitespace-pre-line">{claim.message}</p>
+                <div className="flex flex-wrap gap-2">
+                  {claim.status === "pending" && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateClaimStatus(claim.id, "cancelled", "Request cancelled")}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Cancel Request
+                    </Button>
+                  )}
+                  {claim.donations && (
+                    <MessageButton recipientId={claim.donations.user_id} donationId={claim.donation_id} />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">You haven't requested any donations yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DonationClaimsPanel;
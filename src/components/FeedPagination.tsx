@@ -0,0 +1,75 @@
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { applyFilterParams, getPaginationItems } from "@/lib/feedFilters";
+import { cn } from "@/lib/utils";
+
+interface FeedPaginationProps {
+  page: number;
+  totalPages: number;
+}
+
+const FeedPagination = ({ page, totalPages }: FeedPaginationProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [searchParams] = useSearchParams();
+
+  if (totalPages <= 1) return null;
+
+  const hrefFor = (target: number) => {
+    const query = applyFilterParams(searchParams, { page: String(target) }).toString();
+    return `${location.pathname}${query ? `?${query}` : ""}`;
+  };
+
+  const goTo = (target: number) => (e: React.MouseEvent<HTMLAnchorElement>) => {
+    e.preventDefault();
+    if (target < 1 || target > totalPages || target === page) return;
+    navigate(hrefFor(target));
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  return (
+    <Pagination className="mt-10">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={hrefFor(Math.max(page - 1, 1))}
+            onClick={goTo(page - 1)}
+            aria-disabled={page === 1}
+            className={cn(page === 1 && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+        {getPaginationItems(page, totalPages).map((item, index) =>
+          item === null ? (
+            <PaginationItem key={`ellipsis-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={item}>
+              <PaginationLink href={hrefFor(item)} onClick={goTo(item)} isActive={item === page}>
+                {item}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href={hrefFor(Math.min(page + 1, totalPages))}
+            onClick={goTo(page + 1)}
+            aria-disabled={page === totalPages}
+            className={cn(page === totalPages && "pointer-events-none opacity-50")}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+};
+
+export default FeedPagination;
@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback } from "react";
+import { Check, X, Undo2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import MessageButton from "@/components/MessageButton";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { formatDistanceToNow } from "date-fns";
+
+type HelpOfferStatus = Database["public"]["Enums"]["help_offer_status"];
+
+interface HelpOffer {
+  id: string;
+  request_id: string;
+  offerer_id: string;
+  message: string | null;
+  status: HelpOfferStatus;
+  created_at: string;
+  help_requests: { id: string; title: string; user_id: string } | null;
+}
+
+interface HelpOffersPanelProps {
+  userId: string;
+}
+
+const STATUS_STYLES: Record<HelpOfferStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-700",
+  accepted: "bg-green-100 text-green-700",
+  declined: "bg-red-100 text-red-700",
+  withdrawn: "bg-gray-100 text-gray-700",
+};
+
+const HelpOffersPanel = ({ userId }: HelpOffersPanelProps) => {
+  const [incoming, setIncoming] = useState<(HelpOffer & { offererName: string })[]>([]);
+  const [outgoing, setOutgoing] = useState<HelpOffer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOffers = useCallback(async () => {
+    setError(null);
+
+    try {
+      const [incomingRes, outgoingRes] = await Promise.all([
+        supabase
+          .from("help_offers")
+          .select("id, request_id, offerer_id, message, status, created_at, help_requests!inner(id, title, user_id)")
+          .eq("help_requests.user_id", userId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("help_offers")
+          .select("id, request_id, offerer_id, message, status, created_at, help_requests(id, title, user_id)")
+          .eq("offerer_id", userId)
+          .order("created_at", { ascending: false }),
+      ]);
+
+      if (incomingRes.error) {
+        console.error("Incoming offers fetch error:", incomingRes.error);
+        throw new Error("Failed to load incoming offers");
+      }
+
+      if (outgoingRes.error) {
+        console.error("Outgoing offers fetch error:", outgoingRes.error);
+        throw new Error("Failed to load your offers");
+      }
+
+      // Fetch profiles for the offerer names
+      const offererIds = [...new Set(incomingRes.data?.map(o => o.offerer_id) || [])];
+      const profileMap = new Map<string, string>();
+
+      if (offererIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", offererIds);
+
+        if (profilesError) {
+          console.error("Profiles fetch error:", profilesError);
+        } else {
+          profilesData?.forEach((p) => {
+            profileMap.set(p.id, p.full_name || "Anonymous");
+          });
+        }
+      }
+
+      setIncoming((incomingRes.data || []).map(o => ({
+        ...o,
+        offererName: profileMap.get(o.offerer_id) || "Anonymous",
+      })));
+      setOutgoing(outgoingRes.data || []);
+    } catch (err) {
+      setError("Failed to load offers. Please try again.");
+      console.error("Offers fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchOffers();
+  }, [fetchOffers]);
+
+  const updateOfferStatus = async (id: string, status: HelpOfferStatus, successMessage: string) => {
+    try {
+      const { data, error } = await supabase.from("help_offers").update({ status }).eq("id", id).select("id");
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You don't have permission to update this offer");
+        } else {
+          toast.error("Failed to update offer");
+        }
+        console.error("Update offer error:", error);
+      } else if (!data || data.length === 0) {
+        // Row level security only matches offers that can still move to this status
+        toast.error("This offer has already been answered or withdrawn");
+        fetchOffers();
+      } else {
+        setIncoming(incoming.map((o) => (o.id === id ? { ...o, status } : o)));
+        setOutgoing(outgoing.map((o) => (o.id === id ? { ...o, status } : o)));
+        toast.success(successMessage);
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected offer update error:", err);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-muted-foreground">Loading offers...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+        <div className="text-muted-foreground mb-4">{error}</div>
+        <Button variant="hero" onClick={fetchOffers}>Try Again</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {/* Incoming Offers */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-6">Offers on Your Requests</h2>
+
+        {incoming.length > 0 ? (
+          <div className="space-y-4">
+            {incoming.map((offer) => (
+              <div key={offer.id} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <h3 className="font-medium text-foreground">{offer.offererName}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      For "{offer.help_requests?.title}" · {formatDistanceToNow(new Date(offer.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge className={`${STATUS_STYLES[offer.status]} border-0 text-xs capitalize`}>
+                    {offer.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4 whitespace-pre-line">{offer.message}</p>
+                <div className="flex flex-wrap gap-2">
+                  {offer.status === "pending" && (
+                    <>
+                      <Button
+                        variant="hero"
+                        size="sm"
+                        onClick={() => updateOfferStatus(offer.id, "accepted", "Offer accepted")}
+                      >
+                        <Check className="h-3 w-3" />
+                        Accept
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => updateOfferStatus(offer.id, "declined", "Offer declined")}
+                      >
+                        <X className="h-3 w-3" />
+                        Decline
+                      </Button>
+                    </>
+                  )}
+                  <MessageButton recipientId={offer.offerer_id} helpRequestId={offer.request_id} />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No one has offered to help on your requests yet</p>
+          </div>
+        )}
+      </div>
+
+      {/* Outgoing Offers */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-6">Offers You've Made</h2>
+
+        {outgoing.length > 0 ? (
+          <div className="space-y-4">
+            {outgoing.map((offer) => (
+              <div key={offer.id} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <h3 className="font-medium text-foreground">{offer.help_requests?.title}</h3>
+                    <p className="text-xs text-muted-foreground">
+                      Offered {formatDistanceToNow(new Date(offer.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge className={`${STATUS_STYLES[offer.status]} border-0 text-xs capitalize`}>
+                    {offer.status}
+                  </Badge>
+                </div>
+                <p className="text-sm text-muted-foreground mb-4 whitespace-pre-line">{offer.message}</p>
+                <div className="flex flex-wrap gap-2">
+                  {(offer.status === "pending" || offer.status === "accepted") && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateOfferStatus(offer.id, "withdrawn", "Offer withdrawn")}
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Withdraw
+                    </Button>
+                  )}
+                  {offer.help_requests && (
+                    <MessageButton recipientId={offer.help_requests.user_id} helpRequestId={offer.request_id} />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">You haven't offered to help on any requests yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HelpOffersPanel;
@@ -1,41 +1,56 @@
-import { MapPin, Clock, User, AlertTriangle } from "lucide-react";
+import { MapPin, Navigation, Clock, User, AlertTriangle, Users, MoreVertical, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Link } from "react-router-dom";
+import {
+  ACTIVE_HELP_REQUEST_STATUSES,
+  HELP_REQUEST_STATUS_META,
+  type HelpRequestStatus,
+} from "@/lib/helpRequestStatus";
+import CategoryBadge from "@/components/CategoryBadge";
+import CategoryDetails from "@/components/CategoryDetails";
+import type { Json } from "@/integrations/supabase/types";
 
 interface HelpRequestCardProps {
   id: string;
   title: string;
   description: string;
+  // Category and subcategory slugs
   category: string;
+  subcategory?: string | null;
+  // Answers to the category's fields
+  details?: Json;
   location: string;
   userName: string;
   urgency: "low" | "medium" | "high";
+  status?: HelpRequestStatus;
   createdAt: string;
+  imageUrl?: string;
+  distance?: string;
+  offerCount?: number;
   onOffer?: () => void;
+  onReport?: () => void;
 }
 
 const HelpRequestCard = ({
+  id,
   title,
   description,
   category,
+  subcategory,
+  details = {},
   location,
   userName,
   urgency,
+  status = "open",
   createdAt,
+  imageUrl,
+  distance,
+  offerCount = 0,
   onOffer,
+  onReport,
 }: HelpRequestCardProps) => {
-  const getCategoryColor = (cat: string) => {
-    const colors: Record<string, string> = {
-      Clothing: "bg-blue-100 text-blue-700",
-      Electronics: "bg-purple-100 text-purple-700",
-      Education: "bg-green-100 text-green-700",
-      Food: "bg-orange-100 text-orange-700",
-      Services: "bg-pink-100 text-pink-700",
-      Other: "bg-gray-100 text-gray-700",
-    };
-    return colors[cat] || colors.Other;
-  };
-
   const getUrgencyStyle = (urg: string) => {
     const styles: Record<string, { bg: string; text: string; label: string }> = {
       low: { bg: "bg-green-100", text: "text-green-700", label: "Low Priority" },
@@ -46,19 +61,47 @@ const HelpRequestCard = ({
   };
 
   const urgencyStyle = getUrgencyStyle(urgency);
+  const statusMeta = HELP_REQUEST_STATUS_META[status];
+  const acceptsOffers = ACTIVE_HELP_REQUEST_STATUSES.includes(status);
 
   return (
     <div className="group bg-card rounded-xl border border-border p-5 shadow-soft hover:shadow-elevated transition-all duration-300 hover:-translate-y-1">
+      {imageUrl && (
+        <Link to={`/request-help/${id}`} className="block -mx-5 -mt-5 mb-4 aspect-video overflow-hidden rounded-t-xl bg-secondary">
+          <img src={imageUrl} alt={title} loading="lazy" className="h-full w-full object-cover" />
+        </Link>
+      )}
       <div className="flex items-start justify-between mb-3">
         <h3 className="font-semibold text-lg text-foreground group-hover:text-primary transition-colors line-clamp-1">
-          {title}
+          <Link to={`/request-help/${id}`} className="hover:underline">
+            {title}
+          </Link>
         </h3>
-        <Badge className={`${getCategoryColor(category)} border-0 text-xs font-medium`}>
-          {category}
-        </Badge>
+        <div className="flex items-center gap-1 flex-shrink-0">
+          <CategoryBadge category={category} subcategory={subcategory} className="font-medium" />
+          {onReport && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-7 w-7 -mr-2" aria-label="More options">
+                  <MoreVertical className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={onReport}>
+                  <Flag className="h-4 w-4" />
+                  Report
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
       </div>
 
-      {urgency === "high" && (
+      <Badge className={`${statusMeta.className} border-0 text-xs font-medium mb-3`}>
+        {statusMeta.label}
+      </Badge>
+
+      {urgency === "high" && acceptsOffers && (
         <div className={`flex items-center gap-2 ${urgencyStyle.bg} ${urgencyStyle.text} rounded-lg px-3 py-1.5 text-xs font-medium mb-3`}>
           <AlertTriangle className="h-3 w-3" />
           {urgencyStyle.label}
@@ -68,12 +111,20 @@ const HelpRequestCard = ({
       <p className="text-muted-foreground text-sm mb-4 line-clamp-2">
         {description}
       </p>
+
+      <CategoryDetails category={category} details={details} compact className="mb-4" />
       
       <div className="flex flex-wrap gap-3 text-xs text-muted-foreground mb-4">
         <span className="flex items-center gap-1">
           <MapPin className="h-3 w-3" />
           {location}
         </span>
+        {distance && (
+          <span className="flex items-center gap-1 text-primary">
+            <Navigation className="h-3 w-3" />
+            {distance}
+          </span>
+        )}
         <span className="flex items-center gap-1">
           <User className="h-3 w-3" />
           {userName}
@@ -82,15 +133,22 @@ const HelpRequestCard = ({
           <Clock className="h-3 w-3" />
           {createdAt}
         </span>
+        <span className={`flex items-center gap-1 ${offerCount > 0 ? "text-primary font-medium" : ""}`}>
+          <Users className="h-3 w-3" />
+          {offerCount === 0 ? "No helpers yet" : `${offerCount} ${offerCount === 1 ? "helper" : "helpers"} offered`}
+        </span>
       </div>
       
-      <Button 
-        variant="hero" 
-        className="w-full"
-        onClick={onOffer}
-      >
-        Offer to Help
-      </Button>
+      {onOffer && (
+        <Button 
+          variant="hero" 
+          className="w-full"
+          onClick={onOffer}
+          disabled={!acceptsOffers}
+        >
+          {acceptsOffers ? "Offer to Help" : `Request ${statusMeta.label}`}
+        </Button>
+      )}
     </div>
   );
 };
@@ -0,0 +1,39 @@
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from "@/components/ui/carousel";
+import { getItemImageUrl, type ItemImage } from "@/lib/itemImages";
+
+interface ItemImageGalleryProps {
+  images: ItemImage[];
+  title: string;
+}
+
+const ItemImageGallery = ({ images, title }: ItemImageGalleryProps) => {
+  if (images.length === 0) return null;
+
+  if (images.length === 1) {
+    return (
+      <div className="rounded-xl overflow-hidden border border-border bg-secondary">
+        <img src={getItemImageUrl(images[0].storage_path)} alt={title} className="w-full max-h-[28rem] object-contain" />
+      </div>
+    );
+  }
+
+  return (
+    <Carousel className="rounded-xl overflow-hidden border border-border bg-secondary" opts={{ loop: true }}>
+      <CarouselContent>
+        {images.map((image, index) => (
+          <CarouselItem key={image.id}>
+            <img
+              src={getItemImageUrl(image.storage_path)}
+              alt={`${title} (${index + 1} of ${images.length})`}
+              className="w-full h-[28rem] object-contain"
+            />
+          </CarouselItem>
+        ))}
+      </CarouselContent>
+      <CarouselPrevious className="left-3" />
+      <CarouselNext className="right-3" />
+    </Carousel>
+  );
+};
+
+export default ItemImageGallery;
@@ -0,0 +1,77 @@
+import { useEffect, useMemo, useRef } from "react";
+import { ImagePlus, X } from "lucide-react";
+import { toast } from "sonner";
+import { MAX_ITEM_IMAGES, THUMBNAIL_IMAGE_SIZE, getItemImageUrl, type ItemImage } from "@/lib/itemImages";
+
+interface ItemImagePickerProps {
+  existing?: ItemImage[];
+  files: File[];
+  onFilesChange: (files: File[]) => void;
+  onRemoveExisting?: (image: ItemImage) => void;
+}
+
+const ItemImagePicker = ({ existing = [], files, onFilesChange, onRemoveExisting }: ItemImagePickerProps) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previews = useMemo(() => files.map((file) => URL.createObjectURL(file)), [files]);
+  const remaining = MAX_ITEM_IMAGES - existing.length - files.length;
+
+  useEffect(() => {
+    return () => previews.forEach((url) => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []).filter((file) => file.type.startsWith("image/"));
+    e.target.value = "";
+
+    if (selected.length > remaining) {
+      toast.error(`You can attach up to ${MAX_ITEM_IMAGES} photos`);
+    }
+
+    onFilesChange([...files, ...selected.slice(0, Math.max(remaining, 0))]);
+  };
+
+  const thumbnailClass = "relative aspect-square rounded-lg overflow-hidden border border-border bg-secondary";
+  const removeClass =
+    "absolute top-1 right-1 flex h-6 w-6 items-center justify-center rounded-full bg-background/90 text-foreground shadow-soft hover:bg-background";
+
+  return (
+    <div className="grid grid-cols-3 sm:grid-cols-5 gap-3">
+      {existing.map((image) => (
+        <div key={image.id} className={thumbnailClass}>
+          <img src={getItemImageUrl(image.storage_path, THUMBNAIL_IMAGE_SIZE)} alt="" className="h-full w-full object-cover" />
+          {onRemoveExisting && (
+            <button type="button" className={removeClass} onClick={() => onRemoveExisting(image)} aria-label="Remove photo">
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+      {previews.map((url, index) => (
+        <div key={url} className={thumbnailClass}>
+          <img src={url} alt="" className="h-full w-full object-cover" />
+          <button
+            type="button"
+            className={removeClass}
+            onClick={() => onFilesChange(files.filter((_, i) => i !== index))}
+            aria-label="Remove photo"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+      {remaining > 0 && (
+        <button
+          type="button"
+          className="aspect-square rounded-lg border-2 border-dashed border-border flex flex-col items-center justify-center gap-1 text-xs text-muted-foreground hover:border-primary hover:text-primary transition-colors"
+          onClick={() => inputRef.current?.click()}
+        >
+          <ImagePlus className="h-6 w-6" />
+          Add photo
+        </button>
+      )}
+      <input ref={inputRef} type="file" accept="image/*" multiple className="hidden" onChange={handleSelect} />
+    </div>
+  );
+};
+
+export default ItemImagePicker;
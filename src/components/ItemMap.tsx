@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { MapContainer, Marker, Popup, TileLayer, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { useCategories } from "@/hooks/useCategories";
+import { getCategoryColor } from "@/lib/categoryColors";
+import type { Coordinates } from "@/lib/geocoding";
+
+export interface MapItem extends Coordinates {
+  id: string;
+  title: string;
+  // Category slug
+  category: string;
+  href: string;
+}
+
+interface ItemMapProps {
+  items: MapItem[];
+  center?: Coordinates | null;
+}
+
+// Tiles default to OpenStreetMap; point these at a self-hosted tile server
+const TILE_URL = import.meta.env.VITE_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+const TILE_ATTRIBUTION =
+  import.meta.env.VITE_MAP_TILE_ATTRIBUTION ||
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+const DEFAULT_CENTER: Coordinates = { latitude: 20.5937, longitude: 78.9629 };
+const DEFAULT_ZOOM = 5;
+const MAX_ZOOM = 18;
+
+// Markers closer than this many pixels at the current zoom are grouped
+const CLUSTER_CELL_PX = 60;
+
+const categoryIcon = (name: string, color: string) =>
+  L.divIcon({
+    className: "",
+    iconSize: [28, 28],
+    iconAnchor: [14, 14],
+    html: `<span class="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white shadow-md text-xs font-bold ${getCategoryColor(color)}">${name.charAt(0).toUpperCase()}</span>`,
+  });
+
+const clusterIcon = (count: number) =>
+  L.divIcon({
+    className: "",
+    iconSize: [36, 36],
+    iconAnchor: [18, 18],
+    html: `<span class="flex h-9 w-9 items-center justify-center rounded-full border-2 border-white shadow-md bg-primary text-primary-foreground text-sm font-semibold">${count}</span>`,
+  });
+
+const ClusteredMarkers = ({ items }: { items: MapItem[] }) => {
+  const map = useMap();
+  const navigate = useNavigate();
+  const { registry } = useCategories();
+  const [zoom, setZoom] = useState(map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom()),
+  });
+
+  const clusters = useMemo(() => {
+    const cells = new Map<string, MapItem[]>();
+
+    items.forEach((item) => {
+      const point = map.project([item.latitude, item.longitude], zoom);
+      const key = `${Math.floor(point.x / CLUSTER_CELL_PX)}:${Math.floor(point.y / CLUSTER_CELL_PX)}`;
+      cells.set(key, [...(cells.get(key) ?? []), item]);
+    });
+
+    return [...cells.values()];
+  }, [items, map, zoom]);
+
+  return (
+    <>
+      {clusters.map((group) => {
+        const [first] = group;
+
+        if (group.length === 1) {
+          return (
+            <Marker
+              key={first.id}
+              position={[first.latitude, first.longitude]}
+              icon={categoryIcon(registry.label(first.category), registry.find(first.category)?.color ?? "gray")}
+              eventHandlers={{ click: () => navigate(first.href) }}
+            >
+              <Tooltip direction="top" offset={[0, -14]}>
+                {first.title}
+              </Tooltip>
+            </Marker>
+          );
+        }
+
+        const bounds = L.latLngBounds(group.map((item) => [item.latitude, item.longitude]));
+        const center = bounds.getCenter();
+        // Posts geocoded to the same town share coordinates and never split
+        // apart, so list them instead of zooming
+        const stacked = bounds.getNorthEast().equals(bounds.getSouthWest()) || zoom >= MAX_ZOOM;
+
+        return (
+          <Marker
+            key={`cluster-${first.id}`}
+            position={center}
+            icon={clusterIcon(group.length)}
+            eventHandlers={stacked ? undefined : { click: () => map.fitBounds(bounds, { padding: [48, 48] }) }}
+          >
+            {stacked && (
+              <Popup>
+                <ul className="space-y-1 max-h-48 overflow-y-auto">
+                  {group.map((item) => (
+                    <li key={item.id}>
+                      <Link to={item.href} className="text-sm text-primary hover:underline">
+                        {item.title}
+                      </Link>
+                      <span className="text-xs text-muted-foreground"> · {registry.label(item.category)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </Popup>
+            )}
+          </Marker>
+        );
+      })}
+    </>
+  );
+};
+
+const FitToItems = ({ items }: { items: MapItem[] }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (items.length === 0) return;
+    map.fitBounds(L.latLngBounds(items.map((item) => [item.latitude, item.longitude])), {
+      padding: [48, 48],
+      maxZoom: 12,
+    });
+  }, [items, map]);
+
+  return null;
+};
+
+const ItemMap = ({ items, center }: ItemMapProps) => {
+  const initialCenter = center ?? items[0] ?? DEFAULT_CENTER;
+
+  return (
+    <div className="h-[32rem] rounded-xl overflow-hidden border border-border shadow-soft relative z-0">
+      <MapContainer
+        center={[initialCenter.latitude, initialCenter.longitude]}
+        zoom={center || items.length > 0 ? 11 : DEFAULT_ZOOM}
+        maxZoom={MAX_ZOOM}
+        className="h-full w-full"
+        scrollWheelZoom
+      >
+        <TileLayer url={TILE_URL} attribution={TILE_ATTRIBUTION} maxZoom={MAX_ZOOM} />
+        <ClusteredMarkers items={items} />
+        {!center && <FitToItems items={items} />}
+      </MapContainer>
+    </div>
+  );
+};
+
+export default ItemMap;
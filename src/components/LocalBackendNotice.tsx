@@ -0,0 +1,16 @@
+import { CloudOff } from "lucide-react";
+
+interface LocalBackendNoticeProps {
+  // What's missing, e.g. "Messages"
+  feature: string;
+}
+
+// Stands in for features the demo backend (VITE_BACKEND=local) doesn't have
+const LocalBackendNotice = ({ feature }: LocalBackendNoticeProps) => (
+  <div className="text-center py-12">
+    <CloudOff className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+    <p className="text-muted-foreground">{feature} need the hosted backend and aren't available in demo mode.</p>
+  </div>
+);
+
+export default LocalBackendNotice;
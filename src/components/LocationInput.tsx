@@ -0,0 +1,138 @@
+import { useEffect, useRef, useState } from "react";
+import { LocateFixed, MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { toast } from "sonner";
+import { getCurrentPosition, getGeocoder, type GeoPlace } from "@/lib/geocoding";
+import { SEARCH_DEBOUNCE_MS } from "@/lib/feedFilters";
+
+interface LocationInputProps {
+  id: string;
+  value: string;
+  place: GeoPlace | null;
+  onChange: (value: string, place: GeoPlace | null) => void;
+  placeholder?: string;
+  required?: boolean;
+}
+
+const LocationInput = ({ id, value, place, onChange, placeholder, required }: LocationInputProps) => {
+  const [suggestions, setSuggestions] = useState<GeoPlace[]>([]);
+  const [focused, setFocused] = useState(false);
+  const [locating, setLocating] = useState(false);
+  const latestValue = useRef(value);
+  latestValue.current = value;
+
+  useEffect(() => {
+    if (place || value.trim().length < 2 || !getGeocoder().autocomplete) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const results = await getGeocoder().search(value);
+        if (!cancelled) setSuggestions(results);
+      } catch (err) {
+        console.error("Location suggestions error:", err);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, place]);
+
+  // Geocoders without autocomplete look up the typed text once the field loses focus
+  const handleBlur = async () => {
+    setFocused(false);
+    if (place || value.trim().length < 2 || getGeocoder().autocomplete) return;
+
+    try {
+      const [match] = await getGeocoder().search(value, 1);
+      if (match && latestValue.current === value) onChange(value, match);
+    } catch (err) {
+      console.error("Location lookup error:", err);
+    }
+  };
+
+  const handleUseMyLocation = async () => {
+    setLocating(true);
+
+    try {
+      const coordinates = await getCurrentPosition();
+      const match = await getGeocoder().reverse(coordinates);
+
+      if (match) {
+        onChange(match.label, match);
+      } else {
+        toast.error("We couldn't find a town near you. Please type your location instead.");
+      }
+    } catch (err) {
+      toast.error("Couldn't get your location. Please check your browser permissions.");
+      console.error("Geolocation error:", err);
+    } finally {
+      setLocating(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            id={id}
+            placeholder={placeholder ?? "e.g., Pune, Maharashtra"}
+            className="pl-10 h-12"
+            value={value}
+            onChange={(e) => onChange(e.target.value, null)}
+            onFocus={() => setFocused(true)}
+            onBlur={handleBlur}
+            maxLength={100}
+            autoComplete="off"
+            required={required}
+          />
+          {focused && suggestions.length > 0 && (
+            <div className="absolute z-20 mt-1 w-full rounded-lg border border-border bg-popover shadow-elevated overflow-hidden">
+              {suggestions.map((suggestion) => (
+                <button
+                  key={`${suggestion.latitude},${suggestion.longitude}`}
+                  type="button"
+                  className="w-full text-left px-4 py-2 text-sm hover:bg-secondary transition-colors"
+                  onMouseDown={(e) => {
+                    // Pick before the input's blur hides the list
+                    e.preventDefault();
+                    onChange(suggestion.label, suggestion);
+                    setSuggestions([]);
+                  }}
+                >
+                  {suggestion.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          className="h-12"
+          onClick={handleUseMyLocation}
+          disabled={locating}
+          title="Use my current location"
+        >
+          <LocateFixed className="h-4 w-4" />
+          <span className="hidden sm:inline">{locating ? "Locating..." : "Use my location"}</span>
+        </Button>
+      </div>
+      {place && (
+        <p className="text-xs text-muted-foreground">
+          Matched to {place.label}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LocationInput;
@@ -0,0 +1,200 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { AlertCircle, Navigation, Sparkles, Check } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import MessageButton from "@/components/MessageButton";
+import CategoryBadge from "@/components/CategoryBadge";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+type Match = Database["public"]["Functions"]["get_my_matches"]["Returns"][number];
+
+interface MatchesPanelProps {
+  userId: string;
+}
+
+const matchKey = (match: Match) => `${match.donation_id}:${match.help_request_id}`;
+
+const MatchesPanel = ({ userId }: MatchesPanelProps) => {
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [suggesting, setSuggesting] = useState<string | null>(null);
+
+  const fetchMatches = useCallback(async () => {
+    setError(null);
+
+    try {
+      const { data, error } = await supabase.rpc("get_my_matches");
+
+      if (error) {
+        console.error("Matches fetch error:", error);
+        throw new Error("Failed to load matches");
+      }
+
+      setMatches(data || []);
+    } catch (err) {
+      setError("Failed to load matches. Please try again.");
+      console.error("Matches fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchMatches();
+  }, [fetchMatches, userId]);
+
+  const suggestDonation = async (match: Match) => {
+    const key = matchKey(match);
+    setSuggesting(key);
+
+    try {
+      const { error } = await supabase.from("donation_suggestions").insert({
+        donation_id: match.donation_id,
+        help_request_id: match.help_request_id,
+        suggested_by: userId,
+      });
+
+      if (error && error.code !== "23505") {
+        if (error.code === "42501") {
+          toast.error("This donation or request is no longer open");
+        } else {
+          toast.error("Failed to suggest donation");
+        }
+        console.error("Suggest donation error:", error);
+        return;
+      }
+
+      setMatches(matches.map((m) => (matchKey(m) === key ? { ...m, suggested: true } : m)));
+      toast.success("Suggestion sent to the requester");
+    } catch (err) {
+      toast.error("An unexpected error occurred");
+      console.error("Unexpected suggestion error:", err);
+    } finally {
+      setSuggesting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="text-muted-foreground">Finding matches...</div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="text-center py-12">
+        <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+        <div className="text-muted-foreground mb-4">{error}</div>
+        <Button variant="hero" onClick={fetchMatches}>Try Again</Button>
+      </div>
+    );
+  }
+
+  const asDonor = matches.filter((m) => m.perspective === "donor");
+  const asRequester = matches.filter((m) => m.perspective === "requester");
+
+  const renderDetails = (match: Match) => (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      <CategoryBadge category={match.category} />
+      <Badge className="bg-primary/10 text-primary border-0 text-xs">{match.score}% match</Badge>
+      {match.distance_km !== null && (
+        <span className="flex items-center gap-1">
+          <Navigation className="h-3 w-3" />
+          {match.distance_km < 1 ? "Under 1 km apart" : `${Math.round(match.distance_km)} km apart`}
+        </span>
+      )}
+      {match.request_urgency === "high" && <span className="text-destructive font-medium">Urgent</span>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8">
+      {/* Donor side */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-1">Requests Your Donations Could Help</h2>
+        <p className="text-sm text-muted-foreground mb-6">
+          Suggest a donation and the requester will be notified.
+        </p>
+
+        {asDonor.length > 0 ? (
+          <div className="space-y-4">
+            {asDonor.map((match) => (
+              <div key={matchKey(match)} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="mb-2">
+                  <Link to={`/request-help/${match.help_request_id}`} className="font-medium text-foreground hover:text-primary hover:underline">
+                    {match.request_title}
+                  </Link>
+                  <p className="text-xs text-muted-foreground">Matches your donation "{match.donation_title}"</p>
+                </div>
+                <div className="mb-4">{renderDetails(match)}</div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    variant={match.suggested ? "outline" : "hero"}
+                    size="sm"
+                    disabled={match.suggested || suggesting === matchKey(match)}
+                    onClick={() => suggestDonation(match)}
+                  >
+                    {match.suggested ? <Check className="h-3 w-3" /> : <Sparkles className="h-3 w-3" />}
+                    {match.suggested ? "Suggested" : "Suggest This Donation"}
+                  </Button>
+                  <MessageButton recipientId={match.request_user_id} helpRequestId={match.help_request_id} />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No open requests match your available donations right now</p>
+          </div>
+        )}
+      </div>
+
+      {/* Requester side */}
+      <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+        <h2 className="text-lg font-semibold text-foreground mb-1">Donations That Match Your Requests</h2>
+        <p className="text-sm text-muted-foreground mb-6">
+          Available items close to what you asked for.
+        </p>
+
+        {asRequester.length > 0 ? (
+          <div className="space-y-4">
+            {asRequester.map((match) => (
+              <div key={matchKey(match)} className="bg-secondary/30 rounded-lg p-4 border border-border">
+                <div className="flex items-start justify-between gap-4 mb-2">
+                  <div>
+                    <Link to={`/donate/${match.donation_id}`} className="font-medium text-foreground hover:text-primary hover:underline">
+                      {match.donation_title}
+                    </Link>
+                    <p className="text-xs text-muted-foreground">For your request "{match.request_title}"</p>
+                  </div>
+                  {match.suggested && (
+                    <Badge className="bg-green-100 text-green-700 border-0 text-xs">Suggested by the donor</Badge>
+                  )}
+                </div>
+                <div className="mb-4">{renderDetails(match)}</div>
+                <div className="flex flex-wrap gap-2">
+                  <Link to={`/donate/${match.donation_id}`}>
+                    <Button variant="warm" size="sm">View Donation</Button>
+                  </Link>
+                  <MessageButton recipientId={match.donation_user_id} donationId={match.donation_id} />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No available donations match your requests yet</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MatchesPanel;
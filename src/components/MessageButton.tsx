@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { MessageSquare } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { loginPath } from "@/lib/authRedirect";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+
+interface MessageButtonProps extends Pick<ButtonProps, "variant" | "size" | "className"> {
+  recipientId: string;
+  donationId?: string;
+  helpRequestId?: string;
+  label?: string;
+}
+
+const MessageButton = ({
+  recipientId,
+  donationId,
+  helpRequestId,
+  label = "Message",
+  variant = "outline",
+  size = "sm",
+  className,
+}: MessageButtonProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(false);
+
+  const handleClick = async () => {
+    if (!user) {
+      toast.error("Please sign in to send messages");
+      navigate(loginPath(`${location.pathname}${location.search}`));
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase.rpc("start_conversation", {
+        recipient_id: recipientId,
+        donation_id: donationId,
+        help_request_id: helpRequestId,
+      });
+
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You can't start a conversation about this item");
+        } else {
+          toast.error("Failed to open conversation. Please try again.");
+        }
+        console.error("Start conversation error:", error);
+      } else {
+        navigate(`/messages/${data}`);
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred. Please try again.");
+      console.error("Unexpected error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Conversations live on the hosted backend only
+  if (IS_LOCAL_BACKEND) return null;
+
+  return (
+    <Button variant={variant} size={size} className={className} onClick={handleClick} disabled={loading}>
+      <MessageSquare className="h-4 w-4" />
+      {loading ? "Opening..." : label}
+    </Button>
+  );
+};
+
+export default MessageButton;
@@ -0,0 +1,201 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { Send, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+
+type Message = Tables<"messages">;
+
+interface MessageThreadProps {
+  conversationId: string;
+  userId: string;
+  onRead?: () => void;
+}
+
+const MessageThread = ({ conversationId, userId, onRead }: MessageThreadProps) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [body, setBody] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Messages can arrive both from our own insert and the realtime echo
+  const appendMessage = useCallback((message: Message) => {
+    setMessages((current) =>
+      current.some((m) => m.id === message.id) ? current : [...current, message]
+    );
+  }, []);
+
+  const markRead = useCallback(async () => {
+    const { error } = await supabase.rpc("mark_conversation_read", { conversation_id: conversationId });
+
+    if (error) {
+      console.error("Mark read error:", error);
+    } else {
+      onRead?.();
+    }
+  }, [conversationId, onRead]);
+
+  const fetchMessages = useCallback(async () => {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("messages")
+        .select("*")
+        .eq("conversation_id", conversationId)
+        .order("created_at", { ascending: true });
+
+      if (error) {
+        console.error("Messages fetch error:", error);
+        throw new Error("Failed to load messages");
+      }
+
+      setMessages(data || []);
+      markRead();
+    } catch (err) {
+      setError("Failed to load messages. Please try again.");
+      console.error("Fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, markRead]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel(`messages:${conversationId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          appendMessage(payload.new as Message);
+          markRead();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, appendMessage, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth" });
+  }, [messages]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!body.trim()) return;
+
+    setSending(true);
+
+    try {
+      const { data, error } = await supabase
+        .from("messages")
+        .insert({ conversation_id: conversationId, sender_id: userId, body: body.trim() })
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === "42501") {
+          toast.error("You can't send messages in this conversation");
+        } else {
+          toast.error("Failed to send message. Please try again.");
+        }
+        console.error("Send message error:", error);
+      } else {
+        appendMessage(data);
+        setBody("");
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred. Please try again.");
+      console.error("Unexpected error:", err);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && !e.shiftKey) {
+      e.preventDefault();
+      e.currentTarget.form?.requestSubmit();
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {loading && (
+          <div className="text-center py-8 text-muted-foreground">Loading messages...</div>
+        )}
+
+        {error && (
+          <div className="text-center py-8">
+            <AlertCircle className="h-10 w-10 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground mb-4">{error}</div>
+            <Button variant="hero" onClick={fetchMessages}>Try Again</Button>
+          </div>
+        )}
+
+        {!loading && !error && messages.length === 0 && (
+          <div className="text-center py-8 text-muted-foreground">
+            No messages yet. Say hello and arrange the details here.
+          </div>
+        )}
+
+        {!loading && !error && messages.map((message) => {
+          const isMine = message.sender_id === userId;
+          return (
+            <div key={message.id} className={cn("flex", isMine ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[75%] rounded-2xl px-4 py-2 text-sm",
+                  isMine ? "bg-primary text-primary-foreground" : "bg-secondary text-secondary-foreground"
+                )}
+              >
+                <p className="whitespace-pre-line break-words">{message.body}</p>
+                <p className={cn("text-[10px] mt-1", isMine ? "text-primary-foreground/70" : "text-muted-foreground")}>
+                  {format(new Date(message.created_at), "d MMM, h:mm a")}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="border-t border-border p-4 flex gap-2">
+        <Textarea
+          placeholder="Write a message..."
+          className="min-h-[44px] max-h-32 resize-none"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={handleKeyDown}
+          maxLength={2000}
+          rows={1}
+        />
+        <Button type="submit" variant="hero" size="icon" disabled={sending || !body.trim()} aria-label="Send message">
+          <Send className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+};
+
+export default MessageThread;
@@ -1,14 +1,19 @@
 import { Link, useLocation, useNavigate } from "react-router-dom";
-import { Heart, Home, Gift, HelpCircle, User, LogOut, Menu, X } from "lucide-react";
+import { Heart, Home, Gift, HelpCircle, User, LogOut, Menu, X, MessageSquare, Bell, ShieldCheck } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useNotifications } from "@/hooks/useNotifications";
+import NotificationBell from "@/components/NotificationBell";
 import { toast } from "sonner";
+import { loginPath } from "@/lib/authRedirect";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
 
 const Navbar = () => {
   const location = useLocation();
   const navigate = useNavigate();
-  const { user, signOut, loading } = useAuth();
+  const { user, signOut, loading, isStaff } = useAuth();
+  const { unreadCount } = useNotifications();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
   const navLinks = [
@@ -66,6 +71,23 @@ const Navbar = () => {
               <div className="text-sm text-muted-foreground">Loading...</div>
             ) : user ? (
               <>
+                {!IS_LOCAL_BACKEND && <NotificationBell />}
+                {isStaff && (
+                  <Link to="/admin">
+                    <Button variant={location.pathname === "/admin" ? "default" : "ghost"} size="sm" className="gap-2">
+                      <ShieldCheck className="h-4 w-4" />
+                      Admin
+                    </Button>
+                  </Link>
+                )}
+                {!IS_LOCAL_BACKEND && (
+                  <Link to="/messages">
+                    <Button variant={location.pathname.startsWith("/messages") ? "default" : "ghost"} size="sm" className="gap-2">
+                      <MessageSquare className="h-4 w-4" />
+                      Messages
+                    </Button>
+                  </Link>
+                )}
                 <Link to="/profile">
                   <Button variant="ghost" size="sm" className="gap-2">
                     <User className="h-4 w-4" />
@@ -79,7 +101,7 @@ const Navbar = () => {
               </>
             ) : (
               <>
-                <Link to="/login">
+                <Link to={loginPath(`${location.pathname}${location.search}`)}>
                   <Button variant="ghost" size="sm">Sign In</Button>
                 </Link>
                 <Link to="/signup">
@@ -118,6 +140,36 @@ const Navbar = () => {
               <div className="h-px bg-border my-2" />
               {user ? (
                 <>
+                  {/* Notifications and messaging run on the hosted backend only */}
+                  {!IS_LOCAL_BACKEND && (
+                    <>
+                      <Link to="/notifications" onClick={() => setMobileMenuOpen(false)}>
+                        <Button variant="ghost" className="w-full justify-start gap-2">
+                          <Bell className="h-4 w-4" />
+                          Notifications
+                          {unreadCount > 0 && (
+                            <span className="ml-auto rounded-full bg-destructive px-2 text-xs text-destructive-foreground">
+                              {unreadCount}
+                            </span>
+                          )}
+                        </Button>
+                      </Link>
+                      <Link to="/messages" onClick={() => setMobileMenuOpen(false)}>
+                        <Button variant="ghost" className="w-full justify-start gap-2">
+                          <MessageSquare className="h-4 w-4" />
+                          Messages
+                        </Button>
+                      </Link>
+                    </>
+                  )}
+                  {isStaff && (
+                    <Link to="/admin" onClick={() => setMobileMenuOpen(false)}>
+                      <Button variant="ghost" className="w-full justify-start gap-2">
+                        <ShieldCheck className="h-4 w-4" />
+                        Admin
+                      </Button>
+                    </Link>
+                  )}
                   <Link to="/profile" onClick={() => setMobileMenuOpen(false)}>
                     <Button variant="ghost" className="w-full justify-start gap-2">
                       <User className="h-4 w-4" />
@@ -131,7 +183,7 @@ const Navbar = () => {
                 </>
               ) : (
                 <>
-                  <Link to="/login" onClick={() => setMobileMenuOpen(false)}>
+                  <Link to={loginPath(`${location.pathname}${location.search}`)} onClick={() => setMobileMenuOpen(false)}>
                     <Button variant="ghost" className="w-full">Sign In</Button>
                   </Link>
                   <Link to="/signup" onClick={() => setMobileMenuOpen(false)}>
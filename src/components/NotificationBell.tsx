@@ -0,0 +1,91 @@
+import { Link, useNavigate } from "react-router-dom";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useNotifications, type Notification } from "@/hooks/useNotifications";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+const DROPDOWN_LIMIT = 8;
+
+const NotificationBell = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+
+  const handleSelect = (notification: Notification) => {
+    markRead(notification.id);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute top-1 right-1 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <button className="text-xs text-primary hover:underline px-2" onClick={markAllRead}>
+              Mark all as read
+            </button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up</div>
+        ) : (
+          notifications.slice(0, DROPDOWN_LIMIT).map((notification) => (
+            <DropdownMenuItem
+              key={notification.id}
+              className="flex flex-col items-start gap-0.5 cursor-pointer"
+              onSelect={() => handleSelect(notification)}
+            >
+              <div className="flex w-full items-center gap-2">
+                <span className={cn("text-sm flex-1 line-clamp-1", !notification.read_at && "font-semibold")}>
+                  {notification.title}
+                </span>
+                {!notification.read_at && <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+              </div>
+              {notification.body && (
+                <span className="text-xs text-muted-foreground line-clamp-2">{notification.body}</span>
+              )}
+              <span className="text-[10px] text-muted-foreground">
+                {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+              </span>
+            </DropdownMenuItem>
+          ))
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link to="/notifications" className="justify-center text-sm text-primary cursor-pointer">
+            View all notifications
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default NotificationBell;
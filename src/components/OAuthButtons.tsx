@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { OAUTH_PROVIDERS } from "@/lib/authProviders";
+import type { Provider } from "@supabase/supabase-js";
+
+interface OAuthButtonsProps {
+  // Where the provider sends the user back to once they've approved access
+  redirectTo: string;
+}
+
+// One button per provider listed in VITE_AUTH_OAUTH_PROVIDERS; renders nothing when none are configured
+const OAuthButtons = ({ redirectTo }: OAuthButtonsProps) => {
+  const { signInWithProvider } = useAuth();
+  const [pending, setPending] = useState<Provider | null>(null);
+
+  if (OAUTH_PROVIDERS.length === 0) return null;
+
+  const handleClick = async (provider: Provider, label: string) => {
+    setPending(provider);
+    const { error } = await signInWithProvider(provider, redirectTo);
+
+    // On success the browser is already leaving for the provider
+    if (error) {
+      toast.error(`Couldn't continue with ${label}. Please try again.`);
+      console.error("OAuth sign-in error:", error);
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center gap-3 text-xs uppercase text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        or continue with
+        <span className="h-px flex-1 bg-border" />
+      </div>
+      {OAUTH_PROVIDERS.map(({ id, label }) => (
+        <Button
+          key={id}
+          type="button"
+          variant="outline"
+          size="lg"
+          className="w-full"
+          disabled={pending !== null}
+          onClick={() => handleClick(id, label)}
+        >
+          {pending === id ? "Redirecting..." : `Continue with ${label}`}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+export default OAuthButtons;
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { loginPath } from "@/lib/authRedirect";
+
+interface OfferHelpDialogProps {
+  request: { id: string; title: string; user_id: string } | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOffered?: () => void;
+}
+
+const OfferHelpDialog = ({ request, open, onOpenChange, onOffered }: OfferHelpDialogProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const [message, setMessage] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setMessage("");
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!request) return;
+
+    if (!user) {
+      toast.error("Please sign in to offer help");
+      navigate(loginPath(`${location.pathname}${location.search}`));
+      return;
+    }
+
+    if (request.user_id === user.id) {
+      toast.error("You can't offer help on your own request");
+      return;
+    }
+
+    if (!message.trim()) {
+      toast.error("Please tell the requester how you can help");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("help_offers").insert({
+        request_id: request.id,
+        offerer_id: user.id,
+        message: message.trim(),
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error("You have already offered to help with this request");
+        } else if (error.code === "23503") {
+          toast.error("User profile not found. Please try logging out and back in.");
+        } else if (error.code === "42501") {
+          toast.error("Permission denied. Please ensure you're logged in.");
+        } else {
+          toast.error("Failed to send your offer. Please try again.");
+        }
+        console.error("Help offer error:", error);
+      } else {
+        toast.success(`Thank you for offering to help with "${request.title}"! The requester can now review your offer.`);
+        handleOpenChange(false);
+        onOffered?.();
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred. Please try again.");
+      console.error("Unexpected error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Offer to Help</DialogTitle>
+            <DialogDescription>
+              {request ? `Let the requester know how you can help with "${request.title}".` : null}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="offer-message">Message</Label>
+            <Textarea
+              id="offer-message"
+              placeholder="e.g., I have these books and can drop them off this weekend."
+              className="min-h-[120px] resize-none"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              maxLength={500}
+              required
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="hero" disabled={loading}>
+              {loading ? "Sending..." : "Send Offer"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OfferHelpDialog;
@@ -0,0 +1,176 @@
+import { useState } from "react";
+import { Mail, Phone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { toast } from "sonner";
+import { useAuth, type OtpRecipient } from "@/hooks/useAuth";
+import { OTP_LENGTH, SMS_OTP_ENABLED } from "@/lib/authProviders";
+import { isValidPhone, normalizePhone } from "@/lib/validation";
+
+interface OtpSignInFormProps {
+  // Where the magic link in the email lands
+  redirectTo: string;
+  onCancel: () => void;
+}
+
+const OtpSignInForm = ({ redirectTo, onCancel }: OtpSignInFormProps) => {
+  const { sendOtp, verifyOtp } = useAuth();
+  const [channel, setChannel] = useState<"email" | "phone">("email");
+  const [value, setValue] = useState("");
+  const [recipient, setRecipient] = useState<OtpRecipient | null>(null);
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+
+    let next: OtpRecipient;
+    if (channel === "email") {
+      if (!value.trim()) {
+        toast.error("Please enter your email address");
+        return;
+      }
+      next = { email: value.trim() };
+    } else {
+      if (!isValidPhone(value)) {
+        toast.error("Please enter a valid phone number, including the country code");
+        return;
+      }
+      next = { phone: normalizePhone(value) };
+    }
+
+    setLoading(true);
+    const { error } = await sendOtp(next, redirectTo);
+    setLoading(false);
+
+    if (error) {
+      if (error.message.includes("Signups not allowed")) {
+        toast.error(`No account found for that ${channel === "email" ? "email address" : "phone number"}`);
+      } else {
+        toast.error(error.message);
+      }
+      console.error("Send sign-in code error:", error);
+      return;
+    }
+
+    setRecipient(next);
+    setCode("");
+    toast.success(channel === "email" ? "Check your email for a sign-in link and code" : "We've texted you a sign-in code");
+  };
+
+  const handleVerify = async (token: string) => {
+    if (!recipient || token.length !== OTP_LENGTH) return;
+
+    setLoading(true);
+    const { error } = await verifyOtp(recipient, token);
+    setLoading(false);
+
+    if (error) {
+      toast.error(error.message.includes("expired") ? "That code has expired. Please request a new one." : "Invalid code. Please try again.");
+      console.error("Verify sign-in code error:", error);
+      setCode("");
+    } else {
+      toast.success("Welcome back!");
+    }
+  };
+
+  if (recipient) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-muted-foreground text-center">
+          Enter the {OTP_LENGTH}-digit code we sent to{" "}
+          <span className="font-medium text-foreground">{"email" in recipient ? recipient.email : recipient.phone}</span>
+          {"email" in recipient && ", or open the link in the email on this device"}.
+        </p>
+
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={OTP_LENGTH}
+            value={code}
+            onChange={setCode}
+            onComplete={handleVerify}
+            disabled={loading}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {Array.from({ length: OTP_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+
+        <Button
+          type="button"
+          variant="hero"
+          className="w-full"
+          size="lg"
+          disabled={loading || code.length !== OTP_LENGTH}
+          onClick={() => handleVerify(code)}
+        >
+          {loading ? "Verifying..." : "Verify Code"}
+        </Button>
+
+        <div className="flex justify-between text-sm">
+          <button type="button" className="text-primary hover:underline" onClick={() => setRecipient(null)}>
+            Use a different {channel === "email" ? "email" : "number"}
+          </button>
+          <button type="button" className="text-primary hover:underline" disabled={loading} onClick={() => handleSend()}>
+            Resend code
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const Icon = channel === "email" ? Mail : Phone;
+
+  return (
+    <form onSubmit={handleSend} className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label htmlFor="otp-recipient">{channel === "email" ? "Email Address" : "Phone Number"}</Label>
+          {SMS_OTP_ENABLED && (
+            <button
+              type="button"
+              className="text-sm text-primary hover:underline"
+              onClick={() => {
+                setChannel(channel === "email" ? "phone" : "email");
+                setValue("");
+              }}
+            >
+              Use {channel === "email" ? "phone" : "email"} instead
+            </button>
+          )}
+        </div>
+        <div className="relative">
+          <Icon className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+          <Input
+            id="otp-recipient"
+            type={channel === "email" ? "email" : "tel"}
+            placeholder={channel === "email" ? "user@example.com" : "+91 9876543210"}
+            className="pl-10 h-12"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            required
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          No password needed. We'll send you a one-time code to sign in.
+        </p>
+      </div>
+
+      <Button type="submit" variant="hero" className="w-full" size="lg" disabled={loading}>
+        {loading ? "Sending..." : "Send Sign-in Code"}
+      </Button>
+
+      <button type="button" className="block w-full text-center text-sm text-primary hover:underline" onClick={onCancel}>
+        Sign in with a password instead
+      </button>
+    </form>
+  );
+};
+
+export default OtpSignInForm;
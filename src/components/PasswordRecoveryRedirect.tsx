@@ -0,0 +1,21 @@
+import { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+
+// Reset links can land on any page depending on the project's Site URL,
+// so send recovering users to the reset form wherever they arrive
+const PasswordRecoveryRedirect = () => {
+  const { passwordRecovery } = useAuth();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    if (passwordRecovery && location.pathname !== "/reset-password") {
+      navigate("/reset-password", { replace: true });
+    }
+  }, [passwordRecovery, location.pathname, navigate]);
+
+  return null;
+};
+
+export default PasswordRecoveryRedirect;
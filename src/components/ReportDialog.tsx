@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { loginPath } from "@/lib/authRedirect";
+import { REPORT_REASONS, REPORT_REASON_META, type ReportReason } from "@/lib/reportReasons";
+
+export interface ReportTarget {
+  type: "donation" | "help_request";
+  id: string;
+  title: string;
+  user_id: string;
+}
+
+interface ReportDialogProps {
+  target: ReportTarget | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ReportDialog = ({ target, open, onOpenChange }: ReportDialogProps) => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user } = useAuth();
+  const [reason, setReason] = useState<ReportReason | "">("");
+  const [details, setDetails] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setReason("");
+      setDetails("");
+    }
+    onOpenChange(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!target) return;
+
+    if (!user) {
+      toast.error("Please sign in to report a post");
+      navigate(loginPath(`${location.pathname}${location.search}`));
+      return;
+    }
+
+    if (target.user_id === user.id) {
+      toast.error("You can't report your own post");
+      return;
+    }
+
+    if (!reason) {
+      toast.error("Please choose a reason");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("reports").insert({
+        reporter_id: user.id,
+        donation_id: target.type === "donation" ? target.id : null,
+        help_request_id: target.type === "help_request" ? target.id : null,
+        reason,
+        details: details.trim() || null,
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          toast.error("You have already reported this post");
+        } else if (error.code === "23503") {
+          toast.error("User profile not found. Please try logging out and back in.");
+        } else if (error.code === "42501") {
+          toast.error("Permission denied. Please ensure you're logged in.");
+        } else {
+          toast.error("Failed to send your report. Please try again.");
+        }
+        console.error("Report error:", error);
+      } else {
+        toast.success("Thanks for letting us know. Our moderators will review this post.");
+        handleOpenChange(false);
+      }
+    } catch (err) {
+      toast.error("An unexpected error occurred. Please try again.");
+      console.error("Unexpected error:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <DialogHeader>
+            <DialogTitle>Report Post</DialogTitle>
+            <DialogDescription>
+              {target ? `Tell our moderators what's wrong with "${target.title}".` : null}
+            </DialogDescription>
+          </DialogHeader>
+
+          <RadioGroup value={reason} onValueChange={(value) => setReason(value as ReportReason)}>
+            {REPORT_REASONS.map((value) => (
+              <Label
+                key={value}
+                htmlFor={`report-${value}`}
+                className="flex items-start gap-3 rounded-lg border border-border p-3 cursor-pointer hover:bg-secondary/50"
+              >
+                <RadioGroupItem id={`report-${value}`} value={value} className="mt-0.5" />
+                <span className="space-y-1">
+                  <span className="block font-medium">{REPORT_REASON_META[value].label}</span>
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {REPORT_REASON_META[value].description}
+                  </span>
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+
+          <div className="space-y-2">
+            <Label htmlFor="report-details">Details (Optional)</Label>
+            <Textarea
+              id="report-details"
+              placeholder="Anything that helps moderators understand the problem"
+              className="resize-none"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              maxLength={500}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => handleOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={loading}>
+              {loading ? "Sending..." : "Send Report"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReportDialog;
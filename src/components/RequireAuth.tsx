@@ -0,0 +1,31 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import Layout from "@/components/Layout";
+import { useAuth } from "@/hooks/useAuth";
+import { loginPath } from "@/lib/authRedirect";
+
+// Route element for pages that need a signed-in user. Visitors are sent to the
+// login page, which brings them back here afterwards.
+const RequireAuth = () => {
+  const location = useLocation();
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to={loginPath(`${location.pathname}${location.search}${location.hash}`)} replace />;
+  }
+
+  return <Outlet />;
+};
+
+export default RequireAuth;
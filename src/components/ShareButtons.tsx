@@ -0,0 +1,40 @@
+import { Link2, MessageCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { toast } from "sonner";
+
+interface ShareButtonsProps {
+  title: string;
+  path: string;
+}
+
+const ShareButtons = ({ title, path }: ShareButtonsProps) => {
+  const url = `${window.location.origin}${path}`;
+  const whatsappUrl = `https://wa.me/?text=${encodeURIComponent(`${title} - ${url}`)}`;
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied to clipboard");
+    } catch (err) {
+      toast.error("Couldn't copy the link. Please copy it from the address bar.");
+      console.error("Clipboard error:", err);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <Button variant="outline" size="sm" onClick={handleCopy}>
+        <Link2 className="h-4 w-4" />
+        Copy Link
+      </Button>
+      <a href={whatsappUrl} target="_blank" rel="noopener noreferrer">
+        <Button variant="outline" size="sm">
+          <MessageCircle className="h-4 w-4" />
+          Share on WhatsApp
+        </Button>
+      </a>
+    </div>
+  );
+};
+
+export default ShareButtons;
@@ -0,0 +1,34 @@
+import { format } from "date-fns";
+
+interface StatusHistoryEvent {
+  id: string;
+  label: string;
+  className: string;
+  createdAt: string;
+}
+
+interface StatusHistoryProps {
+  events: StatusHistoryEvent[];
+}
+
+const StatusHistory = ({ events }: StatusHistoryProps) => {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">No status changes recorded yet</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-4">
+      {events.map((event) => (
+        <li key={event.id} className="ml-4">
+          <span className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border-2 border-card ${event.className}`} />
+          <p className="text-sm font-medium text-foreground">{event.label}</p>
+          <time className="text-xs text-muted-foreground">
+            {format(new Date(event.createdAt), "d MMM yyyy, h:mm a")}
+          </time>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusHistory;
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { act, render, screen, waitFor } from "@testing-library/react";
+import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { fakeSession, fakeSupabase, ok } from "@/test/fakeSupabase";
+
+const AuthState = () => {
+  const { user, loading, passwordRecovery, roles, isAdmin, isStaff, rolesLoading } = useAuth();
+
+  return (
+    <dl>
+      <dd data-testid="loading">{String(loading)}</dd>
+      <dd data-testid="user">{user?.email ?? "none"}</dd>
+      <dd data-testid="recovery">{String(passwordRecovery)}</dd>
+      <dd data-testid="roles">{rolesLoading ? "loading" : roles.join(",") || "none"}</dd>
+      <dd data-testid="admin">{String(isAdmin)}</dd>
+      <dd data-testid="staff">{String(isStaff)}</dd>
+    </dl>
+  );
+};
+
+const renderAuth = () =>
+  render(
+    <AuthProvider>
+      <AuthState />
+    </AuthProvider>
+  );
+
+describe("AuthProvider", () => {
+  it("finishes loading signed out when there is no session", async () => {
+    renderAuth();
+
+    expect(screen.getByTestId("loading")).toHaveTextContent("true");
+    await waitFor(() => expect(screen.getByTestId("loading")).toHaveTextContent("false"));
+    expect(screen.getByTestId("user")).toHaveTextContent("none");
+    expect(screen.getByTestId("roles")).toHaveTextContent("none");
+  });
+
+  it("restores an existing session and loads the user's roles", async () => {
+    fakeSupabase.setSession(fakeSession("admin-1", "admin@example.com"));
+    fakeSupabase.respond("user_roles", ok([{ role: "admin" }]));
+
+    renderAuth();
+
+    await waitFor(() => expect(screen.getByTestId("user")).toHaveTextContent("admin@example.com"));
+    await waitFor(() => expect(screen.getByTestId("roles")).toHaveTextContent("admin"));
+    expect(screen.getByTestId("admin")).toHaveTextContent("true");
+    expect(screen.getByTestId("staff")).toHaveTextContent("true");
+  });
+
+  it("treats moderators as staff but not admins", async () => {
+    fakeSupabase.setSession(fakeSession());
+    fakeSupabase.respond("user_roles", ok([{ role: "moderator" }]));
+
+    renderAuth();
+
+    await waitFor(() => expect(screen.getByTestId("roles")).toHaveTextContent("moderator"));
+    expect(screen.getByTestId("admin")).toHaveTextContent("false");
+    expect(screen.getByTestId("staff")).toHaveTextContent("true");
+  });
+
+  it("follows sign-in and sign-out events", async () => {
+    renderAuth();
+    await waitFor(() => expect(screen.getByTestId("loading")).toHaveTextContent("false"));
+
+    act(() => fakeSupabase.emitAuth("SIGNED_IN", fakeSession()));
+    expect(screen.getByTestId("user")).toHaveTextContent("member@example.com");
+
+    act(() => fakeSupabase.emitAuth("SIGNED_OUT", null));
+    expect(screen.getByTestId("user")).toHaveTextContent("none");
+    await waitFor(() => expect(screen.getByTestId("roles")).toHaveTextContent("none"));
+  });
+
+  it("flags a password recovery session", async () => {
+    renderAuth();
+    await waitFor(() => expect(screen.getByTestId("loading")).toHaveTextContent("false"));
+
+    act(() => fakeSupabase.emitAuth("PASSWORD_RECOVERY", fakeSession()));
+
+    expect(screen.getByTestId("recovery")).toHaveTextContent("true");
+  });
+
+  it("stops listening for auth events when unmounted", async () => {
+    const { unmount } = renderAuth();
+    await waitFor(() => expect(screen.getByTestId("loading")).toHaveTextContent("false"));
+
+    const { subscription } = fakeSupabase.client.auth.onAuthStateChange.mock.results[0].value.data;
+    unmount();
+
+    expect(subscription.unsubscribe).toHaveBeenCalled();
+  });
+});
@@ -1,14 +1,26 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from "react";
-import { User, Session } from "@supabase/supabase-js";
-import { supabase } from "@/integrations/supabase/client";
+import { User, Session, Provider } from "@supabase/supabase-js";
+import { getBackend, type AppRole, type OtpRecipient, type SignUpProfile } from "@/lib/api/backend";
+
+export type { AppRole, OtpRecipient, SignUpProfile };
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
-  signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
+  passwordRecovery: boolean;
+  roles: AppRole[];
+  rolesLoading: boolean;
+  isAdmin: boolean;
+  isStaff: boolean;
+  signUp: (email: string, password: string, profile: SignUpProfile) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
+  sendOtp: (recipient: OtpRecipient, redirectTo: string) => Promise<{ error: Error | null }>;
+  verifyOtp: (recipient: OtpRecipient, token: string) => Promise<{ error: Error | null }>;
+  signInWithProvider: (provider: Provider, redirectTo: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
+  resetPassword: (email: string) => Promise<{ error: Error | null }>;
+  updatePassword: (password: string) => Promise<{ error: Error | null }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -17,11 +29,20 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const [roles, setRoles] = useState<AppRole[]>([]);
+  const [rolesUserId, setRolesUserId] = useState<string | null>(null);
 
   useEffect(() => {
+    const auth = getBackend().auth;
+
     // Set up auth state listener FIRST
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+    const unsubscribe = auth.onAuthStateChange(
       (event, session) => {
+        // The user followed a reset link and is signed in only to choose a new password
+        if (event === "PASSWORD_RECOVERY") {
+          setPasswordRecovery(true);
+        }
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
@@ -29,45 +50,76 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     );
 
     // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    auth.getSession().then((session) => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
     });
 
-    return () => subscription.unsubscribe();
+    return unsubscribe;
   }, []);
 
-  const signUp = async (email: string, password: string, fullName: string) => {
-    const redirectUrl = `${window.location.origin}/`;
-    
-    const { error } = await supabase.auth.signUp({
-      email,
-      password,
-      options: {
-        emailRedirectTo: redirectUrl,
-        data: {
-          full_name: fullName,
-        },
-      },
-    });
-    return { error };
-  };
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setRoles([]);
+      setRolesUserId(null);
+      return;
+    }
+
+    let cancelled = false;
 
-  const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
-      email,
-      password,
+    getBackend().auth.fetchRoles(userId).then((userRoles) => {
+      if (cancelled) return;
+      setRoles(userRoles);
+      setRolesUserId(userId);
     });
-    return { error };
-  };
 
-  const signOut = async () => {
-    await supabase.auth.signOut();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  // True until the roles of the signed-in user have arrived
+  const rolesLoading = Boolean(userId) && rolesUserId !== userId;
+  const isAdmin = roles.includes("admin");
+  const isStaff = isAdmin || roles.includes("moderator");
+
+  const { signUp, signIn, sendOtp, verifyOtp, signInWithProvider, signOut } = getBackend().auth;
+
+  const resetPassword = (email: string) =>
+    getBackend().auth.resetPassword(email, `${window.location.origin}/reset-password`);
+
+  const updatePassword = async (password: string) => {
+    const { error } = await getBackend().auth.updatePassword(password);
+    if (!error) {
+      setPasswordRecovery(false);
+    }
+    return { error };
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        session,
+        loading,
+        passwordRecovery,
+        roles,
+        rolesLoading,
+        isAdmin,
+        isStaff,
+        signUp,
+        signIn,
+        sendOtp,
+        verifyOtp,
+        signInWithProvider,
+        signOut,
+        resetPassword,
+        updatePassword,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,51 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { createCategory, deleteCategory, fetchCategories, updateCategory } from "@/lib/api/categories";
+import { categoryKeys } from "@/lib/api/queryKeys";
+import { buildCategoryRegistry } from "@/lib/categories";
+
+const CATEGORIES_STALE_MS = 10 * 60 * 1000;
+
+const EMPTY_REGISTRY = buildCategoryRegistry([]);
+
+/**
+ * The category registry every card, filter and form renders from. While it
+ * loads, `find` misses and `label` falls back to the stored slug.
+ */
+export const useCategories = () => {
+  const query = useQuery({
+    queryKey: categoryKeys.all,
+    queryFn: fetchCategories,
+    select: buildCategoryRegistry,
+    staleTime: CATEGORIES_STALE_MS,
+  });
+
+  return { ...query, registry: query.data ?? EMPTY_REGISTRY };
+};
+
+export const useCreateCategory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: TablesInsert<"categories">) => createCategory(values),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: categoryKeys.all }),
+  });
+};
+
+export const useUpdateCategory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: TablesUpdate<"categories"> }) => updateCategory(id, values),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: categoryKeys.all }),
+  });
+};
+
+export const useDeleteCategory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCategory(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: categoryKeys.all }),
+  });
+};
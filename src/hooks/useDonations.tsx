@@ -0,0 +1,102 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { restoreQueries, updateCachedLists } from "@/lib/api/cache";
+import {
+  createDonation,
+  deleteDonation,
+  fetchDonation,
+  fetchDonationFeed,
+  fetchDonationHistory,
+  fetchDonationImages,
+  fetchDonationMapItems,
+  fetchUserDonations,
+  updateDonation,
+  type Donation,
+} from "@/lib/api/donations";
+import { donationKeys } from "@/lib/api/queryKeys";
+import type { FeedFilters } from "@/lib/api/types";
+
+export const useDonations = (filters: FeedFilters, page: number, enabled = true) =>
+  useQuery({
+    queryKey: donationKeys.feed(filters, page),
+    queryFn: () => fetchDonationFeed(filters, page),
+    enabled,
+  });
+
+export const useDonationMapItems = (filters: FeedFilters, enabled = true) =>
+  useQuery({
+    queryKey: donationKeys.map(filters),
+    queryFn: () => fetchDonationMapItems(filters),
+    enabled,
+  });
+
+export const useUserDonations = (userId: string | undefined) =>
+  useQuery({
+    queryKey: donationKeys.byUser(userId ?? ""),
+    queryFn: () => fetchUserDonations(userId!),
+    enabled: Boolean(userId),
+  });
+
+export const useDonation = (id: string | undefined) =>
+  useQuery({
+    queryKey: donationKeys.detail(id ?? ""),
+    queryFn: () => fetchDonation(id!),
+    enabled: Boolean(id),
+  });
+
+export const useDonationHistory = (id: string | undefined) =>
+  useQuery({
+    queryKey: donationKeys.history(id ?? ""),
+    queryFn: () => fetchDonationHistory(id!),
+    enabled: Boolean(id),
+  });
+
+export const useDonationImages = (id: string | undefined) =>
+  useQuery({
+    queryKey: donationKeys.images(id ?? ""),
+    queryFn: () => fetchDonationImages(id!),
+    enabled: Boolean(id),
+  });
+
+export const useCreateDonation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: TablesInsert<"donations">) => createDonation(values),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: donationKeys.all }),
+  });
+};
+
+export const useUpdateDonation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: TablesUpdate<"donations"> }) => updateDonation(id, values),
+    onMutate: async ({ id, values }) => {
+      await queryClient.cancelQueries({ queryKey: donationKeys.lists() });
+      return updateCachedLists<Donation>(queryClient, donationKeys.lists(), (rows) =>
+        rows.map((row) => (row.id === id ? { ...row, ...values } : row))
+      );
+    },
+    onError: (_err, _variables, snapshot) => snapshot && restoreQueries(queryClient, snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: donationKeys.all }),
+  });
+};
+
+// Drops the donation from every cached list straight away, so the public feed
+// is already up to date when the owner navigates back to it
+export const useDeleteDonation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDonation(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: donationKeys.lists() });
+      return updateCachedLists<Donation>(queryClient, donationKeys.lists(), (rows) =>
+        rows.filter((row) => row.id !== id)
+      );
+    },
+    onError: (_err, _id, snapshot) => snapshot && restoreQueries(queryClient, snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: donationKeys.all }),
+  });
+};
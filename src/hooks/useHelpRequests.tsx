@@ -0,0 +1,110 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { restoreQueries, updateCachedLists } from "@/lib/api/cache";
+import {
+  createHelpRequest,
+  deleteHelpRequest,
+  fetchHelpRequest,
+  fetchHelpRequestFeed,
+  fetchHelpRequestHistory,
+  fetchHelpRequestImages,
+  fetchHelpRequestMapItems,
+  fetchHelpRequestOfferCount,
+  fetchUserHelpRequests,
+  updateHelpRequest,
+  type HelpRequest,
+  type HelpRequestFeedFilters,
+} from "@/lib/api/helpRequests";
+import { helpRequestKeys } from "@/lib/api/queryKeys";
+
+export const useHelpRequests = (filters: HelpRequestFeedFilters, page: number, enabled = true) =>
+  useQuery({
+    queryKey: helpRequestKeys.feed(filters, page),
+    queryFn: () => fetchHelpRequestFeed(filters, page),
+    enabled,
+  });
+
+export const useHelpRequestMapItems = (filters: HelpRequestFeedFilters, enabled = true) =>
+  useQuery({
+    queryKey: helpRequestKeys.map(filters),
+    queryFn: () => fetchHelpRequestMapItems(filters),
+    enabled,
+  });
+
+export const useUserHelpRequests = (userId: string | undefined) =>
+  useQuery({
+    queryKey: helpRequestKeys.byUser(userId ?? ""),
+    queryFn: () => fetchUserHelpRequests(userId!),
+    enabled: Boolean(userId),
+  });
+
+export const useHelpRequest = (id: string | undefined) =>
+  useQuery({
+    queryKey: helpRequestKeys.detail(id ?? ""),
+    queryFn: () => fetchHelpRequest(id!),
+    enabled: Boolean(id),
+  });
+
+export const useHelpRequestHistory = (id: string | undefined) =>
+  useQuery({
+    queryKey: helpRequestKeys.history(id ?? ""),
+    queryFn: () => fetchHelpRequestHistory(id!),
+    enabled: Boolean(id),
+  });
+
+export const useHelpRequestImages = (id: string | undefined) =>
+  useQuery({
+    queryKey: helpRequestKeys.images(id ?? ""),
+    queryFn: () => fetchHelpRequestImages(id!),
+    enabled: Boolean(id),
+  });
+
+export const useHelpRequestOfferCount = (id: string | undefined) =>
+  useQuery({
+    queryKey: helpRequestKeys.offerCount(id ?? ""),
+    queryFn: () => fetchHelpRequestOfferCount(id!),
+    enabled: Boolean(id),
+  });
+
+export const useCreateHelpRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (values: TablesInsert<"help_requests">) => createHelpRequest(values),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: helpRequestKeys.all }),
+  });
+};
+
+export const useUpdateHelpRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, values }: { id: string; values: TablesUpdate<"help_requests"> }) => updateHelpRequest(id, values),
+    onMutate: async ({ id, values }) => {
+      await queryClient.cancelQueries({ queryKey: helpRequestKeys.lists() });
+      return updateCachedLists<HelpRequest>(queryClient, helpRequestKeys.lists(), (rows) =>
+        rows.map((row) => (row.id === id ? { ...row, ...values } : row))
+      );
+    },
+    onError: (_err, _variables, snapshot) => snapshot && restoreQueries(queryClient, snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: helpRequestKeys.all }),
+  });
+};
+
+// Drops the request from every cached list straight away, so the public feed
+// is already up to date when the owner navigates back to it
+export const useDeleteHelpRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteHelpRequest(id),
+    onMutate: async (id) => {
+      await queryClient.cancelQueries({ queryKey: helpRequestKeys.lists() });
+      return updateCachedLists<HelpRequest>(queryClient, helpRequestKeys.lists(), (rows) =>
+        rows.filter((row) => row.id !== id)
+      );
+    },
+    onError: (_err, _id, snapshot) => snapshot && restoreQueries(queryClient, snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: helpRequestKeys.all }),
+  });
+};
@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { fetchProfile } from "@/lib/api/profiles";
+import { getCurrentPosition, type Coordinates } from "@/lib/geocoding";
+
+/**
+ * Finds where the user is once `enabled` turns on, so the browser only asks
+ * for permission when a distance filter is actually used. Falls back to the
+ * location saved on the user's profile.
+ */
+export const useMyLocation = (enabled: boolean) => {
+  const { user } = useAuth();
+  // A token refresh hands out a new user object; only a different user should re-run the lookup
+  const userId = user?.id;
+  const [origin, setOrigin] = useState<Coordinates | null>(null);
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!enabled || origin) return;
+
+    let cancelled = false;
+
+    const locate = async () => {
+      setLocating(true);
+      setError(null);
+
+      try {
+        const coordinates = await getCurrentPosition();
+        if (!cancelled) setOrigin(coordinates);
+      } catch (err) {
+        console.error("Geolocation error:", err);
+
+        const data = userId ? await fetchProfile(userId).catch(() => null) : null;
+
+        if (cancelled) return;
+
+        if (data && data.latitude !== null && data.longitude !== null) {
+          setOrigin({ latitude: data.latitude, longitude: data.longitude });
+        } else {
+          setError("We couldn't find your location. Allow location access or add one in Account Settings.");
+        }
+      } finally {
+        if (!cancelled) setLocating(false);
+      }
+    };
+
+    locate();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, origin, userId]);
+
+  return { origin, locating, error };
+};
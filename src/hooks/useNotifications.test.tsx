@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { act, render, screen, waitFor } from "@testing-library/react";
+import { AuthProvider } from "@/hooks/useAuth";
+import { NotificationsProvider, useNotifications } from "@/hooks/useNotifications";
+import { fakeSession, fakeSupabase, hasStep, ok, type FakeQuery } from "@/test/fakeSupabase";
+
+const NotificationsState = () => {
+  const { notifications, unreadCount } = useNotifications();
+
+  return (
+    <dl>
+      <dd data-testid="listed">{notifications.length}</dd>
+      <dd data-testid="unread">{unreadCount}</dd>
+    </dl>
+  );
+};
+
+const renderNotifications = () =>
+  render(
+    <AuthProvider>
+      <NotificationsProvider>
+        <NotificationsState />
+      </NotificationsProvider>
+    </AuthProvider>
+  );
+
+const isCount = (query: FakeQuery) => hasStep(query, "select", "id", { count: "exact", head: true });
+
+describe("NotificationsProvider", () => {
+  it("counts unread notifications on the server, past the fetched page", async () => {
+    fakeSupabase.setSession(fakeSession());
+    fakeSupabase.respond("notifications", (query) =>
+      isCount(query) ? { count: 73 } : ok([{ id: "n-1", user_id: "user-1", read_at: null }])
+    );
+    renderNotifications();
+
+    await waitFor(() => expect(screen.getByTestId("unread")).toHaveTextContent("73"));
+    expect(screen.getByTestId("listed")).toHaveTextContent("1");
+    const [count] = fakeSupabase.queriesFor("notifications").filter(isCount);
+    expect(hasStep(count, "is", "read_at", null)).toBe(true);
+  });
+
+  it("doesn't refetch when the session is refreshed for the same user", async () => {
+    fakeSupabase.setSession(fakeSession());
+    fakeSupabase.respond("notifications", (query) => (isCount(query) ? { count: 0 } : ok([])));
+    renderNotifications();
+    await waitFor(() => expect(fakeSupabase.queriesFor("notifications")).toHaveLength(2));
+
+    act(() => fakeSupabase.emitAuth("TOKEN_REFRESHED", fakeSession()));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(fakeSupabase.queriesFor("notifications")).toHaveLength(2);
+    expect(fakeSupabase.client.channel).toHaveBeenCalledTimes(1);
+  });
+});
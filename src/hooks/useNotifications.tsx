@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { useAuth } from "@/hooks/useAuth";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+
+export type Notification = Tables<"notifications">;
+
+interface NotificationsContextType {
+  notifications: Notification[];
+  unreadCount: number;
+  loading: boolean;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+const NOTIFICATION_LIMIT = 50;
+
+const NotificationsContext = createContext<NotificationsContextType | undefined>(undefined);
+
+export const NotificationsProvider = ({ children }: { children: ReactNode }) => {
+  const { user } = useAuth();
+  // Token refreshes replace the user object; only a different account should refetch.
+  // The local backend has no notifications, so it never has a user to fetch for.
+  const userId = IS_LOCAL_BACKEND ? undefined : user?.id;
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  // Counted on the server, since older unread notifications fall outside the fetched list
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+
+  const fetchUnreadCount = useCallback(async () => {
+    if (!userId) return;
+
+    const { count, error } = await supabase
+      .from("notifications")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Unread notifications count error:", error);
+    } else {
+      setUnreadCount(count ?? 0);
+    }
+  }, [userId]);
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    setLoading(true);
+
+    const [{ data, error }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_LIMIT),
+      fetchUnreadCount(),
+    ]);
+
+    if (error) {
+      console.error("Notifications fetch error:", error);
+    } else {
+      setNotifications(data || []);
+    }
+
+    setLoading(false);
+  }, [userId, fetchUnreadCount]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const notification = payload.new as Notification;
+          setNotifications((current) =>
+            current.some((n) => n.id === notification.id)
+              ? current
+              : [notification, ...current].slice(0, NOTIFICATION_LIMIT)
+          );
+          fetchUnreadCount();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchUnreadCount]);
+
+  const markRead = async (id: string) => {
+    const readAt = new Date().toISOString();
+    if (notifications.some((n) => n.id === id && !n.read_at)) {
+      setUnreadCount((count) => Math.max(count - 1, 0));
+    }
+    setNotifications((current) => current.map((n) => (n.id === id && !n.read_at ? { ...n, read_at: readAt } : n)));
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("id", id)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Mark notification read error:", error);
+    }
+  };
+
+  const markAllRead = async () => {
+    if (!userId) return;
+
+    const readAt = new Date().toISOString();
+    setNotifications((current) => current.map((n) => (n.read_at ? n : { ...n, read_at: readAt })));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: readAt })
+      .eq("user_id", userId)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Mark all notifications read error:", error);
+    }
+  };
+
+  return (
+    <NotificationsContext.Provider value={{ notifications, unreadCount, loading, markRead, markAllRead, refresh }}>
+      {children}
+    </NotificationsContext.Provider>
+  );
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationsContext);
+  if (context === undefined) {
+    throw new Error("useNotifications must be used within a NotificationsProvider");
+  }
+  return context;
+};
@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+
+export type PlatformStats = Tables<"platform_stats">;
+
+const STATS_REFRESH_MS = 5 * 60 * 1000;
+
+export const usePlatformStats = () =>
+  useQuery({
+    queryKey: ["platform-stats"],
+    queryFn: async (): Promise<PlatformStats | null> => {
+      const { data, error } = await supabase.from("platform_stats").select("*").maybeSingle();
+
+      if (error) {
+        console.error("Platform stats fetch error:", error);
+        throw new Error("Failed to load platform statistics");
+      }
+
+      return data;
+    },
+    // The stats view lives in the hosted database; demo mode shows dashes
+    enabled: !IS_LOCAL_BACKEND,
+    staleTime: STATS_REFRESH_MS,
+    refetchInterval: STATS_REFRESH_MS,
+  });
@@ -0,0 +1,11 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchPublicProfile } from "@/lib/api/profiles";
+import { profileKeys } from "@/lib/api/queryKeys";
+
+// The member behind a post, as anyone can see them
+export const usePublicProfile = (id: string | undefined) =>
+  useQuery({
+    queryKey: profileKeys.public(id ?? ""),
+    queryFn: () => fetchPublicProfile(id!),
+    enabled: Boolean(id),
+  });
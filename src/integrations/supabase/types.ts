@@ -14,50 +14,472 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_suspensions: {
+        Row: {
+          created_at: string
+          reason: string | null
+          suspended_by: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          reason?: string | null
+          suspended_by?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          reason?: string | null
+          suspended_by?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "account_suspensions_suspended_by_fkey"
+            columns: ["suspended_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "account_suspensions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          fields: Json
+          icon: string
+          id: string
+          name: string
+          parent_id: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          fields?: Json
+          icon?: string
+          id?: string
+          name: string
+          parent_id?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          fields?: Json
+          icon?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_participants: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          last_read_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          donation_id: string | null
+          help_request_id: string | null
+          id: string
+          last_message_at: string | null
+          last_message_preview: string | null
+        }
+        Insert: {
+          created_at?: string
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+        }
+        Update: {
+          created_at?: string
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          last_message_at?: string | null
+          last_message_preview?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversations_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversations_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_claims: {
+        Row: {
+          claimant_id: string
+          created_at: string
+          donation_id: string
+          id: string
+          message: string | null
+          status: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at: string
+        }
+        Insert: {
+          claimant_id: string
+          created_at?: string
+          donation_id: string
+          id?: string
+          message?: string | null
+          status?: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at?: string
+        }
+        Update: {
+          claimant_id?: string
+          created_at?: string
+          donation_id?: string
+          id?: string
+          message?: string | null
+          status?: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_claims_claimant_id_fkey"
+            columns: ["claimant_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_claims_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          donation_id: string
+          id: string
+          status: Database["public"]["Enums"]["donation_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          donation_id: string
+          id?: string
+          status: Database["public"]["Enums"]["donation_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          donation_id?: string
+          id?: string
+          status?: Database["public"]["Enums"]["donation_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_status_events_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_suggestions: {
+        Row: {
+          created_at: string
+          donation_id: string
+          help_request_id: string
+          id: string
+          suggested_by: string
+        }
+        Insert: {
+          created_at?: string
+          donation_id: string
+          help_request_id: string
+          id?: string
+          suggested_by: string
+        }
+        Update: {
+          created_at?: string
+          donation_id?: string
+          help_request_id?: string
+          id?: string
+          suggested_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_suggestions_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_suggestions_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_suggestions_suggested_by_fkey"
+            columns: ["suggested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       donations: {
         Row: {
           category: string
+          city: string | null
           created_at: string
           description: string | null
+          details: Json
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
+          latitude: number | null
           location: string | null
-          status: string
+          longitude: number | null
+          region: string | null
+          status: Database["public"]["Enums"]["donation_status"]
+          subcategory: string | null
           title: string
           updated_at: string
           user_id: string
         }
         Insert: {
           category: string
+          city?: string | null
           created_at?: string
           description?: string | null
+          details?: Json
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          latitude?: number | null
           location?: string | null
-          status?: string
+          longitude?: number | null
+          region?: string | null
+          status?: Database["public"]["Enums"]["donation_status"]
+          subcategory?: string | null
           title: string
           updated_at?: string
           user_id: string
         }
         Update: {
           category?: string
+          city?: string | null
           created_at?: string
           description?: string | null
+          details?: Json
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          latitude?: number | null
           location?: string | null
-          status?: string
+          longitude?: number | null
+          region?: string | null
+          status?: Database["public"]["Enums"]["donation_status"]
+          subcategory?: string | null
           title?: string
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "donations_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "donations_subcategory_fkey"
+            columns: ["subcategory"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      help_offers: {
+        Row: {
+          created_at: string
+          id: string
+          message: string | null
+          offerer_id: string
+          request_id: string
+          status: Database["public"]["Enums"]["help_offer_status"]
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          offerer_id: string
+          request_id: string
+          status?: Database["public"]["Enums"]["help_offer_status"]
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string | null
+          offerer_id?: string
+          request_id?: string
+          status?: Database["public"]["Enums"]["help_offer_status"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_offers_offerer_id_fkey"
+            columns: ["offerer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_offers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      help_request_status_events: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          id: string
+          request_id: string
+          status: Database["public"]["Enums"]["help_request_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          request_id: string
+          status: Database["public"]["Enums"]["help_request_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          id?: string
+          request_id?: string
+          status?: Database["public"]["Enums"]["help_request_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_request_status_events_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "help_request_status_events_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       help_requests: {
         Row: {
           category: string
+          city: string | null
           created_at: string
           description: string | null
+          details: Json
+          hidden_at: string | null
+          hidden_by: string | null
           id: string
+          latitude: number | null
           location: string | null
-          status: string
+          longitude: number | null
+          region: string | null
+          status: Database["public"]["Enums"]["help_request_status"]
+          subcategory: string | null
           title: string
           updated_at: string
           urgency: string
@@ -65,11 +487,19 @@ export type Database = {
         }
         Insert: {
           category: string
+          city?: string | null
           created_at?: string
           description?: string | null
+          details?: Json
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          latitude?: number | null
           location?: string | null
-          status?: string
+          longitude?: number | null
+          region?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          subcategory?: string | null
           title: string
           updated_at?: string
           urgency?: string
@@ -77,57 +507,610 @@ export type Database = {
         }
         Update: {
           category?: string
+          city?: string | null
           created_at?: string
           description?: string | null
+          details?: Json
+          hidden_at?: string | null
+          hidden_by?: string | null
           id?: string
+          latitude?: number | null
           location?: string | null
-          status?: string
+          longitude?: number | null
+          region?: string | null
+          status?: Database["public"]["Enums"]["help_request_status"]
+          subcategory?: string | null
           title?: string
           updated_at?: string
           urgency?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "help_requests_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "help_requests_subcategory_fkey"
+            columns: ["subcategory"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      item_images: {
+        Row: {
+          created_at: string
+          donation_id: string | null
+          help_request_id: string | null
+          id: string
+          owner_id: string
+          position: number
+          storage_path: string
+        }
+        Insert: {
+          created_at?: string
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          owner_id: string
+          position?: number
+          storage_path: string
+        }
+        Update: {
+          created_at?: string
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          owner_id?: string
+          position?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "item_images_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_images_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "item_images_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          conversation_id: string
+          created_at: string
+          id: string
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      moderation_settings: {
+        Row: {
+          id: boolean
+          report_threshold: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          report_threshold?: number
+          updated_at?: string
+        }
+        Update: {
+          id?: boolean
+          report_threshold?: number
+          updated_at?: string
+        }
         Relationships: []
       }
-      profiles: {
+      notifications: {
         Row: {
+          body: string | null
           created_at: string
+          id: string
+          link: string | null
+          read_at: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title: string
+          type: Database["public"]["Enums"]["notification_type"]
+          user_id: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          id?: string
+          link?: string | null
+          read_at?: string | null
+          title?: string
+          type?: Database["public"]["Enums"]["notification_type"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_contacts: {
+        Row: {
           email: string | null
+          id: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          email?: string | null
+          id: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          email?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_contacts_id_fkey"
+            columns: ["id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          city: string | null
+          created_at: string
           full_name: string | null
           id: string
+          latitude: number | null
           location: string | null
-          phone: string | null
+          longitude: number | null
+          region: string | null
           updated_at: string
         }
         Insert: {
+          city?: string | null
           created_at?: string
-          email?: string | null
           full_name?: string | null
           id: string
+          latitude?: number | null
           location?: string | null
-          phone?: string | null
+          longitude?: number | null
+          region?: string | null
           updated_at?: string
         }
         Update: {
+          city?: string | null
           created_at?: string
-          email?: string | null
           full_name?: string | null
           id?: string
+          latitude?: number | null
           location?: string | null
-          phone?: string | null
+          longitude?: number | null
+          region?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      reports: {
+        Row: {
+          created_at: string
+          details: string | null
+          donation_id: string | null
+          help_request_id: string | null
+          id: string
+          reason: Database["public"]["Enums"]["report_reason"]
+          reporter_id: string
+          resolved_at: string | null
+          resolved_by: string | null
+        }
+        Insert: {
+          created_at?: string
+          details?: string | null
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          reason: Database["public"]["Enums"]["report_reason"]
+          reporter_id: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Update: {
+          created_at?: string
+          details?: string | null
+          donation_id?: string | null
+          help_request_id?: string | null
+          id?: string
+          reason?: Database["public"]["Enums"]["report_reason"]
+          reporter_id?: string
+          resolved_at?: string | null
+          resolved_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reports_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_help_request_id_fkey"
+            columns: ["help_request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_reporter_id_fkey"
+            columns: ["reporter_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reports_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_roles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      help_offer_counts: {
+        Row: {
+          offer_count: number | null
+          request_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "help_offers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "help_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      member_directory: {
+        Row: {
+          created_at: string | null
+          email: string | null
+          full_name: string | null
+          id: string | null
+          phone: string | null
+        }
+        Relationships: []
+      }
+      platform_stats: {
+        Row: {
+          active_members: number | null
+          donations_given: number | null
+          fulfillment_rate: number | null
+          requests_fulfilled: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      approve_donation_claim: {
+        Args: { claim_id: string }
+        Returns: {
+          claimant_id: string
+          created_at: string
+          donation_id: string
+          id: string
+          message: string | null
+          status: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at: string
+        }
+      }
+      complete_donation_claim: {
+        Args: { claim_id: string }
+        Returns: {
+          claimant_id: string
+          created_at: string
+          donation_id: string
+          id: string
+          message: string | null
+          status: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at: string
+        }
+      }
+      contains_search_stems: {
+        Args: { content: string; stems: string[] }
+        Returns: boolean
+      }
+      distance_km: {
+        Args: { lat1: number; lat2: number; lng1: number; lng2: number }
+        Returns: number
+      }
+      get_my_matches: {
+        Args: { max_results?: number; min_score?: number }
+        Returns: {
+          category: string
+          distance_km: number | null
+          donation_id: string
+          donation_title: string
+          donation_user_id: string
+          help_request_id: string
+          perspective: string
+          request_title: string
+          request_urgency: string
+          request_user_id: string
+          score: number
+          suggested: boolean
+        }[]
+      }
+      get_report_queue: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          details: string[]
+          donation_id: string | null
+          help_request_id: string | null
+          hidden_at: string | null
+          last_reported_at: string
+          owner_id: string
+          reasons: Database["public"]["Enums"]["report_reason"][]
+          report_count: number
+          title: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_conversation_participant: {
+        Args: { _conversation_id: string }
+        Returns: boolean
+      }
+      is_staff: { Args: { _user_id: string }; Returns: boolean }
+      is_suspended: { Args: { _user_id: string }; Returns: boolean }
+      mark_conversation_read: {
+        Args: { conversation_id: string }
+        Returns: undefined
+      }
+      match_score: {
+        Args: {
+          d: Database["public"]["Tables"]["donations"]["Row"]
+          r: Database["public"]["Tables"]["help_requests"]["Row"]
+        }
+        Returns: number
+      }
+      release_donation_claim: {
+        Args: { claim_id: string }
+        Returns: {
+          claimant_id: string
+          created_at: string
+          donation_id: string
+          id: string
+          message: string | null
+          status: Database["public"]["Enums"]["donation_claim_status"]
+          updated_at: string
+        }
+      }
+      search_document: {
+        Args: {
+          category: string
+          description: string
+          location: string
+          title: string
+        }
+        Returns: unknown
+      }
+      search_donations: {
+        Args: {
+          origin_lat?: number
+          origin_lng?: number
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          category: string
+          city: string | null
+          created_at: string
+          description: string | null
+          details: Json
+          hidden_at: string | null
+          hidden_by: string | null
+          id: string
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          region: string | null
+          status: Database["public"]["Enums"]["donation_status"]
+          subcategory: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "donations"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_help_requests: {
+        Args: {
+          origin_lat?: number
+          origin_lng?: number
+          radius_km?: number
+          search_query?: string
+        }
+        Returns: {
+          category: string
+          city: string | null
+          created_at: string
+          description: string | null
+          details: Json
+          hidden_at: string | null
+          hidden_by: string | null
+          id: string
+          latitude: number | null
+          location: string | null
+          longitude: number | null
+          region: string | null
+          status: Database["public"]["Enums"]["help_request_status"]
+          subcategory: string | null
+          title: string
+          updated_at: string
+          urgency: string
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "help_requests"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      search_text: {
+        Args: {
+          category: string
+          description: string
+          location: string
+          title: string
+        }
+        Returns: string
+      }
+      set_member_role: {
+        Args: {
+          member_id: string
+          new_role: Database["public"]["Enums"]["app_role"]
+        }
+        Returns: undefined
+      }
+      start_conversation: {
+        Args: {
+          donation_id?: string
+          help_request_id?: string
+          recipient_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "moderator" | "member"
+      donation_claim_status: "pending" | "approved" | "rejected" | "cancelled"
+      donation_status: "available" | "reserved" | "given"
+      help_offer_status: "pending" | "accepted" | "declined" | "withdrawn"
+      help_request_status: "open" | "in_progress" | "fulfilled" | "closed"
+      notification_type:
+        | "offer_received"
+        | "offer_updated"
+        | "claim_received"
+        | "claim_updated"
+        | "request_status_changed"
+        | "donation_status_changed"
+        | "message_received"
+        | "donation_suggested"
+      report_reason:
+        | "scam"
+        | "duplicate"
+        | "unsafe"
+        | "inappropriate"
+        | "spam"
+        | "other"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -254,6 +1237,30 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "moderator", "member"],
+      donation_claim_status: ["pending", "approved", "rejected", "cancelled"],
+      donation_status: ["available", "reserved", "given"],
+      help_offer_status: ["pending", "accepted", "declined", "withdrawn"],
+      help_request_status: ["open", "in_progress", "fulfilled", "closed"],
+      notification_type: [
+        "offer_received",
+        "offer_updated",
+        "claim_received",
+        "claim_updated",
+        "request_status_changed",
+        "donation_status_changed",
+        "message_received",
+        "donation_suggested",
+      ],
+      report_reason: [
+        "scam",
+        "duplicate",
+        "unsafe",
+        "inappropriate",
+        "spam",
+        "other",
+      ],
+    },
   },
 } as const
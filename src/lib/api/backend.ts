@@ -0,0 +1,127 @@
+import type { AuthChangeEvent, Provider, Session } from "@supabase/supabase-js";
+import type { Database, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { MapItem } from "@/components/ItemMap";
+import type { Category } from "@/lib/api/categories";
+import type { Donation, DonationFeedItem } from "@/lib/api/donations";
+import type { HelpRequest, HelpRequestFeedFilters, HelpRequestFeedItem } from "@/lib/api/helpRequests";
+import type { OwnProfile, ProfileUpdate, PublicProfile } from "@/lib/api/profiles";
+import type { FeedFilters, Page, StatusEvent } from "@/lib/api/types";
+import type { ItemImage } from "@/lib/itemImages";
+
+export type AppRole = Database["public"]["Enums"]["app_role"];
+
+// Passwordless codes go to either an email address or a phone number
+export type OtpRecipient = { email: string } | { phone: string };
+
+export interface SignUpProfile {
+  fullName: string;
+  phone?: string;
+  location?: string;
+}
+
+type AuthResult = Promise<{ error: Error | null }>;
+
+export interface AuthBackend {
+  getSession: () => Promise<Session | null>;
+  // Returns a function that stops listening
+  onAuthStateChange: (callback: (event: AuthChangeEvent, session: Session | null) => void) => () => void;
+  fetchRoles: (userId: string) => Promise<AppRole[]>;
+  signUp: (email: string, password: string, profile: SignUpProfile) => AuthResult;
+  signIn: (email: string, password: string) => AuthResult;
+  sendOtp: (recipient: OtpRecipient, redirectTo: string) => AuthResult;
+  verifyOtp: (recipient: OtpRecipient, token: string) => AuthResult;
+  signInWithProvider: (provider: Provider, redirectTo: string) => AuthResult;
+  signOut: () => Promise<void>;
+  resetPassword: (email: string, redirectTo: string) => AuthResult;
+  updatePassword: (password: string) => AuthResult;
+}
+
+// Reads and writes for one kind of post. Failures reject with an ApiError.
+export interface PostStore<
+  Row extends { status: string },
+  FeedItem,
+  Filters extends FeedFilters,
+  Table extends "donations" | "help_requests"
+> {
+  feed: (filters: Filters, page: number) => Promise<Page<FeedItem>>;
+  mapItems: (filters: Filters) => Promise<MapItem[]>;
+  listByUser: (userId: string) => Promise<Row[]>;
+  // Resolves to null when the post doesn't exist or isn't visible to the user
+  get: (id: string) => Promise<Row | null>;
+  // Every status the post has had, oldest first
+  history: (id: string) => Promise<StatusEvent<Row["status"]>[]>;
+  // The post's photos in display order
+  images: (id: string) => Promise<ItemImage[]>;
+  create: (values: TablesInsert<Table>) => Promise<{ id: string }>;
+  update: (id: string, values: TablesUpdate<Table>) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface ProfileStore {
+  // The full profile, for its owner's settings. The phone number is only returned to its owner.
+  get: (id: string) => Promise<OwnProfile | null>;
+  // Just the fields shown on other members' posts
+  getPublic: (id: string) => Promise<PublicProfile | null>;
+  // Display names for a set of users; anyone missing is left out
+  names: (userIds: string[]) => Promise<Map<string, string>>;
+  // Creates the profile if it doesn't exist yet
+  save: (id: string, values: ProfileUpdate) => Promise<void>;
+}
+
+// Admin-managed categories. Writes reject with 42501 for non-admins, 23503 when
+// posts still use the category and 23505 for a duplicate slug.
+export interface CategoryStore {
+  list: () => Promise<Category[]>;
+  create: (values: TablesInsert<"categories">) => Promise<Category>;
+  update: (id: string, values: TablesUpdate<"categories">) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+/**
+ * Everything the app needs from its backend for accounts and posts. The
+ * hosted Supabase project is the default; VITE_BACKEND=local swaps in a
+ * browser-only store with demo data for offline development and kiosks.
+ */
+export interface Backend {
+  auth: AuthBackend;
+  donations: PostStore<Donation, DonationFeedItem, FeedFilters, "donations">;
+  helpRequests: PostStore<HelpRequest, HelpRequestFeedItem, HelpRequestFeedFilters, "help_requests"> & {
+    // Offers that are still pending or accepted
+    offerCount: (id: string) => Promise<number>;
+  };
+  profiles: ProfileStore;
+  categories: CategoryStore;
+}
+
+export const IS_LOCAL_BACKEND = import.meta.env.VITE_BACKEND === "local";
+
+// Only the local backend runs without a project; anywhere else missing keys are a misconfigured build
+if (!IS_LOCAL_BACKEND && (!import.meta.env.VITE_SUPABASE_URL || !import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY)) {
+  throw new Error("VITE_SUPABASE_URL and VITE_SUPABASE_PUBLISHABLE_KEY must be set unless VITE_BACKEND=local");
+}
+
+let activeBackend: Backend | null = null;
+
+/**
+ * Loads the configured backend. Each one is its own chunk, so hosted builds
+ * never download the local backend and its demo data. main.tsx waits for
+ * this before rendering.
+ */
+export const loadBackend = async () => {
+  activeBackend ??= IS_LOCAL_BACKEND
+    ? (await import("@/lib/api/localBackend")).createLocalBackend()
+    : (await import("@/lib/api/supabaseBackend")).createSupabaseBackend();
+
+  return activeBackend;
+};
+
+export const getBackend = () => {
+  if (!activeBackend) {
+    throw new Error("getBackend() was called before loadBackend() finished");
+  }
+  return activeBackend;
+};
+
+export const setBackend = (backend: Backend) => {
+  activeBackend = backend;
+};
@@ -0,0 +1,31 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+import type { Page } from "@/lib/api/types";
+
+type CachedList<T> = T[] | Page<T>;
+
+/**
+ * Rewrites the rows of every cached list under `queryKey`, whether it holds a
+ * plain array or a feed page, and returns a snapshot for `restoreQueries`.
+ */
+export const updateCachedLists = <T extends { id: string }>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  update: (rows: T[]) => T[]
+) => {
+  const snapshot = queryClient.getQueriesData<CachedList<T>>({ queryKey });
+
+  queryClient.setQueriesData<CachedList<T>>({ queryKey }, (list) => {
+    if (!list) return list;
+    if (Array.isArray(list)) return update(list);
+
+    const items = update(list.items);
+    return { items, count: list.count - (list.items.length - items.length) };
+  });
+
+  return snapshot;
+};
+
+// Puts cached lists back the way they were before an optimistic update
+export const restoreQueries = (queryClient: QueryClient, snapshot: [QueryKey, unknown][]) => {
+  snapshot.forEach(([queryKey, data]) => queryClient.setQueryData(queryKey, data));
+};
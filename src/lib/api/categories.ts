@@ -0,0 +1,14 @@
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { getBackend } from "@/lib/api/backend";
+
+export type Category = Tables<"categories">;
+
+// Every category and subcategory, in display order
+export const fetchCategories = () => getBackend().categories.list();
+
+export const createCategory = (values: TablesInsert<"categories">) => getBackend().categories.create(values);
+
+export const updateCategory = (id: string, values: TablesUpdate<"categories">) =>
+  getBackend().categories.update(id, values);
+
+export const deleteCategory = (id: string) => getBackend().categories.remove(id);
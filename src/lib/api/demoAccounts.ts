@@ -0,0 +1,7 @@
+// Accounts available on a fresh local backend; both share DEMO_PASSWORD
+export const DEMO_MEMBER_EMAIL = "demo@helpconnect.local";
+export const DEMO_ADMIN_EMAIL = "admin@helpconnect.local";
+export const DEMO_PASSWORD = "helpconnect";
+
+// The local backend sends no email or SMS; this code always signs in
+export const DEMO_OTP_CODE = "123456";
@@ -0,0 +1,269 @@
+import type { Json } from "@/integrations/supabase/types";
+import type { LocalState } from "@/lib/api/localBackend";
+import type { Category } from "@/lib/api/categories";
+import type { Donation } from "@/lib/api/donations";
+import type { HelpRequest } from "@/lib/api/helpRequests";
+import type { Profile } from "@/lib/api/profiles";
+import { DEMO_ADMIN_EMAIL, DEMO_MEMBER_EMAIL, DEMO_PASSWORD } from "@/lib/api/demoAccounts";
+
+const PLACES = {
+  pune: { city: "Pune", region: "Maharashtra", latitude: 18.5204, longitude: 73.8567 },
+  mumbai: { city: "Mumbai", region: "Maharashtra", latitude: 19.076, longitude: 72.8777 },
+  bengaluru: { city: "Bengaluru", region: "Karnataka", latitude: 12.9716, longitude: 77.5946 },
+  delhi: { city: "Delhi", region: "Delhi", latitude: 28.7041, longitude: 77.1025 },
+};
+
+type PlaceKey = keyof typeof PLACES;
+
+const USERS = {
+  priya: "00000000-0000-4000-8000-000000000001",
+  rahul: "00000000-0000-4000-8000-000000000002",
+  ananya: "00000000-0000-4000-8000-000000000003",
+  arjun: "00000000-0000-4000-8000-000000000004",
+};
+
+type Author = keyof typeof USERS;
+
+// The same fields as the category fields migration
+const CATEGORY_FIELDS: Record<string, Json> = {
+  clothing: [
+    { key: "size", label: "Size", type: "select", options: ["XS", "S", "M", "L", "XL", "XXL", "Kids"] },
+    { key: "gender", label: "Gender", type: "select", options: ["Men", "Women", "Unisex", "Boys", "Girls"] },
+  ],
+  electronics: [
+    { key: "condition", label: "Condition", type: "select", options: ["New", "Like new", "Good", "Fair"] },
+    { key: "working", label: "Working status", type: "select", options: ["Working", "Needs repair", "For parts"] },
+  ],
+  education: [
+    {
+      key: "grade",
+      label: "Grade",
+      type: "select",
+      options: ["Class 1-5", "Class 6-8", "Class 9", "Class 10", "Class 11", "Class 12", "Undergraduate", "Postgraduate"],
+    },
+    { key: "exam", label: "Exam", type: "text", placeholder: "e.g., JEE, NEET, MCA CET" },
+    { key: "isbn", label: "ISBN", type: "text", placeholder: "e.g., 978-93-5xxx" },
+  ],
+  food: [
+    { key: "diet", label: "Veg / non-veg", type: "select", options: ["Veg", "Non-veg", "Vegan"] },
+    { key: "storage", label: "Storage", type: "select", options: ["Room temperature", "Refrigerated", "Frozen"] },
+    { key: "expiry", label: "Best before", type: "date" },
+  ],
+};
+
+const locationColumns = (key: PlaceKey) => {
+  const place = PLACES[key];
+  return { ...place, location: `${place.city}, ${place.region}` };
+};
+
+/**
+ * A small community spread across four cities, with timestamps relative to
+ * `now` so the feeds always look recent.
+ */
+export const createDemoState = (now = new Date()): LocalState => {
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+
+  const profile = (id: string, fullName: string, place: PlaceKey, age: number): Profile => ({
+    id,
+    full_name: fullName,
+    ...locationColumns(place),
+    created_at: hoursAgo(age),
+    updated_at: hoursAgo(age),
+  });
+
+  // The same starting set as the categories migration
+  const category = (n: number, slug: string, name: string, icon: string, color: string, sortOrder: number): Category => ({
+    id: `00000000-0000-4000-8003-${String(n).padStart(12, "0")}`,
+    slug,
+    name,
+    icon,
+    color,
+    parent_id: null,
+    sort_order: sortOrder,
+    fields: CATEGORY_FIELDS[slug] ?? [],
+    created_at: hoursAgo(3000),
+    updated_at: hoursAgo(3000),
+  });
+
+  const donation = (
+    n: number,
+    author: Author,
+    place: PlaceKey,
+    age: number,
+    fields: Pick<Donation, "title" | "description" | "category"> & Partial<Pick<Donation, "status" | "details">>
+  ): Donation => ({
+    id: `00000000-0000-4000-8001-${String(n).padStart(12, "0")}`,
+    user_id: USERS[author],
+    status: "available",
+    subcategory: null,
+    details: {},
+    ...fields,
+    ...locationColumns(place),
+    hidden_at: null,
+    hidden_by: null,
+    created_at: hoursAgo(age),
+    updated_at: hoursAgo(age),
+  });
+
+  const helpRequest = (
+    n: number,
+    author: Author,
+    place: PlaceKey,
+    age: number,
+    fields: Pick<HelpRequest, "title" | "description" | "category" | "urgency"> &
+      Partial<Pick<HelpRequest, "status" | "details">>
+  ): HelpRequest => ({
+    id: `00000000-0000-4000-8002-${String(n).padStart(12, "0")}`,
+    user_id: USERS[author],
+    status: "open",
+    subcategory: null,
+    details: {},
+    ...fields,
+    ...locationColumns(place),
+    hidden_at: null,
+    hidden_by: null,
+    created_at: hoursAgo(age),
+    updated_at: hoursAgo(age),
+  });
+
+  const state: Omit<LocalState, "donationStatusEvents" | "helpRequestStatusEvents"> = {
+    users: [
+      { id: USERS.priya, email: DEMO_MEMBER_EMAIL, phone: "+919876500001", password: DEMO_PASSWORD, created_at: hoursAgo(2000) },
+      { id: USERS.rahul, email: "rahul@helpconnect.local", phone: null, password: DEMO_PASSWORD, created_at: hoursAgo(1500) },
+      { id: USERS.ananya, email: "ananya@helpconnect.local", phone: null, password: DEMO_PASSWORD, created_at: hoursAgo(900) },
+      { id: USERS.arjun, email: DEMO_ADMIN_EMAIL, phone: null, password: DEMO_PASSWORD, created_at: hoursAgo(2500) },
+    ],
+    roles: { [USERS.arjun]: ["admin"] },
+    profiles: [
+      profile(USERS.priya, "Priya Sharma", "pune", 2000),
+      profile(USERS.rahul, "Rahul Verma", "mumbai", 1500),
+      profile(USERS.ananya, "Ananya Iyer", "bengaluru", 900),
+      profile(USERS.arjun, "Arjun Mehta", "delhi", 2500),
+    ],
+    phones: {
+      [USERS.priya]: "+919876500001",
+      [USERS.rahul]: "+919876500002",
+      [USERS.ananya]: "+919876500003",
+      [USERS.arjun]: "+919876500004",
+    },
+    donations: [
+      donation(1, "priya", "pune", 3, {
+        title: "Winter jackets for kids (sizes 6-10)",
+        description: "Eight warm jackets in good condition, washed and folded. Happy to drop them at a school or shelter nearby.",
+        category: "clothing",
+        details: { size: "Kids", gender: "Unisex" },
+      }),
+      donation(2, "rahul", "mumbai", 7, {
+        title: "Working laptop for a student",
+        description: "Four-year-old laptop with a fresh battery and charger. Fine for online classes and assignments.",
+        category: "electronics",
+        details: { condition: "Good", working: "Working" },
+      }),
+      donation(3, "ananya", "bengaluru", 20, {
+        title: "Class 10 textbooks and guides",
+        description: "Complete CBSE set for maths, science and social studies, plus two sample paper books.",
+        category: "education",
+        details: { grade: "Class 10", exam: "CBSE board" },
+      }),
+      donation(4, "arjun", "delhi", 26, {
+        title: "Rice and dal from a cancelled event",
+        description: "About 25 kg of sealed rice and 10 kg of dal. Best for a community kitchen that can collect this week.",
+        category: "food",
+        details: { diet: "Veg", storage: "Room temperature" },
+      }),
+      donation(5, "priya", "pune", 50, {
+        title: "Free weekend maths tutoring",
+        description: "I can tutor two students up to class 8 on Saturday mornings, in person or over video.",
+        category: "services",
+      }),
+      donation(6, "rahul", "mumbai", 75, {
+        title: "Single bed frame and mattress",
+        description: "Sturdy wooden frame and a mattress in clean condition. Needs to be picked up from the second floor.",
+        category: "other",
+        status: "reserved",
+      }),
+      donation(7, "ananya", "bengaluru", 120, {
+        title: "Smartphone with cracked back glass",
+        description: "Screen and battery are fine, only the back glass is cracked. Comes with a case and charger.",
+        category: "electronics",
+        details: { condition: "Fair", working: "Working" },
+      }),
+      donation(8, "arjun", "delhi", 300, {
+        title: "Sarees and kurtas",
+        description: "A bag of gently used sarees and kurtas, mostly medium sizes.",
+        category: "clothing",
+        details: { size: "M", gender: "Women" },
+        status: "given",
+      }),
+    ],
+    helpRequests: [
+      helpRequest(1, "ananya", "bengaluru", 2, {
+        title: "School shoes for two children",
+        description: "My children need school shoes (sizes 3 and 5) before the new term starts next week.",
+        category: "clothing",
+        details: { size: "Kids" },
+        urgency: "high",
+      }),
+      helpRequest(2, "rahul", "mumbai", 10, {
+        title: "Groceries for an elderly neighbour",
+        description: "Looking for someone to help with a month of basic groceries for a neighbour living alone.",
+        category: "food",
+        urgency: "high",
+      }),
+      helpRequest(3, "priya", "pune", 30, {
+        title: "Volunteer to teach basic computers",
+        description: "Our community centre needs a volunteer for two evenings a week to teach typing and email.",
+        category: "education",
+        urgency: "medium",
+        status: "in_progress",
+      }),
+      helpRequest(4, "arjun", "delhi", 60, {
+        title: "Blankets for a night shelter",
+        description: "The shelter on our street is short of about 30 blankets as the nights get colder.",
+        category: "other",
+        urgency: "medium",
+      }),
+      helpRequest(5, "ananya", "bengaluru", 140, {
+        title: "Help moving furniture on Sunday",
+        description: "Need two people for an hour to move a cupboard and a bed to the ground floor.",
+        category: "services",
+        urgency: "low",
+      }),
+      helpRequest(6, "rahul", "mumbai", 400, {
+        title: "Tablet for online classes",
+        description: "A Class 7 student needed a tablet for school. Thank you to everyone who offered!",
+        category: "electronics",
+        urgency: "medium",
+        status: "fulfilled",
+      }),
+    ],
+    categories: [
+      category(1, "clothing", "Clothing", "shirt", "blue", 10),
+      category(2, "electronics", "Electronics", "laptop", "purple", 20),
+      category(3, "education", "Education", "book-open", "green", 30),
+      category(4, "food", "Food", "utensils", "orange", 40),
+      category(5, "services", "Services", "wrench", "pink", 50),
+      category(6, "other", "Other", "package", "gray", 1000),
+    ],
+    sessionUserId: null,
+  };
+
+  // Each post starts with the status it was created in, like the migrations' backfill
+  return {
+    ...state,
+    donationStatusEvents: state.donations.map((d, index) => ({
+      id: `00000000-0000-4000-8004-${String(index + 1).padStart(12, "0")}`,
+      donation_id: d.id,
+      status: d.status,
+      changed_by: d.user_id,
+      created_at: d.created_at,
+    })),
+    helpRequestStatusEvents: state.helpRequests.map((r, index) => ({
+      id: `00000000-0000-4000-8005-${String(index + 1).padStart(12, "0")}`,
+      request_id: r.id,
+      status: r.status,
+      changed_by: r.user_id,
+      created_at: r.created_at,
+    })),
+  };
+};
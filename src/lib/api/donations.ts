@@ -0,0 +1,27 @@
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import { getBackend } from "@/lib/api/backend";
+import type { FeedFilters } from "@/lib/api/types";
+
+export type Donation = Tables<"donations">;
+
+export type DonationFeedItem = Donation & { userName: string; imageUrl?: string };
+
+// Available donations, one page at a time
+export const fetchDonationFeed = (filters: FeedFilters, page: number) => getBackend().donations.feed(filters, page);
+
+export const fetchDonationMapItems = (filters: FeedFilters) => getBackend().donations.mapItems(filters);
+
+export const fetchUserDonations = (userId: string) => getBackend().donations.listByUser(userId);
+
+export const fetchDonation = (id: string) => getBackend().donations.get(id);
+
+export const fetchDonationHistory = (id: string) => getBackend().donations.history(id);
+
+export const fetchDonationImages = (id: string) => getBackend().donations.images(id);
+
+export const createDonation = (values: TablesInsert<"donations">) => getBackend().donations.create(values);
+
+export const updateDonation = (id: string, values: TablesUpdate<"donations">) =>
+  getBackend().donations.update(id, values);
+
+export const deleteDonation = (id: string) => getBackend().donations.remove(id);
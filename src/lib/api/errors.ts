@@ -0,0 +1,23 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+// A failed request, carrying the Postgres error code (e.g. 42501, 23503) so
+// callers can pick a message without seeing the Supabase error itself
+export class ApiError extends Error {
+  code: string | undefined;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+  }
+}
+
+// Logs a failed Supabase request and wraps it for the caller to throw
+export const toApiError = (context: string, error: PostgrestError, message: string) => {
+  console.error(`${context}:`, error);
+  return new ApiError(message, error.code);
+};
+
+// Picks the message for an error's Postgres code, falling back for anything unexpected
+export const getErrorMessage = (err: unknown, messages: Partial<Record<string, string>>, fallback: string) =>
+  (err instanceof ApiError && err.code ? messages[err.code] : undefined) ?? fallback;
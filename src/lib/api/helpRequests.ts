@@ -0,0 +1,37 @@
+import type { Tables, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+import type { HelpRequestStatus } from "@/lib/helpRequestStatus";
+import { getBackend } from "@/lib/api/backend";
+import type { FeedFilters } from "@/lib/api/types";
+
+export type HelpRequest = Tables<"help_requests">;
+
+export type HelpRequestFeedItem = HelpRequest & { userName: string; offerCount: number; imageUrl?: string };
+
+export interface HelpRequestFeedFilters extends FeedFilters {
+  statuses: HelpRequestStatus[];
+  // null shows every urgency level
+  urgency: string | null;
+}
+
+// Help requests in the given statuses, one page at a time
+export const fetchHelpRequestFeed = (filters: HelpRequestFeedFilters, page: number) =>
+  getBackend().helpRequests.feed(filters, page);
+
+export const fetchHelpRequestMapItems = (filters: HelpRequestFeedFilters) => getBackend().helpRequests.mapItems(filters);
+
+export const fetchUserHelpRequests = (userId: string) => getBackend().helpRequests.listByUser(userId);
+
+export const fetchHelpRequest = (id: string) => getBackend().helpRequests.get(id);
+
+export const fetchHelpRequestHistory = (id: string) => getBackend().helpRequests.history(id);
+
+export const fetchHelpRequestImages = (id: string) => getBackend().helpRequests.images(id);
+
+export const fetchHelpRequestOfferCount = (id: string) => getBackend().helpRequests.offerCount(id);
+
+export const createHelpRequest = (values: TablesInsert<"help_requests">) => getBackend().helpRequests.create(values);
+
+export const updateHelpRequest = (id: string, values: TablesUpdate<"help_requests">) =>
+  getBackend().helpRequests.update(id, values);
+
+export const deleteHelpRequest = (id: string) => getBackend().helpRequests.remove(id);
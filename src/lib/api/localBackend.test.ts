@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from "vitest";
+import { DEMO_ADMIN_EMAIL, DEMO_MEMBER_EMAIL, DEMO_OTP_CODE, DEMO_PASSWORD } from "@/lib/api/demoAccounts";
+import { ApiError } from "@/lib/api/errors";
+import { createLocalBackend } from "@/lib/api/localBackend";
+import type { FeedFilters } from "@/lib/api/types";
+
+const filters = (overrides: Partial<FeedFilters> = {}): FeedFilters => ({
+  search: "",
+  location: "",
+  category: null,
+  subcategory: null,
+  details: {},
+  radiusKm: null,
+  origin: null,
+  ...overrides,
+});
+
+// A localStorage stand-in that outlives the backends created on it
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const signedIn = async (email = DEMO_MEMBER_EMAIL, storage = memoryStorage()) => {
+  const backend = createLocalBackend(storage);
+  await backend.auth.signIn(email, DEMO_PASSWORD);
+  const session = await backend.auth.getSession();
+  return { backend, storage, userId: session!.user.id };
+};
+
+describe("createLocalBackend", () => {
+  describe("auth", () => {
+    it("signs in the demo accounts by password or code", async () => {
+      const backend = createLocalBackend(null);
+
+      expect(await backend.auth.signIn(DEMO_MEMBER_EMAIL, "wrong")).toEqual({
+        error: new Error("Invalid login credentials"),
+      });
+      expect(await backend.auth.getSession()).toBeNull();
+
+      expect(await backend.auth.verifyOtp({ email: DEMO_ADMIN_EMAIL }, DEMO_OTP_CODE)).toEqual({ error: null });
+      const session = await backend.auth.getSession();
+      expect(session?.user.email).toBe(DEMO_ADMIN_EMAIL);
+      expect(await backend.auth.fetchRoles(session!.user.id)).toEqual(["admin"]);
+    });
+
+    it("signs up new members and tells listeners", async () => {
+      const backend = createLocalBackend(null);
+      const listener = vi.fn();
+      const stop = backend.auth.onAuthStateChange(listener);
+
+      await backend.auth.signUp("new@example.com", "secret123", { fullName: "Meera Nair", phone: "+919800000000" });
+
+      const session = await backend.auth.getSession();
+      expect(listener).toHaveBeenCalledWith("SIGNED_IN", expect.objectContaining({ user: session!.user }));
+      expect(session?.user.user_metadata.full_name).toBe("Meera Nair");
+      expect(await backend.profiles.get(session!.user.id)).toMatchObject({
+        full_name: "Meera Nair",
+        phone: "+919800000000",
+      });
+
+      stop();
+      await backend.auth.signOut();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(await backend.auth.signUp("NEW@example.com", "other", { fullName: "Someone" })).toEqual({
+        error: new Error("User already registered"),
+      });
+    });
+
+    it("only shows a phone number to its owner", async () => {
+      const { backend, userId } = await signedIn();
+      const admin = createLocalBackend(null);
+      await admin.auth.signIn(DEMO_ADMIN_EMAIL, DEMO_PASSWORD);
+
+      expect((await backend.profiles.get(userId))?.phone).toBe("+919876500001");
+      expect((await admin.profiles.get(userId))?.phone).toBeNull();
+    });
+  });
+
+  describe("posts", () => {
+    it("lists available donations newest first with their authors", async () => {
+      const backend = createLocalBackend(null);
+      const { items, count } = await backend.donations.feed(filters(), 1);
+
+      expect(items.every((d) => d.status === "available")).toBe(true);
+      expect(count).toBe(items.length);
+      expect(items.map((d) => d.created_at)).toEqual(items.map((d) => d.created_at).sort().reverse());
+      expect(items[0].userName).toBe("Priya Sharma");
+    });
+
+    it("filters the feed by search words and category", async () => {
+      const backend = createLocalBackend(null);
+
+      const { items } = await backend.donations.feed(filters({ search: "laptop student" }), 1);
+      expect(items.map((d) => d.title)).toEqual(["Working laptop for a student"]);
+
+      const electronics = await backend.donations.feed(filters({ category: "electronics" }), 1);
+      expect(electronics.items.every((d) => d.category === "electronics")).toBe(true);
+    });
+
+    it("creates, updates and deletes a donation for its author", async () => {
+      const { backend, userId } = await signedIn();
+
+      const { id } = await backend.donations.create({ user_id: userId, title: "Board games", category: "other" });
+      expect(await backend.donations.get(id)).toMatchObject({ title: "Board games", status: "available" });
+
+      await backend.donations.update(id, { status: "reserved" });
+      expect((await backend.donations.history(id)).map((e) => e.status)).toEqual(["available", "reserved"]);
+
+      await backend.donations.remove(id);
+      expect(await backend.donations.get(id)).toBeNull();
+      expect(await backend.donations.history(id)).toEqual([]);
+    });
+
+    it("rejects changes from anyone but the author or staff", async () => {
+      const { backend, userId: priya } = await signedIn();
+      const [priyas] = await backend.donations.listByUser(priya);
+      await backend.auth.signIn("rahul@helpconnect.local", DEMO_PASSWORD);
+
+      await expect(backend.donations.update(priyas.id, { title: "Mine now" })).rejects.toEqual(
+        new ApiError("Failed to update donation", "42501")
+      );
+      await expect(
+        backend.donations.create({ user_id: priya, title: "Spoofed", category: "other" })
+      ).rejects.toMatchObject({ code: "42501" });
+
+      // Staff can hide the post, after which only staff and the author see it
+      await backend.auth.signIn(DEMO_ADMIN_EMAIL, DEMO_PASSWORD);
+      await backend.donations.update(priyas.id, { hidden_at: new Date().toISOString() });
+      expect(await backend.donations.get(priyas.id)).not.toBeNull();
+
+      await backend.auth.signIn("rahul@helpconnect.local", DEMO_PASSWORD);
+      expect(await backend.donations.get(priyas.id)).toBeNull();
+    });
+  });
+
+  describe("categories", () => {
+    it("lets only admins add categories, with unique slugs", async () => {
+      const { backend: member } = await signedIn();
+      const values = { slug: "toys", name: "Toys" };
+
+      await expect(member.categories.create(values)).rejects.toMatchObject({ code: "42501" });
+
+      const { backend: admin } = await signedIn(DEMO_ADMIN_EMAIL);
+      expect(await admin.categories.create(values)).toMatchObject({ slug: "toys", fields: [] });
+      await expect(admin.categories.create(values)).rejects.toMatchObject({ code: "23505" });
+    });
+
+    it("keeps categories that posts still use", async () => {
+      const { backend } = await signedIn(DEMO_ADMIN_EMAIL);
+      const food = (await backend.categories.list()).find((c) => c.slug === "food")!;
+
+      await expect(backend.categories.remove(food.id)).rejects.toMatchObject({ code: "23503" });
+    });
+  });
+
+  describe("persistence", () => {
+    it("picks up the session and posts saved by an earlier load", async () => {
+      const { backend, storage, userId } = await signedIn();
+      const { id } = await backend.donations.create({ user_id: userId, title: "Board games", category: "other" });
+
+      const reloaded = createLocalBackend(storage);
+
+      expect((await reloaded.auth.getSession())?.user.id).toBe(userId);
+      expect(await reloaded.donations.get(id)).toMatchObject({ title: "Board games" });
+    });
+
+    it("starts over with the demo data when the saved data is unreadable", async () => {
+      const storage = memoryStorage();
+      storage.setItem("helpconnect-local-backend", "{not json");
+      vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const backend = createLocalBackend(storage);
+
+      expect(await backend.auth.getSession()).toBeNull();
+      expect((await backend.donations.feed(filters(), 1)).count).toBeGreaterThan(0);
+    });
+
+    it("keeps everything in memory without a storage", async () => {
+      const backend = createLocalBackend(null);
+      await backend.auth.signIn(DEMO_MEMBER_EMAIL, DEMO_PASSWORD);
+
+      expect(await createLocalBackend(null).auth.getSession()).toBeNull();
+    });
+  });
+});
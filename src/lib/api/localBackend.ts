@@ -0,0 +1,612 @@
+import type { AuthChangeEvent, Session, User } from "@supabase/supabase-js";
+import type { Tables } from "@/integrations/supabase/types";
+import type { MapItem } from "@/components/ItemMap";
+import { parsePostDetails, type PostDetails } from "@/lib/categoryFields";
+import { distanceKm } from "@/lib/geocoding";
+import { getPageRange, toSearchPattern } from "@/lib/feedFilters";
+import type { AppRole, Backend, OtpRecipient } from "@/lib/api/backend";
+import type { Category } from "@/lib/api/categories";
+import { DEMO_OTP_CODE } from "@/lib/api/demoAccounts";
+import { createDemoState } from "@/lib/api/demoData";
+import type { Donation } from "@/lib/api/donations";
+import { ApiError } from "@/lib/api/errors";
+import type { HelpRequest, HelpRequestFeedFilters } from "@/lib/api/helpRequests";
+import type { Profile } from "@/lib/api/profiles";
+import type { FeedFilters } from "@/lib/api/types";
+
+export interface LocalUser {
+  id: string;
+  email: string;
+  phone: string | null;
+  password: string;
+  created_at: string;
+}
+
+export interface LocalState {
+  users: LocalUser[];
+  roles: Record<string, AppRole[]>;
+  profiles: Profile[];
+  // Profile phone numbers by user id, only returned to their owner
+  phones: Record<string, string>;
+  donations: Donation[];
+  helpRequests: HelpRequest[];
+  donationStatusEvents: Tables<"donation_status_events">[];
+  helpRequestStatusEvents: Tables<"help_request_status_events">[];
+  categories: Category[];
+  sessionUserId: string | null;
+}
+
+type LocalStorage = Pick<Storage, "getItem" | "setItem">;
+
+const STORAGE_KEY = "helpconnect-local-backend";
+const SESSION_LIFETIME_S = 60 * 60 * 24 * 365;
+
+type Post = Donation | HelpRequest;
+
+// Roughly what the search RPCs match: every word somewhere in the post
+const matchesSearch = (post: Post, term: string) => {
+  const text = [post.title, post.description, post.category, post.location].join(" ").toLowerCase();
+  return term.toLowerCase().split(/\s+/).filter(Boolean).every((word) => text.includes(word));
+};
+
+// Every detail filter matches the post's answer exactly, like `details @> filters`
+const matchesDetails = (post: Post, details: PostDetails) => {
+  const answers = parsePostDetails(post.details);
+  return Object.entries(details).every(([key, value]) => answers[key] === value);
+};
+
+// Applies the shared feed filters; distance filters also sort nearest first
+const filterPosts = <T extends Post>(posts: T[], filters: FeedFilters) => {
+  const searchTerm = filters.search.trim();
+  const locationPattern = toSearchPattern(filters.location)?.slice(1, -1).toLowerCase();
+  const { origin, radiusKm } = filters;
+
+  const distance = (post: T) =>
+    origin && post.latitude !== null && post.longitude !== null
+      ? distanceKm(origin, { latitude: post.latitude, longitude: post.longitude })
+      : null;
+
+  const matches = posts
+    .filter((post) => post.hidden_at === null)
+    .filter((post) => !filters.category || post.category === filters.category)
+    .filter((post) => !filters.subcategory || post.subcategory === filters.subcategory)
+    .filter((post) => matchesDetails(post, filters.details))
+    .filter((post) => !locationPattern || (post.location ?? "").toLowerCase().includes(locationPattern))
+    .filter((post) => !searchTerm || matchesSearch(post, searchTerm))
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  if (!origin || radiusKm === null) return matches;
+
+  return matches
+    .filter((post) => {
+      const km = distance(post);
+      return km !== null && km <= radiusKm;
+    })
+    .sort((a, b) => distance(a)! - distance(b)!);
+};
+
+const toPage = <T>(rows: T[], page: number) => {
+  const [from, to] = getPageRange(page);
+  return { items: rows.slice(from, to + 1), count: rows.length };
+};
+
+const toMapItems = (posts: Post[], path: string): MapItem[] =>
+  posts
+    .filter((post) => post.latitude !== null && post.longitude !== null)
+    .map((post) => ({
+      id: post.id,
+      title: post.title,
+      category: post.category,
+      latitude: post.latitude!,
+      longitude: post.longitude!,
+      href: `${path}/${post.id}`,
+    }));
+
+const loadState = (storage: LocalStorage | null): LocalState => {
+  const saved = storage?.getItem(STORAGE_KEY);
+  if (!saved) return createDemoState();
+
+  try {
+    // Data saved before a collection existed picks up the demo defaults for it
+    return { ...createDemoState(), ...(JSON.parse(saved) as Partial<LocalState>) };
+  } catch (err) {
+    console.error("Local backend data is unreadable, starting over:", err);
+    return createDemoState();
+  }
+};
+
+/**
+ * Keeps accounts and posts in the browser, seeded with demo data, so the app
+ * runs with no network or Supabase project (VITE_BACKEND=local). Pass a null
+ * storage to keep everything in memory.
+ *
+ * Only the accounts, post and category features go through here; messaging,
+ * notifications, offers, claims, photos and moderation need the hosted backend,
+ * so the app hides them when IS_LOCAL_BACKEND is set.
+ */
+export const createLocalBackend = (
+  storage: LocalStorage | null = typeof localStorage === "undefined" ? null : localStorage
+): Backend => {
+  const state = loadState(storage);
+  const listeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>();
+
+  const persist = () => storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+
+  const findProfile = (id: string) => state.profiles.find((p) => p.id === id) ?? null;
+
+  const toSession = (user: LocalUser): Session => {
+    const authUser: User = {
+      id: user.id,
+      aud: "authenticated",
+      email: user.email,
+      phone: user.phone ?? undefined,
+      created_at: user.created_at,
+      app_metadata: { provider: "email", providers: ["email"] },
+      user_metadata: { full_name: findProfile(user.id)?.full_name ?? null },
+    };
+
+    return {
+      access_token: `local-${user.id}`,
+      refresh_token: `local-${user.id}`,
+      token_type: "bearer",
+      expires_in: SESSION_LIFETIME_S,
+      expires_at: Math.floor(Date.now() / 1000) + SESSION_LIFETIME_S,
+      user: authUser,
+    };
+  };
+
+  const currentUser = () => state.users.find((u) => u.id === state.sessionUserId) ?? null;
+
+  const currentSession = () => {
+    const user = currentUser();
+    return user ? toSession(user) : null;
+  };
+
+  const emit = (event: AuthChangeEvent) => {
+    const session = currentSession();
+    listeners.forEach((listener) => listener(event, session));
+  };
+
+  const startSession = (user: LocalUser) => {
+    state.sessionUserId = user.id;
+    persist();
+    emit("SIGNED_IN");
+  };
+
+  const findByRecipient = (recipient: OtpRecipient) =>
+    state.users.find((u) =>
+      "email" in recipient ? u.email.toLowerCase() === recipient.email.toLowerCase() : u.phone === recipient.phone
+    );
+
+  const isStaff = (userId: string) =>
+    (state.roles[userId] ?? []).some((role) => role === "admin" || role === "moderator");
+
+  // Hidden posts stay visible to their owner and to staff, as in the RLS policies
+  const canSee = (post: Post) => {
+    if (post.hidden_at === null) return true;
+    const userId = state.sessionUserId;
+    return userId !== null && (post.user_id === userId || isStaff(userId));
+  };
+
+  // Throws the same permission error code the database would
+  const requireEditor = (post: Post | undefined, message: string) => {
+    const userId = state.sessionUserId;
+    if (!post || !userId || (post.user_id !== userId && !isStaff(userId))) {
+      throw new ApiError(message, "42501");
+    }
+  };
+
+  const requireAdmin = (message: string) => {
+    const userId = state.sessionUserId;
+    if (!userId || !(state.roles[userId] ?? []).includes("admin")) {
+      throw new ApiError(message, "42501");
+    }
+  };
+
+  const requireAuthor = (userId: string, message: string) => {
+    if (!state.sessionUserId || state.sessionUserId !== userId) {
+      throw new ApiError(message, "42501");
+    }
+  };
+
+  const authorNames = (posts: Post[]) =>
+    new Map(posts.map((post) => [post.user_id, findProfile(post.user_id)?.full_name || "Anonymous"]));
+
+  const availableDonations = (filters: FeedFilters) =>
+    filterPosts(state.donations.filter((d) => d.status === "available"), filters);
+
+  const matchingRequests = (filters: HelpRequestFeedFilters) =>
+    filterPosts(
+      state.helpRequests.filter(
+        (r) => filters.statuses.includes(r.status) && (!filters.urgency || r.urgency === filters.urgency)
+      ),
+      filters
+    );
+
+  const posts = (): Post[] => [...state.donations, ...state.helpRequests];
+
+  // Mirrors the unique slug and one-level nesting rules on the categories table
+  const checkCategory = (category: Category, message: string) => {
+    if (state.categories.some((c) => c.slug === category.slug && c.id !== category.id)) {
+      throw new ApiError(message, "23505");
+    }
+
+    const parent = state.categories.find((c) => c.id === category.parent_id);
+    if (
+      category.parent_id !== null &&
+      (!parent || parent.parent_id !== null || state.categories.some((c) => c.parent_id === category.id))
+    ) {
+      throw new ApiError(message, "23514");
+    }
+  };
+
+  const newestFirst = <T extends Post>(posts: T[]) => [...posts].sort((a, b) => b.created_at.localeCompare(a.created_at));
+
+  const oldestFirst = <T extends { created_at: string }>(rows: T[]) =>
+    [...rows].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  // Recorded on create and on every status change, like the log_*_status triggers
+  const logDonationStatus = (donation: Donation) =>
+    state.donationStatusEvents.push({
+      id: crypto.randomUUID(),
+      donation_id: donation.id,
+      status: donation.status,
+      changed_by: state.sessionUserId,
+      created_at: new Date().toISOString(),
+    });
+
+  const logHelpRequestStatus = (request: HelpRequest) =>
+    state.helpRequestStatusEvents.push({
+      id: crypto.randomUUID(),
+      request_id: request.id,
+      status: request.status,
+      changed_by: state.sessionUserId,
+      created_at: new Date().toISOString(),
+    });
+
+  return {
+    auth: {
+      getSession: async () => currentSession(),
+
+      onAuthStateChange: (callback) => {
+        listeners.add(callback);
+        return () => {
+          listeners.delete(callback);
+        };
+      },
+
+      fetchRoles: async (userId) => state.roles[userId] ?? [],
+
+      signUp: async (email, password, profile) => {
+        if (state.users.some((u) => u.email.toLowerCase() === email.toLowerCase())) {
+          return { error: new Error("User already registered") };
+        }
+
+        const now = new Date().toISOString();
+        const user: LocalUser = { id: crypto.randomUUID(), email, phone: profile.phone || null, password, created_at: now };
+
+        state.users.push(user);
+        state.profiles.push({
+          id: user.id,
+          full_name: profile.fullName,
+          location: profile.location || null,
+          city: null,
+          region: null,
+          latitude: null,
+          longitude: null,
+          created_at: now,
+          updated_at: now,
+        });
+        if (profile.phone) state.phones[user.id] = profile.phone;
+        startSession(user);
+
+        return { error: null };
+      },
+
+      signIn: async (email, password) => {
+        const user = state.users.find((u) => u.email.toLowerCase() === email.toLowerCase() && u.password === password);
+        if (!user) return { error: new Error("Invalid login credentials") };
+
+        startSession(user);
+        return { error: null };
+      },
+
+      sendOtp: async (recipient) => {
+        if (!findByRecipient(recipient)) return { error: new Error("Signups not allowed for otp") };
+
+        console.info(`Local backend: no message is sent. Use the code ${DEMO_OTP_CODE} to sign in.`);
+        return { error: null };
+      },
+
+      verifyOtp: async (recipient, token) => {
+        const user = findByRecipient(recipient);
+        if (!user || token !== DEMO_OTP_CODE) return { error: new Error("Token has expired or is invalid") };
+
+        startSession(user);
+        return { error: null };
+      },
+
+      signInWithProvider: async (provider) => ({
+        error: new Error(`Signing in with ${provider} isn't available on the local backend`),
+      }),
+
+      signOut: async () => {
+        state.sessionUserId = null;
+        persist();
+        emit("SIGNED_OUT");
+      },
+
+      resetPassword: async (email) => {
+        console.info(`Local backend: no reset email is sent to ${email}. Sign in with the code ${DEMO_OTP_CODE} instead.`);
+        return { error: null };
+      },
+
+      updatePassword: async (password) => {
+        const user = currentUser();
+        if (!user) return { error: new Error("Auth session missing!") };
+        if (user.password === password) {
+          return { error: new Error("New password should be different from the old password.") };
+        }
+
+        user.password = password;
+        persist();
+        emit("USER_UPDATED");
+        return { error: null };
+      },
+    },
+
+    donations: {
+      feed: async (filters, page) => {
+        const { items, count } = toPage(availableDonations(filters), page);
+        const names = authorNames(items);
+
+        return { items: items.map((d) => ({ ...d, userName: names.get(d.user_id)! })), count };
+      },
+
+      mapItems: async (filters) => toMapItems(availableDonations(filters), "/donate"),
+
+      listByUser: async (userId) => newestFirst(state.donations.filter((d) => d.user_id === userId)),
+
+      get: async (id) => state.donations.find((d) => d.id === id && canSee(d)) ?? null,
+
+      history: async (id) => oldestFirst(state.donationStatusEvents.filter((e) => e.donation_id === id)),
+
+      // Photos are kept in the hosted storage bucket only
+      images: async () => [],
+
+      create: async (values) => {
+        requireAuthor(values.user_id, "Failed to submit donation");
+
+        const now = new Date().toISOString();
+        const donation: Donation = {
+          id: crypto.randomUUID(),
+          status: "available",
+          description: null,
+          subcategory: null,
+          details: {},
+          location: null,
+          city: null,
+          region: null,
+          latitude: null,
+          longitude: null,
+          hidden_at: null,
+          hidden_by: null,
+          created_at: now,
+          updated_at: now,
+          ...values,
+        };
+
+        state.donations.push(donation);
+        logDonationStatus(donation);
+        persist();
+        return { id: donation.id };
+      },
+
+      update: async (id, values) => {
+        const donation = state.donations.find((d) => d.id === id);
+        requireEditor(donation, "Failed to update donation");
+
+        const previousStatus = donation!.status;
+        Object.assign(donation!, values, { updated_at: new Date().toISOString() });
+        if (donation!.status !== previousStatus) logDonationStatus(donation!);
+        persist();
+      },
+
+      remove: async (id) => {
+        requireEditor(state.donations.find((d) => d.id === id), "Failed to delete donation");
+
+        state.donations = state.donations.filter((d) => d.id !== id);
+        state.donationStatusEvents = state.donationStatusEvents.filter((e) => e.donation_id !== id);
+        persist();
+      },
+    },
+
+    helpRequests: {
+      feed: async (filters, page) => {
+        const { items, count } = toPage(matchingRequests(filters), page);
+        const names = authorNames(items);
+
+        // Offers live on the hosted backend only
+        return { items: items.map((r) => ({ ...r, userName: names.get(r.user_id)!, offerCount: 0 })), count };
+      },
+
+      mapItems: async (filters) => toMapItems(matchingRequests(filters), "/request-help"),
+
+      listByUser: async (userId) => newestFirst(state.helpRequests.filter((r) => r.user_id === userId)),
+
+      get: async (id) => state.helpRequests.find((r) => r.id === id && canSee(r)) ?? null,
+
+      history: async (id) => oldestFirst(state.helpRequestStatusEvents.filter((e) => e.request_id === id)),
+
+      images: async () => [],
+
+      offerCount: async () => 0,
+
+      create: async (values) => {
+        requireAuthor(values.user_id, "Failed to submit help request");
+
+        const now = new Date().toISOString();
+        const request: HelpRequest = {
+          id: crypto.randomUUID(),
+          status: "open",
+          urgency: "medium",
+          description: null,
+          subcategory: null,
+          details: {},
+          location: null,
+          city: null,
+          region: null,
+          latitude: null,
+          longitude: null,
+          hidden_at: null,
+          hidden_by: null,
+          created_at: now,
+          updated_at: now,
+          ...values,
+        };
+
+        state.helpRequests.push(request);
+        logHelpRequestStatus(request);
+        persist();
+        return { id: request.id };
+      },
+
+      update: async (id, values) => {
+        const request = state.helpRequests.find((r) => r.id === id);
+        requireEditor(request, "Failed to update help request");
+
+        const previousStatus = request!.status;
+        Object.assign(request!, values, { updated_at: new Date().toISOString() });
+        if (request!.status !== previousStatus) logHelpRequestStatus(request!);
+        persist();
+      },
+
+      remove: async (id) => {
+        requireEditor(state.helpRequests.find((r) => r.id === id), "Failed to delete request");
+
+        state.helpRequests = state.helpRequests.filter((r) => r.id !== id);
+        state.helpRequestStatusEvents = state.helpRequestStatusEvents.filter((e) => e.request_id !== id);
+        persist();
+      },
+    },
+
+    profiles: {
+      get: async (id) => {
+        const profile = findProfile(id);
+        return profile && { ...profile, phone: id === state.sessionUserId ? state.phones[id] ?? null : null };
+      },
+
+      getPublic: async (id) => {
+        const profile = findProfile(id);
+        return profile && {
+          id: profile.id,
+          full_name: profile.full_name,
+          location: profile.location,
+          created_at: profile.created_at,
+        };
+      },
+
+      names: async (userIds) =>
+        new Map(
+          userIds
+            .map((id) => findProfile(id))
+            .filter((profile): profile is Profile => profile !== null)
+            .map((profile) => [profile.id, profile.full_name || "Anonymous"])
+        ),
+
+      save: async (id, { phone, ...values }) => {
+        requireAuthor(id, "Failed to save profile");
+
+        const now = new Date().toISOString();
+        const profile = findProfile(id);
+
+        if (profile) {
+          Object.assign(profile, values, { updated_at: now });
+        } else {
+          state.profiles.push({
+            id,
+            full_name: null,
+            location: null,
+            city: null,
+            region: null,
+            latitude: null,
+            longitude: null,
+            created_at: now,
+            updated_at: now,
+            ...values,
+          });
+        }
+
+        if (phone) {
+          state.phones[id] = phone;
+        } else if (phone === null) {
+          delete state.phones[id];
+        }
+
+        persist();
+        // The navbar shows the name from the session's user metadata
+        emit("USER_UPDATED");
+      },
+    },
+
+    categories: {
+      list: async () => [...state.categories],
+
+      create: async (values) => {
+        requireAdmin("Failed to add category");
+
+        const now = new Date().toISOString();
+        const category: Category = {
+          id: crypto.randomUUID(),
+          icon: "package",
+          color: "gray",
+          parent_id: null,
+          sort_order: 0,
+          fields: [],
+          created_at: now,
+          updated_at: now,
+          ...values,
+        };
+
+        checkCategory(category, "Failed to add category");
+        state.categories.push(category);
+        persist();
+        return category;
+      },
+
+      update: async (id, values) => {
+        requireAdmin("Failed to update category");
+
+        const category = state.categories.find((c) => c.id === id);
+        if (!category) return;
+
+        const next = { ...category, ...values, updated_at: new Date().toISOString() };
+        checkCategory(next, "Failed to update category");
+
+        // Posts follow a renamed slug, as the foreign keys cascade
+        posts().forEach((post) => {
+          if (post.category === category.slug) post.category = next.slug;
+          if (post.subcategory === category.slug) post.subcategory = next.slug;
+        });
+        Object.assign(category, next);
+        persist();
+      },
+
+      remove: async (id) => {
+        requireAdmin("Failed to delete category");
+
+        const removed = state.categories.filter((c) => c.id === id || c.parent_id === id);
+        const slugs = new Set(removed.map((c) => c.slug));
+        if (posts().some((post) => slugs.has(post.category))) {
+          throw new ApiError("Failed to delete category", "23503");
+        }
+
+        posts().forEach((post) => {
+          if (post.subcategory && slugs.has(post.subcategory)) post.subcategory = null;
+        });
+        state.categories = state.categories.filter((c) => !removed.includes(c));
+        persist();
+      },
+    },
+  };
+};
@@ -0,0 +1,21 @@
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { getBackend } from "@/lib/api/backend";
+
+export type Profile = Tables<"profiles">;
+
+// What anyone can see about the member behind a post
+export type PublicProfile = Pick<Profile, "id" | "full_name" | "location" | "created_at">;
+
+// The signed-in user's own profile, with the phone number only they can read
+export type OwnProfile = Profile & { phone: string | null };
+
+export type ProfileUpdate = TablesUpdate<"profiles"> & { phone?: string | null };
+
+export const fetchProfile = (id: string) => getBackend().profiles.get(id);
+
+export const fetchPublicProfile = (id: string) => getBackend().profiles.getPublic(id);
+
+// Display names keyed by user id, for attributing posts
+export const fetchProfileNames = (userIds: string[]) => getBackend().profiles.names(userIds);
+
+export const saveProfile = (id: string, values: ProfileUpdate) => getBackend().profiles.save(id, values);
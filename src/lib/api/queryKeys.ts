@@ -0,0 +1,38 @@
+import type { FeedFilters } from "@/lib/api/types";
+import type { HelpRequestFeedFilters } from "@/lib/api/helpRequests";
+
+// Every list sits under `lists()` so a change to one post can refresh all of
+// them at once: the public feed, the map and the owner's profile. A post's
+// history and photos sit under its detail key and refresh along with it.
+export const donationKeys = {
+  all: ["donations"] as const,
+  lists: () => [...donationKeys.all, "list"] as const,
+  feed: (filters: FeedFilters, page: number) => [...donationKeys.lists(), "feed", filters, page] as const,
+  map: (filters: FeedFilters) => [...donationKeys.lists(), "map", filters] as const,
+  byUser: (userId: string) => [...donationKeys.lists(), "user", userId] as const,
+  detail: (id: string) => [...donationKeys.all, "detail", id] as const,
+  history: (id: string) => [...donationKeys.detail(id), "history"] as const,
+  images: (id: string) => [...donationKeys.detail(id), "images"] as const,
+};
+
+export const helpRequestKeys = {
+  all: ["help-requests"] as const,
+  lists: () => [...helpRequestKeys.all, "list"] as const,
+  feed: (filters: HelpRequestFeedFilters, page: number) => [...helpRequestKeys.lists(), "feed", filters, page] as const,
+  map: (filters: HelpRequestFeedFilters) => [...helpRequestKeys.lists(), "map", filters] as const,
+  byUser: (userId: string) => [...helpRequestKeys.lists(), "user", userId] as const,
+  detail: (id: string) => [...helpRequestKeys.all, "detail", id] as const,
+  history: (id: string) => [...helpRequestKeys.detail(id), "history"] as const,
+  images: (id: string) => [...helpRequestKeys.detail(id), "images"] as const,
+  offerCount: (id: string) => [...helpRequestKeys.detail(id), "offer-count"] as const,
+};
+
+export const profileKeys = {
+  all: ["profiles"] as const,
+  public: (id: string) => [...profileKeys.all, "public", id] as const,
+};
+
+// Categories change rarely and are shared by every page, so they live under one key
+export const categoryKeys = {
+  all: ["categories"] as const,
+};
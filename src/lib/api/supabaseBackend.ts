@@ -0,0 +1,541 @@
+import { supabase } from "@/integrations/supabase/client";
+import { fetchCoverImages, fetchItemImages } from "@/lib/itemImages";
+import { MAP_MARKER_LIMIT, getPageRange, toSearchPattern } from "@/lib/feedFilters";
+import type { Backend } from "@/lib/api/backend";
+import type { HelpRequestFeedFilters } from "@/lib/api/helpRequests";
+import { toApiError } from "@/lib/api/errors";
+import type { FeedFilters } from "@/lib/api/types";
+
+// Available donations matching the filters. Searches and distance filters go
+// through the ranked RPC, which returns best and nearest matches first.
+const searchDonations = (filters: FeedFilters) => {
+  const searchTerm = filters.search.trim();
+  const nearby = filters.radiusKm !== null && filters.origin !== null;
+  let query = (
+    searchTerm || nearby
+      ? supabase.rpc(
+          "search_donations",
+          {
+            search_query: searchTerm || undefined,
+            origin_lat: filters.origin?.latitude,
+            origin_lng: filters.origin?.longitude,
+            radius_km: filters.radiusKm ?? undefined,
+          },
+          { count: "exact" }
+        )
+      : supabase.from("donations").select("*", { count: "exact" }).order("created_at", { ascending: false })
+  )
+    .eq("status", "available")
+    .is("hidden_at", null);
+
+  if (filters.category) {
+    query = query.eq("category", filters.category);
+  }
+
+  if (filters.subcategory) {
+    query = query.eq("subcategory", filters.subcategory);
+  }
+
+  if (Object.keys(filters.details).length > 0) {
+    query = query.contains("details", filters.details);
+  }
+
+  const locationPattern = toSearchPattern(filters.location);
+  if (locationPattern) {
+    query = query.ilike("location", locationPattern);
+  }
+
+  return query;
+};
+
+// Help requests matching the filters, ranked the same way as donations
+const searchHelpRequests = (filters: HelpRequestFeedFilters) => {
+  const searchTerm = filters.search.trim();
+  const nearby = filters.radiusKm !== null && filters.origin !== null;
+  let query = (
+    searchTerm || nearby
+      ? supabase.rpc(
+          "search_help_requests",
+          {
+            search_query: searchTerm || undefined,
+            origin_lat: filters.origin?.latitude,
+            origin_lng: filters.origin?.longitude,
+            radius_km: filters.radiusKm ?? undefined,
+          },
+          { count: "exact" }
+        )
+      : supabase.from("help_requests").select("*", { count: "exact" }).order("created_at", { ascending: false })
+  )
+    .in("status", filters.statuses)
+    .is("hidden_at", null);
+
+  if (filters.category) {
+    query = query.eq("category", filters.category);
+  }
+
+  if (filters.subcategory) {
+    query = query.eq("subcategory", filters.subcategory);
+  }
+
+  if (Object.keys(filters.details).length > 0) {
+    query = query.contains("details", filters.details);
+  }
+
+  if (filters.urgency) {
+    query = query.eq("urgency", filters.urgency);
+  }
+
+  const locationPattern = toSearchPattern(filters.location);
+  if (locationPattern) {
+    query = query.ilike("location", locationPattern);
+  }
+
+  return query;
+};
+
+// Display names for the authors of a set of posts. A failed lookup is logged
+// and leaves the posts attributed to "Anonymous" rather than failing the feed.
+const fetchProfileNames = async (userIds: string[]) => {
+  const names = new Map<string, string>();
+  const ids = [...new Set(userIds)];
+  if (ids.length === 0) return names;
+
+  const { data, error } = await supabase.from("profiles").select("id, full_name").in("id", ids);
+
+  if (error) {
+    console.error("Profiles fetch error:", error);
+    return names;
+  }
+
+  data?.forEach((profile) => {
+    names.set(profile.id, profile.full_name || "Anonymous");
+  });
+
+  return names;
+};
+
+// Live offer counts so requests without helpers stand out
+const fetchOfferCounts = async (requestIds: string[]) => {
+  const counts = new Map<string, number>();
+  if (requestIds.length === 0) return counts;
+
+  const { data, error } = await supabase
+    .from("help_offer_counts")
+    .select("request_id, offer_count")
+    .in("request_id", requestIds);
+
+  if (error) {
+    console.error("Offer counts fetch error:", error);
+    return counts;
+  }
+
+  data?.forEach((c) => {
+    if (c.request_id) counts.set(c.request_id, c.offer_count ?? 0);
+  });
+
+  return counts;
+};
+
+const toMapItem = (
+  item: { id: string; title: string; category: string; latitude: number | null; longitude: number | null },
+  href: string
+) => ({
+  id: item.id,
+  title: item.title,
+  category: item.category,
+  latitude: item.latitude!,
+  longitude: item.longitude!,
+  href,
+});
+
+// The hosted project configured in src/integrations/supabase/client.ts
+export const createSupabaseBackend = (): Backend => ({
+  auth: {
+    getSession: async () => {
+      const { data } = await supabase.auth.getSession();
+      return data.session;
+    },
+
+    onAuthStateChange: (callback) => {
+      const { data: { subscription } } = supabase.auth.onAuthStateChange(callback);
+      return () => subscription.unsubscribe();
+    },
+
+    fetchRoles: async (userId) => {
+      const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", userId);
+
+      if (error) {
+        console.error("Roles fetch error:", error);
+      }
+
+      return (data || []).map((row) => row.role);
+    },
+
+    signUp: async (email, password, profile) => {
+      // handle_new_user copies this metadata into the profiles row
+      const { data, error } = await supabase.auth.signUp({
+        email,
+        password,
+        options: {
+          emailRedirectTo: `${window.location.origin}/`,
+          data: {
+            full_name: profile.fullName,
+            phone: profile.phone || null,
+            location: profile.location || null,
+          },
+        },
+      });
+
+      // With email confirmation disabled we are signed in straight away, so make
+      // sure the details landed even if the profile row predates the trigger
+      if (!error && data.session && data.user) {
+        const { error: profileError } = await supabase.from("profiles").upsert({
+          id: data.user.id,
+          full_name: profile.fullName,
+          location: profile.location || null,
+        });
+
+        if (profileError) {
+          console.error("Profile upsert error:", profileError);
+        }
+
+        // The email is filled in from the account by sync_contact_email
+        const { error: contactError } = await supabase
+          .from("profile_contacts")
+          .upsert({ id: data.user.id, phone: profile.phone || null });
+
+        if (contactError) {
+          console.error("Contact details upsert error:", contactError);
+        }
+      }
+
+      return { error };
+    },
+
+    signIn: async (email, password) => {
+      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      return { error };
+    },
+
+    // Emails carry both a magic link and a code; texts carry just the code.
+    // Only existing accounts can sign in this way, so a typo can't create one.
+    sendOtp: async (recipient, redirectTo) => {
+      const { error } = await supabase.auth.signInWithOtp(
+        "email" in recipient
+          ? { email: recipient.email, options: { emailRedirectTo: redirectTo, shouldCreateUser: false } }
+          : { phone: recipient.phone, options: { shouldCreateUser: false } }
+      );
+      return { error };
+    },
+
+    verifyOtp: async (recipient, token) => {
+      const { error } = await supabase.auth.verifyOtp(
+        "email" in recipient
+          ? { email: recipient.email, token, type: "email" }
+          : { phone: recipient.phone, token, type: "sms" }
+      );
+      return { error };
+    },
+
+    signInWithProvider: async (provider, redirectTo) => {
+      const { error } = await supabase.auth.signInWithOAuth({ provider, options: { redirectTo } });
+      return { error };
+    },
+
+    signOut: async () => {
+      await supabase.auth.signOut();
+    },
+
+    resetPassword: async (email, redirectTo) => {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, { redirectTo });
+      return { error };
+    },
+
+    updatePassword: async (password) => {
+      const { error } = await supabase.auth.updateUser({ password });
+      return { error };
+    },
+  },
+
+  donations: {
+    feed: async (filters, page) => {
+      const [from, to] = getPageRange(page);
+      const { data, error, count } = await searchDonations(filters).range(from, to);
+
+      if (error) throw toApiError("Donations fetch error", error, "Failed to load donations");
+
+      const donations = data || [];
+      const [names, coverImages] = await Promise.all([
+        fetchProfileNames(donations.map((d) => d.user_id)),
+        fetchCoverImages("donation_id", donations.map((d) => d.id)),
+      ]);
+
+      return {
+        items: donations.map((d) => ({
+          ...d,
+          userName: names.get(d.user_id) || "Anonymous",
+          imageUrl: coverImages.get(d.id),
+        })),
+        count: count ?? 0,
+      };
+    },
+
+    // The map plots every located match rather than one page of cards
+    mapItems: async (filters) => {
+      const { data, error } = await searchDonations(filters)
+        .not("latitude", "is", null)
+        .not("longitude", "is", null)
+        .limit(MAP_MARKER_LIMIT);
+
+      if (error) throw toApiError("Donations fetch error", error, "Failed to load donations");
+
+      return (data || []).map((item) => toMapItem(item, `/donate/${item.id}`));
+    },
+
+    listByUser: async (userId) => {
+      const { data, error } = await supabase
+        .from("donations")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw toApiError("Donations fetch error", error, "Failed to load donations");
+
+      return data || [];
+    },
+
+    get: async (id) => {
+      const { data, error } = await supabase.from("donations").select("*").eq("id", id).maybeSingle();
+
+      if (error) throw toApiError("Donation fetch error", error, "Failed to load donation");
+
+      return data;
+    },
+
+    history: async (id) => {
+      const { data, error } = await supabase
+        .from("donation_status_events")
+        .select("id, status, created_at")
+        .eq("donation_id", id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw toApiError("Status history fetch error", error, "Failed to load status history");
+
+      return data || [];
+    },
+
+    images: (id) => fetchItemImages({ donationId: id }),
+
+    create: async (values) => {
+      const { data, error } = await supabase.from("donations").insert(values).select("id").single();
+
+      if (error) throw toApiError("Donation error", error, "Failed to submit donation");
+
+      return data;
+    },
+
+    update: async (id, values) => {
+      const { error } = await supabase
+        .from("donations")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw toApiError("Donation update error", error, "Failed to update donation");
+    },
+
+    remove: async (id) => {
+      const { error } = await supabase.from("donations").delete().eq("id", id);
+
+      if (error) throw toApiError("Delete donation error", error, "Failed to delete donation");
+    },
+  },
+
+  helpRequests: {
+    feed: async (filters, page) => {
+      const [from, to] = getPageRange(page);
+      const { data, error, count } = await searchHelpRequests(filters).range(from, to);
+
+      if (error) throw toApiError("Requests fetch error", error, "Failed to load help requests");
+
+      const requests = data || [];
+      const requestIds = requests.map((r) => r.id);
+      const [names, offerCounts, coverImages] = await Promise.all([
+        fetchProfileNames(requests.map((r) => r.user_id)),
+        fetchOfferCounts(requestIds),
+        fetchCoverImages("help_request_id", requestIds),
+      ]);
+
+      return {
+        items: requests.map((r) => ({
+          ...r,
+          userName: names.get(r.user_id) || "Anonymous",
+          offerCount: offerCounts.get(r.id) || 0,
+          imageUrl: coverImages.get(r.id),
+        })),
+        count: count ?? 0,
+      };
+    },
+
+    mapItems: async (filters) => {
+      const { data, error } = await searchHelpRequests(filters)
+        .not("latitude", "is", null)
+        .not("longitude", "is", null)
+        .limit(MAP_MARKER_LIMIT);
+
+      if (error) throw toApiError("Requests fetch error", error, "Failed to load help requests");
+
+      return (data || []).map((item) => toMapItem(item, `/request-help/${item.id}`));
+    },
+
+    listByUser: async (userId) => {
+      const { data, error } = await supabase
+        .from("help_requests")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw toApiError("Requests fetch error", error, "Failed to load help requests");
+
+      return data || [];
+    },
+
+    get: async (id) => {
+      const { data, error } = await supabase.from("help_requests").select("*").eq("id", id).maybeSingle();
+
+      if (error) throw toApiError("Help request fetch error", error, "Failed to load help request");
+
+      return data;
+    },
+
+    history: async (id) => {
+      const { data, error } = await supabase
+        .from("help_request_status_events")
+        .select("id, status, created_at")
+        .eq("request_id", id)
+        .order("created_at", { ascending: true });
+
+      if (error) throw toApiError("Status history fetch error", error, "Failed to load status history");
+
+      return data || [];
+    },
+
+    images: (id) => fetchItemImages({ helpRequestId: id }),
+
+    offerCount: async (id) => (await fetchOfferCounts([id])).get(id) ?? 0,
+
+    create: async (values) => {
+      const { data, error } = await supabase.from("help_requests").insert(values).select("id").single();
+
+      if (error) throw toApiError("Help request error", error, "Failed to submit help request");
+
+      return data;
+    },
+
+    update: async (id, values) => {
+      const { error } = await supabase
+        .from("help_requests")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw toApiError("Help request update error", error, "Failed to update help request");
+    },
+
+    remove: async (id) => {
+      const { error } = await supabase.from("help_requests").delete().eq("id", id);
+
+      if (error) throw toApiError("Delete request error", error, "Failed to delete request");
+    },
+  },
+
+  profiles: {
+    get: async (id) => {
+      const [profileRes, contactRes] = await Promise.all([
+        supabase.from("profiles").select("*").eq("id", id).maybeSingle(),
+        // Only the owner can read this row; anyone else gets nothing back
+        supabase.from("profile_contacts").select("phone").eq("id", id).maybeSingle(),
+      ]);
+
+      if (profileRes.error) throw toApiError("Profile fetch error", profileRes.error, "Failed to load profile");
+      if (contactRes.error) throw toApiError("Contact details fetch error", contactRes.error, "Failed to load profile");
+
+      return profileRes.data && { ...profileRes.data, phone: contactRes.data?.phone ?? null };
+    },
+
+    getPublic: async (id) => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("id, full_name, location, created_at")
+        .eq("id", id)
+        .maybeSingle();
+
+      if (error) throw toApiError("Profile fetch error", error, "Failed to load profile");
+      return data;
+    },
+
+    names: fetchProfileNames,
+
+    save: async (id, { phone, ...values }) => {
+      const update = { ...values, updated_at: new Date().toISOString() };
+      const { data, error } = await supabase.from("profiles").update(update).eq("id", id).select("id");
+
+      if (error) throw toApiError("Profile update error", error, "Failed to save profile");
+
+      // No row to update means the profile was never created; create it now
+      if (!data || data.length === 0) {
+        const { error: insertError } = await supabase.from("profiles").insert({ id, ...update });
+
+        if (insertError) throw toApiError("Profile insert error", insertError, "Failed to save profile");
+      }
+
+      if (phone !== undefined) {
+        const { error: contactError } = await supabase
+          .from("profile_contacts")
+          .upsert({ id, phone, updated_at: update.updated_at });
+
+        if (contactError) throw toApiError("Contact details save error", contactError, "Failed to save profile");
+      }
+
+      // Keep the name shown in the navbar in sync
+      if (values.full_name !== undefined) {
+        const { error: metadataError } = await supabase.auth.updateUser({ data: { full_name: values.full_name } });
+
+        if (metadataError) {
+          console.error("User metadata update error:", metadataError);
+        }
+      }
+    },
+  },
+
+  categories: {
+    list: async () => {
+      const { data, error } = await supabase.from("categories").select("*").order("sort_order").order("name");
+
+      if (error) throw toApiError("Categories fetch error", error, "Failed to load categories");
+
+      return data || [];
+    },
+
+    create: async (values) => {
+      const { data, error } = await supabase.from("categories").insert(values).select("*").single();
+
+      if (error) throw toApiError("Category insert error", error, "Failed to add category");
+
+      return data;
+    },
+
+    update: async (id, values) => {
+      const { error } = await supabase
+        .from("categories")
+        .update({ ...values, updated_at: new Date().toISOString() })
+        .eq("id", id);
+
+      if (error) throw toApiError("Category update error", error, "Failed to update category");
+    },
+
+    remove: async (id) => {
+      const { error } = await supabase.from("categories").delete().eq("id", id);
+
+      if (error) throw toApiError("Category delete error", error, "Failed to delete category");
+    },
+  },
+});
@@ -0,0 +1,28 @@
+import type { PostDetails } from "@/lib/categoryFields";
+import type { Coordinates } from "@/lib/geocoding";
+
+// One page of a feed along with the total number of matches
+export interface Page<T> {
+  items: T[];
+  count: number;
+}
+
+// One change to a post's status, as shown in its status history
+export interface StatusEvent<Status extends string> {
+  id: string;
+  status: Status;
+  created_at: string;
+}
+
+// Filters shared by the donation and help request feeds
+export interface FeedFilters {
+  search: string;
+  location: string;
+  // Category and subcategory slugs; null shows every category
+  category: string | null;
+  subcategory: string | null;
+  // Answers the category's select fields must match, e.g. { size: "M" }
+  details: PostDetails;
+  radiusKm: number | null;
+  origin: Coordinates | null;
+}
@@ -0,0 +1,43 @@
+import type { Provider } from "@supabase/supabase-js";
+
+export interface OAuthProviderOption {
+  id: Provider;
+  label: string;
+}
+
+const PROVIDER_LABELS: Partial<Record<Provider, string>> = {
+  apple: "Apple",
+  azure: "Microsoft",
+  discord: "Discord",
+  facebook: "Facebook",
+  github: "GitHub",
+  google: "Google",
+  linkedin_oidc: "LinkedIn",
+  twitter: "X",
+};
+
+export const OTP_LENGTH = 6;
+
+/**
+ * Parses a comma-separated provider list such as "google,facebook". Each
+ * provider must also be enabled in the Supabase dashboard; unknown names are
+ * skipped so a typo doesn't render a broken button.
+ */
+export const parseOAuthProviders = (value: string | undefined): OAuthProviderOption[] =>
+  (value ?? "")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter((name, index, names) => name && names.indexOf(name) === index)
+    .flatMap((name) => {
+      const label = PROVIDER_LABELS[name as Provider];
+      if (!label) {
+        console.warn(`Ignoring unsupported OAuth provider "${name}"`);
+        return [];
+      }
+      return [{ id: name as Provider, label }];
+    });
+
+export const OAUTH_PROVIDERS = parseOAuthProviders(import.meta.env.VITE_AUTH_OAUTH_PROVIDERS);
+
+// Texting codes needs an SMS provider configured in Supabase, so it is opt-in
+export const SMS_OTP_ENABLED = import.meta.env.VITE_AUTH_SMS_OTP === "true";
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { getSafeNextPath } from "@/lib/authRedirect";
+
+describe("getSafeNextPath", () => {
+  it.each(["/donations", "/help/abc?tab=offers", "/search?q=a%5Cb"])("keeps the same-site path %s", (path) => {
+    expect(getSafeNextPath(path)).toBe(path);
+  });
+
+  it.each([
+    [null],
+    ["https://evil.example"],
+    ["//evil.example"],
+    ["/\\evil.example"],
+    ["/\\/evil.example"],
+    ["/\t/evil.example"],
+    ["/\n/evil.example"],
+  ])("falls back for %j", (value) => {
+    expect(getSafeNextPath(value, "/dashboard")).toBe("/dashboard");
+  });
+});
@@ -0,0 +1,11 @@
+// Browsers read "\" as "/" and drop tabs and newlines, so "/\evil.example" would leave the site
+const UNSAFE_PATH_CHARACTERS = /[\\\p{Cc}]/u;
+
+// Only same-site paths are accepted so `?next=` can't bounce users to another origin
+export const getSafeNextPath = (value: string | null, fallback = "/") =>
+  value && value.startsWith("/") && !value.startsWith("//") && !UNSAFE_PATH_CHARACTERS.test(value)
+    ? value
+    : fallback;
+
+// Login URL that returns the user to `path` once they've signed in
+export const loginPath = (path: string) => (path === "/" ? "/login" : `/login?next=${encodeURIComponent(path)}`);
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/api/categories";
+import { buildCategoryRegistry, toCategorySlug } from "@/lib/categories";
+
+const category = (overrides: Partial<Category> & Pick<Category, "id" | "slug" | "name">): Category => ({
+  icon: "package",
+  color: "gray",
+  parent_id: null,
+  sort_order: 0,
+  fields: [],
+  created_at: "2026-10-01T00:00:00Z",
+  updated_at: "2026-10-01T00:00:00Z",
+  ...overrides,
+});
+
+describe("categories", () => {
+  const registry = buildCategoryRegistry([
+    category({ id: "3", slug: "other", name: "Other", sort_order: 1000 }),
+    category({ id: "2", slug: "food", name: "Food", sort_order: 10 }),
+    category({ id: "1", slug: "clothing", name: "Clothing", sort_order: 10 }),
+    category({ id: "5", slug: "shoes", name: "Shoes", parent_id: "1", sort_order: 20 }),
+    category({ id: "4", slug: "coats", name: "Coats", parent_id: "1", sort_order: 10 }),
+  ]);
+
+  it("nests subcategories under their parent in display order", () => {
+    expect(registry.tree.map((c) => c.slug)).toEqual(["clothing", "food", "other"]);
+    expect(registry.tree[0].children.map((c) => c.slug)).toEqual(["coats", "shoes"]);
+    expect(registry.tree[1].children).toEqual([]);
+  });
+
+  it("looks up categories and subcategories by slug", () => {
+    expect(registry.find("shoes")?.name).toBe("Shoes");
+    expect(registry.find(null)).toBeUndefined();
+    expect(registry.label("coats")).toBe("Coats");
+    expect(registry.label("retired")).toBe("retired");
+  });
+
+  it.each([
+    ["Medical Supplies", "medical-supplies"],
+    ["  Kids & Baby ", "kids-baby"],
+    ["Café", "cafe"],
+  ])("slugs %s as %s", (name, slug) => {
+    expect(toCategorySlug(name)).toBe(slug);
+  });
+});
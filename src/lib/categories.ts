@@ -0,0 +1,46 @@
+import type { Category } from "@/lib/api/categories";
+import { parseCategoryFields, type CategoryField } from "@/lib/categoryFields";
+
+export type CategoryNode = Category & { children: Category[] };
+
+export interface CategoryRegistry {
+  // Top-level categories with their subcategories, in display order
+  tree: CategoryNode[];
+  find: (slug: string | null | undefined) => Category | undefined;
+  // Display name for a slug; unknown slugs are shown as stored
+  label: (slug: string) => string;
+  // Structured fields for posts in a category; subcategories use their parent's
+  fields: (slug: string | null | undefined) => CategoryField[];
+}
+
+const byDisplayOrder = (a: Category, b: Category) => a.sort_order - b.sort_order || a.name.localeCompare(b.name);
+
+export const buildCategoryRegistry = (categories: Category[]): CategoryRegistry => {
+  const sorted = [...categories].sort(byDisplayOrder);
+  const bySlug = new Map(sorted.map((category) => [category.slug, category]));
+
+  const tree = sorted
+    .filter((category) => category.parent_id === null)
+    .map((category) => ({ ...category, children: sorted.filter((child) => child.parent_id === category.id) }));
+
+  const fieldsBySlug = new Map(tree.map((category) => [category.slug, parseCategoryFields(category.fields)]));
+  tree.forEach((category) =>
+    category.children.forEach((child) => fieldsBySlug.set(child.slug, fieldsBySlug.get(category.slug) ?? []))
+  );
+
+  return {
+    tree,
+    find: (slug) => (slug ? bySlug.get(slug) : undefined),
+    label: (slug) => bySlug.get(slug)?.name ?? slug,
+    fields: (slug) => (slug ? fieldsBySlug.get(slug) : undefined) ?? [],
+  };
+};
+
+// "Medical Supplies" -> "medical-supplies"
+export const toCategorySlug = (name: string) =>
+  name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
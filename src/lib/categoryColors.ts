@@ -0,0 +1,16 @@
+// Badge palette for the color tokens stored on each category. Tailwind only
+// ships classes it can see in the source, so every token is spelled out here.
+export const CATEGORY_COLORS: Record<string, string> = {
+  blue: "bg-blue-100 text-blue-700",
+  purple: "bg-purple-100 text-purple-700",
+  green: "bg-green-100 text-green-700",
+  orange: "bg-orange-100 text-orange-700",
+  pink: "bg-pink-100 text-pink-700",
+  red: "bg-red-100 text-red-700",
+  yellow: "bg-yellow-100 text-yellow-800",
+  teal: "bg-teal-100 text-teal-700",
+  indigo: "bg-indigo-100 text-indigo-700",
+  gray: "bg-gray-100 text-gray-700",
+};
+
+export const getCategoryColor = (color: string) => CATEGORY_COLORS[color] || CATEGORY_COLORS.gray;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { formatDetail, parseCategoryFields, parsePostDetails, toPostDetails, type CategoryField } from "@/lib/categoryFields";
+
+const size: CategoryField = { key: "size", label: "Size", type: "select", options: ["S", "M", "L"] };
+const exam: CategoryField = { key: "exam", label: "Exam", type: "text", options: [] };
+const expiry: CategoryField = { key: "expiry", label: "Best before", type: "date", options: [] };
+
+describe("categoryFields", () => {
+  it("skips field definitions it can't use", () => {
+    const fields = parseCategoryFields([
+      { key: "size", label: "Size", type: "select", options: ["S", "M", "L"] },
+      { key: "colour", label: "Colour", type: "select", options: [] },
+      { key: "weight", label: "Weight", type: "slider" },
+      { label: "No key", type: "text" },
+      { key: "exam", label: "Exam", type: "text", options: ["ignored"] },
+      "size",
+    ]);
+
+    expect(fields).toEqual([size, exam]);
+    expect(parseCategoryFields({ size: "M" })).toEqual([]);
+  });
+
+  it("keeps only text answers from a post", () => {
+    expect(parsePostDetails({ size: "M", exam: "", count: 3, extra: null })).toEqual({ size: "M" });
+    expect(parsePostDetails(["M"])).toEqual({});
+  });
+
+  it("saves trimmed answers for the category's own fields", () => {
+    expect(toPostDetails([size, exam], { size: "M", exam: "  NEET ", gender: "Women" })).toEqual({
+      size: "M",
+      exam: "NEET",
+    });
+    expect(toPostDetails([size, exam], { size: "XXL", exam: "   " })).toEqual({});
+  });
+
+  it("formats dates and leaves other answers as typed", () => {
+    expect(formatDetail(expiry, "2026-11-05")).toBe("5 Nov 2026");
+    expect(formatDetail(expiry, "soon")).toBe("soon");
+    expect(formatDetail(size, "M")).toBe("M");
+  });
+});
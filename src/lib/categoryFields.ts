@@ -0,0 +1,84 @@
+import { format, isValid, parseISO } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+
+export type CategoryFieldType = "select" | "text" | "date";
+
+// One entry in a category's `fields` column
+export interface CategoryField {
+  key: string;
+  label: string;
+  type: CategoryFieldType;
+  // Choices for select fields; empty for the other types
+  options: string[];
+  placeholder?: string;
+}
+
+// A post's answers to its category's fields, keyed by field
+export type PostDetails = Record<string, string>;
+
+const FIELD_TYPES: CategoryFieldType[] = ["select", "text", "date"];
+
+const isObject = (value: Json | undefined): value is { [key: string]: Json | undefined } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFieldType = (value: Json | undefined): value is CategoryFieldType =>
+  FIELD_TYPES.includes(value as CategoryFieldType);
+
+// Reads a category's `fields` column, skipping entries that don't describe a usable field
+export const parseCategoryFields = (value: Json): CategoryField[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): CategoryField[] => {
+    if (!isObject(entry) || typeof entry.key !== "string" || typeof entry.label !== "string") return [];
+    if (!isFieldType(entry.type)) return [];
+
+    const options = Array.isArray(entry.options)
+      ? entry.options.filter((option): option is string => typeof option === "string")
+      : [];
+    if (entry.type === "select" && options.length === 0) return [];
+
+    return [
+      {
+        key: entry.key,
+        label: entry.label,
+        type: entry.type,
+        options: entry.type === "select" ? options : [],
+        placeholder: typeof entry.placeholder === "string" ? entry.placeholder : undefined,
+      },
+    ];
+  });
+};
+
+// Reads a post's `details` column, keeping the text answers
+export const parsePostDetails = (value: Json): PostDetails => {
+  if (!isObject(value)) return {};
+
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === "string" && entry[1] !== "")
+  );
+};
+
+/**
+ * The answers worth saving for a category: trimmed, blanks dropped, and only
+ * for fields the category has. Select answers must be one of the options, so
+ * switching categories can't leave stale values behind.
+ */
+export const toPostDetails = (fields: CategoryField[], values: PostDetails): PostDetails =>
+  Object.fromEntries(
+    fields.flatMap((field) => {
+      const value = values[field.key]?.trim();
+      if (!value) return [];
+      if (field.type === "select" && !field.options.includes(value)) return [];
+      return [[field.key, value]];
+    })
+  );
+
+// Select fields have a fixed set of answers, so they double as feed filters
+export const getFilterFields = (fields: CategoryField[]) => fields.filter((field) => field.type === "select");
+
+export const formatDetail = (field: CategoryField, value: string) => {
+  if (field.type !== "date") return value;
+
+  const date = parseISO(value);
+  return isValid(date) ? format(date, "d MMM yyyy") : value;
+};
@@ -0,0 +1,35 @@
+import {
+  Baby,
+  BookOpen,
+  Car,
+  HeartPulse,
+  Home,
+  Laptop,
+  Package,
+  PawPrint,
+  Pill,
+  Shirt,
+  Sofa,
+  Utensils,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icons admins can pick for a category, keyed by the token stored in the table
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  shirt: Shirt,
+  laptop: Laptop,
+  "book-open": BookOpen,
+  utensils: Utensils,
+  wrench: Wrench,
+  pill: Pill,
+  "heart-pulse": HeartPulse,
+  sofa: Sofa,
+  home: Home,
+  baby: Baby,
+  car: Car,
+  "paw-print": PawPrint,
+  package: Package,
+};
+
+export const getCategoryIcon = (icon: string) => CATEGORY_ICONS[icon] || Package;
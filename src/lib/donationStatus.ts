@@ -0,0 +1,9 @@
+import type { Database } from "@/integrations/supabase/types";
+
+export type DonationStatus = Database["public"]["Enums"]["donation_status"];
+
+export const DONATION_STATUS_META: Record<DonationStatus, { label: string; className: string }> = {
+  available: { label: "Available", className: "bg-green-100 text-green-700" },
+  reserved: { label: "Reserved", className: "bg-yellow-100 text-yellow-700" },
+  given: { label: "Given", className: "bg-gray-100 text-gray-700" },
+};
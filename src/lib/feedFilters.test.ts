@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyFilterParams,
+  clearDetailParams,
+  getDetailFilters,
+  getPageRange,
+  getPaginationItems,
+  parsePage,
+  toDetailParam,
+  toSearchPattern,
+} from "@/lib/feedFilters";
+
+describe("feedFilters", () => {
+  it.each([
+    [null, 1],
+    ["3", 3],
+    ["0", 1],
+    ["-2", 1],
+    ["abc", 1],
+  ])("parses page %s as %i", (value, page) => {
+    expect(parsePage(value)).toBe(page);
+  });
+
+  it("turns a page into inclusive row bounds", () => {
+    expect(getPageRange(1)).toEqual([0, 11]);
+    expect(getPageRange(3, 20)).toEqual([40, 59]);
+  });
+
+  it("strips PostgREST syntax out of search patterns", () => {
+    expect(toSearchPattern("  Pune, (MH)  ")).toBe("%Pune MH%");
+    expect(toSearchPattern("100%_off*")).toBe("%100 off%");
+    expect(toSearchPattern(" ,() ")).toBeNull();
+  });
+
+  it("resets to page one when a filter changes", () => {
+    const next = applyFilterParams(new URLSearchParams("category=Food&page=4"), { location: "Pune" });
+    expect(next.toString()).toBe("category=Food&location=Pune");
+  });
+
+  it("keeps an explicit page and drops empty filters", () => {
+    expect(applyFilterParams(new URLSearchParams("q=books"), { page: "2" }).toString()).toBe("q=books&page=2");
+    expect(applyFilterParams(new URLSearchParams("q=books&page=2"), { q: null, page: "1" }).toString()).toBe("");
+  });
+
+  it("reads and clears category field filters", () => {
+    const params = new URLSearchParams(`category=clothing&${toDetailParam("size")}=M&details.gender=&q=coat`);
+    expect(getDetailFilters(params)).toEqual({ size: "M" });
+    expect(applyFilterParams(params, clearDetailParams(params)).toString()).toBe("category=clothing&q=coat");
+  });
+
+  it("collapses long page runs", () => {
+    expect(getPaginationItems(2, 5)).toEqual([1, 2, 3, 4, 5]);
+    expect(getPaginationItems(6, 12)).toEqual([1, null, 5, 6, 7, null, 12]);
+    expect(getPaginationItems(1, 12)).toEqual([1, 2, null, 12]);
+  });
+});
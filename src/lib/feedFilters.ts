@@ -0,0 +1,82 @@
+export const FEED_PAGE_SIZE = 12;
+
+// Rows per page in the admin tables
+export const ADMIN_PAGE_SIZE = 20;
+
+// Most markers the map view loads at once
+export const MAP_MARKER_LIMIT = 500;
+
+// Delay before a typed search term is pushed into the URL and queried
+export const SEARCH_DEBOUNCE_MS = 300;
+
+export const parsePage = (value: string | null) => {
+  const page = Number.parseInt(value ?? "", 10);
+  return Number.isFinite(page) && page > 0 ? page : 1;
+};
+
+// Inclusive row bounds for a Supabase `.range()` call
+export const getPageRange = (page: number, pageSize = FEED_PAGE_SIZE): [number, number] => {
+  const from = (page - 1) * pageSize;
+  return [from, from + pageSize - 1];
+};
+
+// Turns free text into an ilike pattern, dropping characters that carry
+// meaning inside PostgREST filter strings (commas, parentheses, wildcards)
+export const toSearchPattern = (term: string) => {
+  const cleaned = term.replace(/[%_,()\\*]/g, " ").replace(/\s+/g, " ").trim();
+  return cleaned ? `%${cleaned}%` : null;
+};
+
+/**
+ * Returns a copy of `params` with the given filters applied. Empty values are
+ * removed so default views keep a clean URL, and any filter change sends the
+ * user back to the first page unless `page` itself is being set.
+ */
+export const applyFilterParams = (params: URLSearchParams, updates: Record<string, string | null>) => {
+  const next = new URLSearchParams(params);
+
+  Object.entries(updates).forEach(([key, value]) => {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  });
+
+  if (!("page" in updates) || next.get("page") === "1") {
+    next.delete("page");
+  }
+
+  return next;
+};
+
+// Category field filters live in the URL as `details.<field>=<value>`
+const DETAIL_PARAM_PREFIX = "details.";
+
+export const toDetailParam = (key: string) => `${DETAIL_PARAM_PREFIX}${key}`;
+
+export const getDetailFilters = (params: URLSearchParams): Record<string, string> =>
+  Object.fromEntries(
+    [...params]
+      .filter(([key, value]) => key.startsWith(DETAIL_PARAM_PREFIX) && value)
+      .map(([key, value]) => [key.slice(DETAIL_PARAM_PREFIX.length), value])
+  );
+
+// Updates for `applyFilterParams` that drop every field filter, used when the category changes
+export const clearDetailParams = (params: URLSearchParams): Record<string, null> =>
+  Object.fromEntries([...params.keys()].filter((key) => key.startsWith(DETAIL_PARAM_PREFIX)).map((key) => [key, null]));
+
+// Page numbers to render, with null marking a collapsed run of pages
+export const getPaginationItems = (current: number, total: number): (number | null)[] => {
+  if (total <= 7) {
+    return Array.from({ length: total }, (_, i) => i + 1);
+  }
+
+  const pages = new Set([1, total, current - 1, current, current + 1]);
+  const sorted = [...pages].filter((p) => p >= 1 && p <= total).sort((a, b) => a - b);
+
+  return sorted.flatMap((page, index) => {
+    const previous = sorted[index - 1];
+    return previous !== undefined && page - previous > 1 ? [null, page] : [page];
+  });
+};
@@ -0,0 +1,108 @@
+import { distanceKm, formatPlace, type GeoPlace, type Geocoder } from "@/lib/geocoding";
+
+interface GazetteerEntry {
+  city: string;
+  region: string;
+  latitude: number;
+  longitude: number;
+  aliases?: string[];
+}
+
+// Reverse lookups snap to the nearest listed city within this range
+const REVERSE_MAX_DISTANCE_KM = 60;
+
+const GAZETTEER: GazetteerEntry[] = [
+  { city: "Mumbai", region: "Maharashtra", latitude: 19.076, longitude: 72.8777, aliases: ["bombay"] },
+  { city: "Pune", region: "Maharashtra", latitude: 18.5204, longitude: 73.8567, aliases: ["poona"] },
+  { city: "Pimpri-Chinchwad", region: "Maharashtra", latitude: 18.6298, longitude: 73.7997, aliases: ["pimpri", "chinchwad", "pcmc"] },
+  { city: "Thane", region: "Maharashtra", latitude: 19.2183, longitude: 72.9781 },
+  { city: "Navi Mumbai", region: "Maharashtra", latitude: 19.033, longitude: 73.0297 },
+  { city: "Nagpur", region: "Maharashtra", latitude: 21.1458, longitude: 79.0882 },
+  { city: "Nashik", region: "Maharashtra", latitude: 19.9975, longitude: 73.7898, aliases: ["nasik"] },
+  { city: "Aurangabad", region: "Maharashtra", latitude: 19.8762, longitude: 75.3433, aliases: ["chhatrapati sambhajinagar"] },
+  { city: "Kolhapur", region: "Maharashtra", latitude: 16.705, longitude: 74.2433 },
+  { city: "Solapur", region: "Maharashtra", latitude: 17.6599, longitude: 75.9064 },
+  { city: "Delhi", region: "Delhi", latitude: 28.7041, longitude: 77.1025, aliases: ["new delhi"] },
+  { city: "Gurugram", region: "Haryana", latitude: 28.4595, longitude: 77.0266, aliases: ["gurgaon"] },
+  { city: "Noida", region: "Uttar Pradesh", latitude: 28.5355, longitude: 77.391 },
+  { city: "Bengaluru", region: "Karnataka", latitude: 12.9716, longitude: 77.5946, aliases: ["bangalore"] },
+  { city: "Mysuru", region: "Karnataka", latitude: 12.2958, longitude: 76.6394, aliases: ["mysore"] },
+  { city: "Chennai", region: "Tamil Nadu", latitude: 13.0827, longitude: 80.2707, aliases: ["madras"] },
+  { city: "Coimbatore", region: "Tamil Nadu", latitude: 11.0168, longitude: 76.9558 },
+  { city: "Hyderabad", region: "Telangana", latitude: 17.385, longitude: 78.4867 },
+  { city: "Kolkata", region: "West Bengal", latitude: 22.5726, longitude: 88.3639, aliases: ["calcutta"] },
+  { city: "Ahmedabad", region: "Gujarat", latitude: 23.0225, longitude: 72.5714 },
+  { city: "Surat", region: "Gujarat", latitude: 21.1702, longitude: 72.8311 },
+  { city: "Vadodara", region: "Gujarat", latitude: 22.3072, longitude: 73.1812, aliases: ["baroda"] },
+  { city: "Jaipur", region: "Rajasthan", latitude: 26.9124, longitude: 75.7873 },
+  { city: "Lucknow", region: "Uttar Pradesh", latitude: 26.8467, longitude: 80.9462 },
+  { city: "Kanpur", region: "Uttar Pradesh", latitude: 26.4499, longitude: 80.3319 },
+  { city: "Indore", region: "Madhya Pradesh", latitude: 22.7196, longitude: 75.8577 },
+  { city: "Bhopal", region: "Madhya Pradesh", latitude: 23.2599, longitude: 77.4126 },
+  { city: "Patna", region: "Bihar", latitude: 25.5941, longitude: 85.1376 },
+  { city: "Chandigarh", region: "Chandigarh", latitude: 30.7333, longitude: 76.7794 },
+  { city: "Kochi", region: "Kerala", latitude: 9.9312, longitude: 76.2673, aliases: ["cochin"] },
+  { city: "Thiruvananthapuram", region: "Kerala", latitude: 8.5241, longitude: 76.9366, aliases: ["trivandrum"] },
+  { city: "Visakhapatnam", region: "Andhra Pradesh", latitude: 17.6868, longitude: 83.2185, aliases: ["vizag"] },
+  { city: "Bhubaneswar", region: "Odisha", latitude: 20.2961, longitude: 85.8245 },
+  { city: "Guwahati", region: "Assam", latitude: 26.1445, longitude: 91.7362 },
+  { city: "Goa", region: "Goa", latitude: 15.4909, longitude: 73.8278, aliases: ["panaji", "panjim"] },
+];
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[^a-z0-9\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+const toPlace = (entry: GazetteerEntry): GeoPlace => ({
+  latitude: entry.latitude,
+  longitude: entry.longitude,
+  city: entry.city,
+  region: entry.region,
+  label: formatPlace(entry.city, entry.region),
+});
+
+// Scores how well free text names an entry: exact names beat prefixes, and a
+// matching region (e.g. "Pune, Maharashtra") breaks ties between cities
+const score = (entry: GazetteerEntry, query: string) => {
+  const names = [entry.city, ...(entry.aliases ?? [])].map(normalize);
+  const region = normalize(entry.region);
+
+  let best = 0;
+  names.forEach((name) => {
+    if (query === name) best = Math.max(best, 4);
+    else if (query.startsWith(`${name} `) || query.endsWith(` ${name}`) || query.includes(` ${name} `)) best = Math.max(best, 3);
+    else if (name.startsWith(query)) best = Math.max(best, 2);
+  });
+
+  if (best > 0 && query.includes(region)) best += 0.5;
+  if (best === 0 && region === query) best = 1;
+  return best;
+};
+
+// Offline geocoder over a fixed list of cities; the default provider
+export const createGazetteerGeocoder = (entries: GazetteerEntry[] = GAZETTEER): Geocoder => ({
+  autocomplete: true,
+  search: async (query, limit = 5) => {
+    const normalized = normalize(query);
+    if (!normalized) return [];
+
+    return entries
+      .map((entry) => ({ entry, score: score(entry, normalized) }))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || a.entry.city.localeCompare(b.entry.city))
+      .slice(0, limit)
+      .map((match) => toPlace(match.entry));
+  },
+  reverse: async (coordinates) => {
+    const nearest = entries
+      .map((entry) => ({ entry, distance: distanceKm(coordinates, entry) }))
+      .sort((a, b) => a.distance - b.distance)[0];
+
+    if (!nearest || nearest.distance > REVERSE_MAX_DISTANCE_KM) return null;
+    return { ...toPlace(nearest.entry), ...coordinates };
+  },
+});
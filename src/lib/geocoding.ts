@@ -0,0 +1,90 @@
+import { createGazetteerGeocoder } from "@/lib/gazetteer";
+import { createNominatimGeocoder } from "@/lib/nominatimGeocoder";
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeoPlace extends Coordinates {
+  city: string;
+  region: string | null;
+  label: string;
+}
+
+/**
+ * Turns free text into places and coordinates back into a place. Providers
+ * are swappable so a local gazetteer can stand in for a hosted service.
+ */
+export interface Geocoder {
+  // Whether search may run as the user types; otherwise only once they're done
+  autocomplete: boolean;
+  search: (query: string, limit?: number) => Promise<GeoPlace[]>;
+  reverse: (coordinates: Coordinates) => Promise<GeoPlace | null>;
+}
+
+export const DISTANCE_FILTERS = [5, 10, 25, 50, 100];
+
+let activeGeocoder: Geocoder =
+  import.meta.env.VITE_GEOCODER === "nominatim" ? createNominatimGeocoder() : createGazetteerGeocoder();
+
+export const getGeocoder = () => activeGeocoder;
+
+export const setGeocoder = (geocoder: Geocoder) => {
+  activeGeocoder = geocoder;
+};
+
+export const formatPlace = (city: string, region: string | null) => (region ? `${city}, ${region}` : city);
+
+// Great-circle distance in kilometres, matching public.distance_km
+export const distanceKm = (from: Coordinates, to: Coordinates) => {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6371 * Math.asin(Math.sqrt(a));
+};
+
+export const formatDistance = (km: number) => {
+  if (km < 1) return "Less than 1 km away";
+  return `${km < 10 ? km.toFixed(1) : Math.round(km)} km away`;
+};
+
+export const getCurrentPosition = () =>
+  new Promise<Coordinates>((resolve, reject) => {
+    if (!("geolocation" in navigator)) {
+      reject(new Error("Geolocation is not supported by this browser"));
+      return;
+    }
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }),
+      (error) => reject(new Error(error.message)),
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  });
+
+// Uses the place picked from suggestions, or geocodes typed text as a fallback
+export const resolvePlace = async (label: string, picked: GeoPlace | null) => {
+  if (picked) return picked;
+  if (!label.trim()) return null;
+
+  try {
+    const [match] = await getGeocoder().search(label, 1);
+    return match ?? null;
+  } catch (err) {
+    console.error("Geocoding error:", err);
+    return null;
+  }
+};
+
+// Column values for a post or profile; unmatched text is kept as the label
+export const toLocationColumns = (label: string, place: GeoPlace | null) => ({
+  location: place?.label ?? (label.trim() || null),
+  latitude: place?.latitude ?? null,
+  longitude: place?.longitude ?? null,
+  city: place?.city ?? null,
+  region: place?.region ?? null,
+});
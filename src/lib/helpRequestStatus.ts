@@ -0,0 +1,32 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type HelpRequestStatus = Database["public"]["Enums"]["help_request_status"];
+
+export const HELP_REQUEST_STATUSES = Constants.public.Enums.help_request_status;
+
+export const HELP_REQUEST_STATUS_META: Record<HelpRequestStatus, { label: string; className: string }> = {
+  open: { label: "Open", className: "bg-blue-100 text-blue-700" },
+  in_progress: { label: "In Progress", className: "bg-yellow-100 text-yellow-700" },
+  fulfilled: { label: "Fulfilled", className: "bg-green-100 text-green-700" },
+  closed: { label: "Closed", className: "bg-gray-100 text-gray-700" },
+};
+
+// Moves an owner may make from each status; closed requests can be reopened
+export const HELP_REQUEST_TRANSITIONS: Record<HelpRequestStatus, HelpRequestStatus[]> = {
+  open: ["in_progress", "fulfilled", "closed"],
+  in_progress: ["open", "fulfilled", "closed"],
+  fulfilled: ["closed"],
+  closed: ["open"],
+};
+
+// Requests that still accept offers from helpers
+export const ACTIVE_HELP_REQUEST_STATUSES: HelpRequestStatus[] = ["open", "in_progress"];
+
+export const HELP_REQUEST_STATUS_FILTERS: { value: string; label: string; statuses: HelpRequestStatus[] }[] = [
+  { value: "active", label: "Active", statuses: ACTIVE_HELP_REQUEST_STATUSES },
+  ...HELP_REQUEST_STATUSES.map((status) => ({
+    value: status,
+    label: HELP_REQUEST_STATUS_META[status].label,
+    statuses: [status],
+  })),
+];
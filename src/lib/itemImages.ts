@@ -0,0 +1,170 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type ItemImage = Tables<"item_images">;
+
+export type ItemImageParent = { donationId: string } | { helpRequestId: string };
+
+export const ITEM_IMAGES_BUCKET = "item-images";
+export const MAX_ITEM_IMAGES = 5;
+
+const MAX_IMAGE_DIMENSION = 1600;
+const JPEG_QUALITY = 0.82;
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+// Resized renditions served by Supabase image transformations
+export const CARD_IMAGE_SIZE: ImageSize = { width: 800, height: 450 };
+export const THUMBNAIL_IMAGE_SIZE: ImageSize = { width: 240, height: 240 };
+
+const parentColumns = (parent: ItemImageParent) =>
+  "donationId" in parent
+    ? { donation_id: parent.donationId, help_request_id: null }
+    : { donation_id: null, help_request_id: parent.helpRequestId };
+
+// Full-size URL, or a cropped rendition when a size is given
+export const getItemImageUrl = (path: string, size?: ImageSize) =>
+  supabase.storage
+    .from(ITEM_IMAGES_BUCKET)
+    .getPublicUrl(path, size && { transform: { ...size, resize: "cover" } }).data.publicUrl;
+
+const removeUploads = async (paths: string[]) => {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(ITEM_IMAGES_BUCKET).remove(paths);
+  if (error) console.error("Image cleanup error:", error);
+};
+
+/**
+ * Scales a photo down so its longest side fits MAX_IMAGE_DIMENSION and
+ * re-encodes it as JPEG. Files the browser can't decode are uploaded as-is.
+ */
+export const compressImage = async (file: File): Promise<Blob> => {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+
+    const context = canvas.getContext("2d");
+    if (!context) return file;
+
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, "image/jpeg", JPEG_QUALITY));
+    return blob && blob.size < file.size ? blob : file;
+  } catch (err) {
+    console.error("Image compression error:", err);
+    return file;
+  }
+};
+
+/**
+ * Compresses and uploads photos for a post, then records them in item_images
+ * after any images it already has. Throws if any step fails, after removing
+ * whatever it had already uploaded.
+ */
+export const uploadItemImages = async (
+  userId: string,
+  parent: ItemImageParent,
+  files: File[],
+  startPosition = 0
+) => {
+  const rows = [];
+
+  for (const [index, file] of files.entries()) {
+    const blob = await compressImage(file);
+    const extension = blob.type === "image/jpeg" ? "jpg" : file.name.split(".").pop() || "img";
+    const path = `${userId}/${crypto.randomUUID()}.${extension}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(ITEM_IMAGES_BUCKET)
+      .upload(path, blob, { contentType: blob.type || file.type, cacheControl: "31536000" });
+
+    if (uploadError) {
+      console.error("Image upload error:", uploadError);
+      await removeUploads(rows.map((r) => r.storage_path));
+      throw new Error("Failed to upload image");
+    }
+
+    rows.push({ owner_id: userId, storage_path: path, position: startPosition + index, ...parentColumns(parent) });
+  }
+
+  if (rows.length === 0) return;
+
+  const { error } = await supabase.from("item_images").insert(rows);
+
+  if (error) {
+    console.error("Item images insert error:", error);
+    await removeUploads(rows.map((r) => r.storage_path));
+    throw new Error("Failed to save images");
+  }
+};
+
+export const deleteItemImages = async (images: ItemImage[]) => {
+  if (images.length === 0) return;
+
+  const { error } = await supabase
+    .from("item_images")
+    .delete()
+    .in("id", images.map((image) => image.id));
+
+  if (error) {
+    console.error("Item images delete error:", error);
+    throw new Error("Failed to remove images");
+  }
+
+  const { error: storageError } = await supabase.storage
+    .from(ITEM_IMAGES_BUCKET)
+    .remove(images.map((image) => image.storage_path));
+
+  if (storageError) {
+    console.error("Image storage delete error:", storageError);
+  }
+};
+
+export const fetchItemImages = async (parent: ItemImageParent): Promise<ItemImage[]> => {
+  const query = supabase.from("item_images").select("*");
+  const { data, error } = await ("donationId" in parent
+    ? query.eq("donation_id", parent.donationId)
+    : query.eq("help_request_id", parent.helpRequestId)
+  ).order("position", { ascending: true });
+
+  if (error) {
+    console.error("Item images fetch error:", error);
+    return [];
+  }
+
+  return data || [];
+};
+
+// Card-sized URL of the first image for each of the given posts
+export const fetchCoverImages = async (column: "donation_id" | "help_request_id", ids: string[]) => {
+  const covers = new Map<string, string>();
+  if (ids.length === 0) return covers;
+
+  const { data, error } = await supabase
+    .from("item_images")
+    .select("donation_id, help_request_id, storage_path, position")
+    .in(column, ids)
+    .order("position", { ascending: true });
+
+  if (error) {
+    console.error("Cover images fetch error:", error);
+    return covers;
+  }
+
+  data?.forEach((image) => {
+    const parentId = image[column];
+    if (parentId && !covers.has(parentId)) {
+      covers.set(parentId, getItemImageUrl(image.storage_path, CARD_IMAGE_SIZE));
+    }
+  });
+
+  return covers;
+};
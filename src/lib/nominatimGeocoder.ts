@@ -0,0 +1,59 @@
+import type { GeoPlace, Geocoder } from "@/lib/geocoding";
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+interface NominatimResult {
+  lat: string;
+  lon: string;
+  display_name: string;
+  address?: {
+    city?: string;
+    town?: string;
+    village?: string;
+    county?: string;
+    state?: string;
+  };
+}
+
+const toPlace = (result: NominatimResult): GeoPlace | null => {
+  const address = result.address ?? {};
+  const city = address.city || address.town || address.village || address.county;
+  if (!city) return null;
+
+  const region = address.state || null;
+  return {
+    latitude: Number(result.lat),
+    longitude: Number(result.lon),
+    city,
+    region,
+    label: region ? `${city}, ${region}` : city,
+  };
+};
+
+// OpenStreetMap's public geocoder; enable with VITE_GEOCODER=nominatim. Its usage
+// policy forbids autocomplete, so typed text is only looked up once.
+export const createNominatimGeocoder = (baseUrl = NOMINATIM_URL): Geocoder => ({
+  autocomplete: false,
+  search: async (query, limit = 5) => {
+    const params = new URLSearchParams({ q: query, format: "jsonv2", addressdetails: "1", limit: String(limit) });
+    const response = await fetch(`${baseUrl}/search?${params}`, { headers: { Accept: "application/json" } });
+    if (!response.ok) throw new Error(`Geocoding failed with status ${response.status}`);
+
+    const results: NominatimResult[] = await response.json();
+    return results.map(toPlace).filter((place): place is GeoPlace => place !== null);
+  },
+  reverse: async ({ latitude, longitude }) => {
+    const params = new URLSearchParams({
+      lat: String(latitude),
+      lon: String(longitude),
+      format: "jsonv2",
+      addressdetails: "1",
+      zoom: "10",
+    });
+    const response = await fetch(`${baseUrl}/reverse?${params}`, { headers: { Accept: "application/json" } });
+    if (!response.ok) throw new Error(`Reverse geocoding failed with status ${response.status}`);
+
+    const result: NominatimResult = await response.json();
+    return toPlace(result);
+  },
+});
@@ -0,0 +1,14 @@
+import { Constants, type Database } from "@/integrations/supabase/types";
+
+export type ReportReason = Database["public"]["Enums"]["report_reason"];
+
+export const REPORT_REASONS = Constants.public.Enums.report_reason;
+
+export const REPORT_REASON_META: Record<ReportReason, { label: string; description: string }> = {
+  scam: { label: "Scam or fraud", description: "Asking for money, personal details or anything suspicious" },
+  duplicate: { label: "Duplicate", description: "The same post appears more than once" },
+  unsafe: { label: "Unsafe", description: "Dangerous items, recalled products or risky meetups" },
+  inappropriate: { label: "Inappropriate", description: "Offensive, hateful or explicit content" },
+  spam: { label: "Spam", description: "Advertising or unrelated content" },
+  other: { label: "Other", description: "Something else moderators should look at" },
+};
@@ -0,0 +1,7 @@
+// Loose check that accepts local and international formats, e.g. "+91 98765-43210"
+const PHONE_PATTERN = /^\+?[0-9][0-9\s-]{6,18}[0-9]$/;
+
+export const isValidPhone = (phone: string) => PHONE_PATTERN.test(phone.trim());
+
+// Strips the separators people type so the number can be sent to the SMS provider
+export const normalizePhone = (phone: string) => phone.trim().replace(/[\s-]/g, "");
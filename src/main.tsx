@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
+// Imported ahead of the app so a build without project keys fails with the backend's message
+import { loadBackend } from "@/lib/api/backend";
 import App from "./App.tsx";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+loadBackend().then(() => {
+  createRoot(document.getElementById("root")!).render(<App />);
+});
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import { act, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import AccountSettings from "@/pages/AccountSettings";
+import { fakeSession, fakeSupabase, ok } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+describe("AccountSettings", () => {
+  it("keeps unsaved edits when the session is refreshed", async () => {
+    fakeSupabase.setSession(fakeSession());
+    fakeSupabase.respond("profiles", ok({ id: "user-1", full_name: "Asha Rao", location: null }));
+    fakeSupabase.respond("profile_contacts", ok({ phone: "+919876500001" }));
+    renderPage(<AccountSettings />, { route: "/settings" });
+
+    const phone = await screen.findByDisplayValue("+919876500001");
+    const user = userEvent.setup();
+    await user.clear(phone);
+    await user.type(phone, "+919876500002");
+
+    act(() => fakeSupabase.emitAuth("TOKEN_REFRESHED", fakeSession()));
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(screen.getByLabelText(/phone/i)).toHaveValue("+919876500002");
+    expect(fakeSupabase.queriesFor("profiles")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,225 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeft, User, Phone, Mail, AlertCircle, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import Layout from "@/components/Layout";
+import LocationInput from "@/components/LocationInput";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+import { getErrorMessage } from "@/lib/api/errors";
+import { fetchProfile, saveProfile, type ProfileUpdate } from "@/lib/api/profiles";
+import { isValidPhone } from "@/lib/validation";
+import { resolvePlace, toLocationColumns, type GeoPlace } from "@/lib/geocoding";
+
+const AccountSettings = () => {
+  const { user } = useAuth();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [place, setPlace] = useState<GeoPlace | null>(null);
+  const [formData, setFormData] = useState({
+    fullName: "",
+    phone: "",
+    location: "",
+  });
+
+  // Keyed on the id so a token refresh, which hands out a new user object,
+  // doesn't reload the form over unsaved edits
+  const userId = user?.id;
+  const signupName: string = user?.user_metadata?.full_name || "";
+
+  const loadProfile = useCallback(async () => {
+    if (!userId) return;
+
+    setError(null);
+
+    try {
+      const data = await fetchProfile(userId);
+
+      setFormData({
+        fullName: data?.full_name || signupName,
+        phone: data?.phone || "",
+        location: data?.location || "",
+      });
+
+      if (data && data.latitude !== null && data.longitude !== null && data.city) {
+        setPlace({
+          latitude: data.latitude,
+          longitude: data.longitude,
+          city: data.city,
+          region: data.region,
+          label: data.location || data.city,
+        });
+      }
+    } catch (err) {
+      setError("Failed to load your account details. Please try again.");
+      console.error("Account settings fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, signupName]);
+
+  useEffect(() => {
+    loadProfile();
+  }, [loadProfile]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    if (!formData.fullName.trim()) {
+      toast.error("Please enter your name");
+      return;
+    }
+
+    if (formData.phone.trim() && !isValidPhone(formData.phone)) {
+      toast.error("Please enter a valid phone number");
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      const update: ProfileUpdate = {
+        full_name: formData.fullName.trim(),
+        phone: formData.phone.trim() || null,
+        ...toLocationColumns(formData.location, await resolvePlace(formData.location, place)),
+      };
+
+      await saveProfile(user.id, update);
+
+      toast.success("Account details saved");
+    } catch (err) {
+      toast.error(
+        getErrorMessage(
+          err,
+          { "42501": "Permission denied. Please ensure you're logged in." },
+          "Failed to save your details. Please try again."
+        )
+      );
+      console.error("Profile save error:", err);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground text-lg mb-4">{error}</div>
+            <Button variant="hero" onClick={loadProfile}>Try Again</Button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          <Link to="/profile" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary mb-6">
+            <ArrowLeft className="h-4 w-4" />
+            Back to profile
+          </Link>
+
+          {/* Header */}
+          <div className="text-center mb-8 animate-slide-up">
+            <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-hero shadow-glow mb-4">
+              <Settings className="h-8 w-8 text-primary-foreground" />
+            </div>
+            <h1 className="text-3xl font-bold text-foreground mb-2">Account Settings</h1>
+            <p className="text-muted-foreground">
+              Keep your contact details up to date
+            </p>
+          </div>
+
+          {/* Form */}
+          <form onSubmit={handleSubmit} className="space-y-8 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+            <div className="bg-card rounded-xl border border-border p-6 shadow-soft space-y-6">
+              <h2 className="text-lg font-semibold text-foreground border-b border-border pb-3">
+                Personal Details
+              </h2>
+
+              <div className="space-y-2">
+                <Label htmlFor="email">Email Address</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input id="email" type="email" className="pl-10 h-12" value={user?.email || ""} disabled />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="fullName">Full Name</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="fullName"
+                    placeholder="John Doe"
+                    className="pl-10 h-12"
+                    value={formData.fullName}
+                    onChange={(e) => setFormData({ ...formData, fullName: e.target.value })}
+                    maxLength={100}
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="phone">Phone Number (Optional)</Label>
+                <div className="relative">
+                  <Phone className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="phone"
+                    type="tel"
+                    placeholder="+91 9876543210"
+                    className="pl-10 h-12"
+                    value={formData.phone}
+                    onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    maxLength={20}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="location">Location (Optional)</Label>
+                <LocationInput
+                  id="location"
+                  value={formData.location}
+                  place={place}
+                  onChange={(location, picked) => {
+                    setFormData({ ...formData, location });
+                    setPlace(picked);
+                  }}
+                />
+              </div>
+            </div>
+
+            <Button type="submit" variant="hero" size="xl" className="w-full" disabled={saving}>
+              {saving ? "Saving..." : "Save Changes"}
+            </Button>
+          </form>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default AccountSettings;
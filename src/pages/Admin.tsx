@@ -0,0 +1,152 @@
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Flag, Gift, HelpCircle, ShieldAlert, ShieldCheck, Tags, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from "@/components/ui/sidebar";
+import Layout from "@/components/Layout";
+import AdminPostsTable from "@/components/AdminPostsTable";
+import AdminReportsQueue from "@/components/AdminReportsQueue";
+import AdminUsersTable from "@/components/AdminUsersTable";
+import AdminCategoriesManager from "@/components/AdminCategoriesManager";
+import LocalBackendNotice from "@/components/LocalBackendNotice";
+import { useAuth } from "@/hooks/useAuth";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+
+const SECTIONS = [
+  { value: "reports", label: "Reports", icon: Flag },
+  { value: "donations", label: "Donations", icon: Gift },
+  { value: "requests", label: "Help Requests", icon: HelpCircle },
+  { value: "users", label: "Users", icon: Users },
+  { value: "categories", label: "Categories", icon: Tags },
+] as const;
+
+type Section = (typeof SECTIONS)[number]["value"];
+
+const Admin = () => {
+  const navigate = useNavigate();
+  const { isAdmin, isStaff, rolesLoading } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const section: Section = SECTIONS.find((s) => s.value === searchParams.get("section"))?.value ?? "reports";
+
+  // Each section keeps its own filters, so start clean when switching
+  const selectSection = (value: Section) => {
+    setSearchParams(value === "reports" ? {} : { section: value });
+  };
+
+  if (rolesLoading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (!isStaff) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <ShieldAlert className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground text-lg mb-4">
+              Only administrators and moderators can access this page.
+            </div>
+            <Button variant="hero" onClick={() => navigate("/")}>Go Home</Button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const current = SECTIONS.find((s) => s.value === section) ?? SECTIONS[0];
+
+  return (
+    <Layout>
+      <SidebarProvider className="min-h-0">
+        <Sidebar collapsible="none" className="hidden md:flex border-r border-border">
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupLabel>{isAdmin ? "Administration" : "Moderation"}</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {SECTIONS.map((item) => (
+                    <SidebarMenuItem key={item.value}>
+                      <SidebarMenuButton isActive={item.value === section} onClick={() => selectSection(item.value)}>
+                        <item.icon />
+                        <span>{item.label}</span>
+                      </SidebarMenuButton>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </SidebarContent>
+        </Sidebar>
+
+        <div className="flex-1 min-w-0 px-4 py-8 md:px-8">
+          {/* Header */}
+          <div className="flex items-center gap-3 mb-6">
+            <div className="flex h-10 w-10 items-center justify-center rounded-xl gradient-hero shadow-soft">
+              <ShieldCheck className="h-5 w-5 text-primary-foreground" />
+            </div>
+            <div>
+              <h1 className="text-2xl font-bold text-foreground">{current.label}</h1>
+              <p className="text-sm text-muted-foreground">
+                {section === "users"
+                  ? "Manage member accounts"
+                  : section === "categories"
+                    ? "Manage the categories members post under"
+                    : section === "reports"
+                    ? "Posts flagged by the community, most reported first"
+                    : "Review and moderate community posts"}
+              </p>
+            </div>
+          </div>
+
+          {/* Section switcher for small screens, where the sidebar is hidden */}
+          <div className="flex gap-2 mb-6 md:hidden overflow-x-auto">
+            {SECTIONS.map((item) => (
+              <Button
+                key={item.value}
+                variant={item.value === section ? "default" : "outline"}
+                size="sm"
+                className="gap-2 flex-shrink-0"
+                onClick={() => selectSection(item.value)}
+              >
+                <item.icon className="h-4 w-4" />
+                {item.label}
+              </Button>
+            ))}
+          </div>
+
+          {/* Only categories go through the local backend; the rest read hosted tables */}
+          {section === "categories" ? (
+            <AdminCategoriesManager />
+          ) : IS_LOCAL_BACKEND ? (
+            <LocalBackendNotice feature="Reports, member roles and post moderation" />
+          ) : section === "reports" ? (
+            <AdminReportsQueue />
+          ) : section === "users" ? (
+            <AdminUsersTable />
+          ) : (
+            <AdminPostsTable key={section} kind={section} />
+          )}
+        </div>
+      </SidebarProvider>
+    </Layout>
+  );
+};
+
+export default Admin;
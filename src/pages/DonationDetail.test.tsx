@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { screen, within } from "@testing-library/react";
+import DonationDetail from "@/pages/DonationDetail";
+import type { Donation } from "@/lib/api/donations";
+import { fakeSupabase, hasStep, ok } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const donation = (overrides: Partial<Donation> = {}): Donation => ({
+  id: "donation-1",
+  user_id: "user-2",
+  title: "Winter jackets",
+  category: "clothing",
+  subcategory: null,
+  details: {},
+  description: "Three warm jackets, size M",
+  location: "Pune",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "reserved",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: "2026-10-01T09:00:00Z",
+  updated_at: "2026-10-02T09:00:00Z",
+  ...overrides,
+});
+
+describe("DonationDetail", () => {
+  it("shows the donor and the status history", async () => {
+    fakeSupabase.respond("donations", ok(donation()));
+    fakeSupabase.respond(
+      "profiles",
+      ok({ id: "user-2", full_name: "Priya Shah", location: null, created_at: "2026-01-01T00:00:00Z" })
+    );
+    fakeSupabase.respond(
+      "donation_status_events",
+      ok([
+        { id: "event-1", status: "available", created_at: "2026-10-01T09:00:00Z" },
+        { id: "event-2", status: "reserved", created_at: "2026-10-02T09:00:00Z" },
+      ])
+    );
+    renderPage(<DonationDetail />, { route: "/donate/donation-1", path: "/donate/:id" });
+
+    expect(await screen.findByText("Priya Shah")).toBeInTheDocument();
+
+    const history = screen.getByRole("heading", { name: "Status History" }).parentElement!;
+    expect(await within(history).findByText("Available")).toBeInTheDocument();
+    expect(within(history).getByText("Reserved")).toBeInTheDocument();
+
+    const [query] = fakeSupabase.queriesFor("donation_status_events");
+    expect(hasStep(query, "eq", "donation_id", "donation-1")).toBe(true);
+    expect(hasStep(query, "order", "created_at", { ascending: true })).toBe(true);
+  });
+});
@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, MapPin, Clock, User, Edit, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Layout from "@/components/Layout";
+import ClaimDonationDialog from "@/components/ClaimDonationDialog";
+import MessageButton from "@/components/MessageButton";
+import ShareButtons from "@/components/ShareButtons";
+import StatusHistory from "@/components/StatusHistory";
+import ItemImageGallery from "@/components/ItemImageGallery";
+import CategoryBadge from "@/components/CategoryBadge";
+import CategoryDetails from "@/components/CategoryDetails";
+import { useAuth } from "@/hooks/useAuth";
+import { useDonation, useDonationHistory, useDonationImages } from "@/hooks/useDonations";
+import { usePublicProfile } from "@/hooks/useProfiles";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import { DONATION_STATUS_META } from "@/lib/donationStatus";
+import { format, formatDistanceToNow } from "date-fns";
+
+const DonationDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const donationQuery = useDonation(id);
+  const donation = donationQuery.data ?? null;
+  const { data: history = [] } = useDonationHistory(id);
+  const { data: images = [] } = useDonationImages(id);
+  const { data: poster = null } = usePublicProfile(donation?.user_id);
+  const [claimOpen, setClaimOpen] = useState(false);
+
+  if (donationQuery.isPending) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading donation...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (donationQuery.isError || !donation) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground text-lg mb-4">
+              {donationQuery.isError
+                ? "Failed to load this donation. Please try again."
+                : "This donation doesn't exist or has been removed."}
+            </div>
+            {donationQuery.isError ? (
+              <Button variant="hero" onClick={() => donationQuery.refetch()}>Try Again</Button>
+            ) : (
+              <Link to="/donate">
+                <Button variant="hero">Browse Donations</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isOwner = user?.id === donation.user_id;
+  const statusMeta = DONATION_STATUS_META[donation.status];
+  const posterName = poster?.full_name || "Anonymous";
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <Link to="/donate" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary mb-6">
+            <ArrowLeft className="h-4 w-4" />
+            Back to donations
+          </Link>
+
+          <div className="grid lg:grid-cols-3 gap-6">
+            {/* Main Content */}
+            <div className="lg:col-span-2 space-y-6 animate-slide-up">
+              <ItemImageGallery images={images} title={donation.title} />
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <div className="flex flex-wrap gap-2 mb-4">
+                  <CategoryBadge category={donation.category} subcategory={donation.subcategory} className="font-medium" />
+                  <Badge className={`${statusMeta.className} border-0 text-xs font-medium`}>
+                    {statusMeta.label}
+                  </Badge>
+                </div>
+
+                <h1 className="text-3xl font-bold text-foreground mb-4">{donation.title}</h1>
+
+                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mb-6">
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    {donation.location || "Not specified"}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    Posted {formatDistanceToNow(new Date(donation.created_at), { addSuffix: true })}
+                  </span>
+                </div>
+
+                <p className="text-foreground whitespace-pre-line">{donation.description}</p>
+                <CategoryDetails category={donation.category} details={donation.details} className="mt-6" />
+              </div>
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <h2 className="text-lg font-semibold text-foreground mb-4">Status History</h2>
+                <StatusHistory
+                  events={history.map((event) => ({
+                    id: event.id,
+                    label: DONATION_STATUS_META[event.status].label,
+                    className: DONATION_STATUS_META[event.status].className,
+                    createdAt: event.created_at,
+                  }))}
+                />
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="space-y-6 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft space-y-4">
+                {isOwner ? (
+                  <Link to={`/donate/${donation.id}/edit`}>
+                    <Button variant="outline" className="w-full">
+                      <Edit className="h-4 w-4" />
+                      Edit Donation
+                    </Button>
+                  </Link>
+                ) : IS_LOCAL_BACKEND ? null : (
+                  <Button
+                    variant="warm"
+                    className="w-full"
+                    disabled={donation.status !== "available"}
+                    onClick={() => setClaimOpen(true)}
+                  >
+                    {donation.status === "available" ? "Request This Item" : `Item ${statusMeta.label}`}
+                  </Button>
+                )}
+                {!isOwner && (
+                  <MessageButton
+                    recipientId={donation.user_id}
+                    donationId={donation.id}
+                    label="Message Donor"
+                    className="w-full"
+                  />
+                )}
+                <ShareButtons title={donation.title} path={`/donate/${donation.id}`} />
+              </div>
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <h2 className="text-lg font-semibold text-foreground mb-4">Donated by</h2>
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-secondary">
+                    <User className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">{posterName}</p>
+                    {poster && (
+                      <p className="text-xs text-muted-foreground">
+                        Member since {format(new Date(poster.created_at), "MMM yyyy")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {poster?.location && (
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    {poster.location}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ClaimDonationDialog
+        donation={donation}
+        open={claimOpen}
+        onOpenChange={setClaimOpen}
+      />
+    </Layout>
+  );
+};
+
+export default DonationDetail;
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { toast } from "sonner";
+import DonationForm from "@/pages/DonationForm";
+import type { Donation } from "@/lib/api/donations";
+import { fakeSession, fakeSupabase, hasStep, ok, type FakeQuery } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const donation: Donation = {
+  id: "donation-1",
+  user_id: "user-1",
+  title: "Winter jackets",
+  category: "clothing",
+  subcategory: null,
+  details: {},
+  description: "Three warm jackets, size M",
+  location: "Pune",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "available",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+const isWrite = (query: FakeQuery) => ["insert", "update"].includes(query.steps[0]?.method);
+
+// Submits without the browser's required-field check so the page's own validation runs
+const submitForm = () => fireEvent.submit(screen.getByRole("button", { name: /submit donation|save changes/i }).closest("form")!);
+
+const fillIn = async ({ category = true } = {}) => {
+  const user = userEvent.setup();
+  await user.type(await screen.findByLabelText("Title"), "Winter jackets");
+  if (category) {
+    await user.click(screen.getByRole("combobox"));
+    await user.click(await screen.findByRole("option", { name: "Clothing" }));
+  }
+  await user.type(screen.getByLabelText("Description"), "Three warm jackets, size M");
+  await user.type(screen.getByLabelText("Location"), "Pune");
+};
+
+describe("DonationForm", () => {
+  beforeEach(() => {
+    fakeSupabase.setSession(fakeSession());
+  });
+
+  it("asks for a title first", async () => {
+    renderPage(<DonationForm />, { route: "/donate/new" });
+    await screen.findByLabelText("Title");
+
+    submitForm();
+
+    expect(toast.error).toHaveBeenCalledWith("Please enter a title");
+  });
+
+  it("asks for a category before saving", async () => {
+    renderPage(<DonationForm />, { route: "/donate/new" });
+
+    await fillIn({ category: false });
+    submitForm();
+
+    expect(toast.error).toHaveBeenCalledWith("Please select a category");
+    expect(fakeSupabase.queriesFor("donations").filter(isWrite)).toHaveLength(0);
+  });
+
+  it("creates the donation and shows the success page", async () => {
+    fakeSupabase.respond("donations", ok({ id: "donation-1" }));
+    renderPage(<DonationForm />, { route: "/donate/new" });
+
+    await fillIn();
+    submitForm();
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/donation-success"));
+    const [insert] = fakeSupabase.queriesFor("donations").filter(isWrite);
+    expect(insert.steps[0].args[0]).toMatchObject({
+      user_id: "user-1",
+      title: "Winter jackets",
+      category: "clothing",
+      description: "Three warm jackets, size M",
+    });
+    expect(toast.success).toHaveBeenCalledWith("Donation submitted successfully!");
+  });
+
+  it("saves the answers to the category's fields", async () => {
+    const user = userEvent.setup();
+    fakeSupabase.respond("donations", ok({ id: "donation-1" }));
+    renderPage(<DonationForm />, { route: "/donate/new" });
+
+    await fillIn();
+    await user.click(await screen.findByLabelText("Size (Optional)"));
+    await user.click(await screen.findByRole("option", { name: "M" }));
+    submitForm();
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/donation-success"));
+    const [insert] = fakeSupabase.queriesFor("donations").filter(isWrite);
+    expect(insert.steps[0].args[0]).toMatchObject({ category: "clothing", details: { size: "M" } });
+  });
+
+  it.each([
+    ["23503", "User profile not found. Please try logging out and back in."],
+    ["42501", "Permission denied. Please ensure you're logged in."],
+    ["XX000", "Failed to submit donation. Please try again."],
+  ])("explains a %s insert error", async (code, message) => {
+    fakeSupabase.respond("donations", { error: { code, message: "insert failed" } });
+    renderPage(<DonationForm />, { route: "/donate/new" });
+
+    await fillIn();
+    submitForm();
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith(message));
+    expect(screen.getByTestId("location")).toHaveTextContent("/donate/new");
+  });
+
+  it("prefills an existing donation and reports a 42501 on update", async () => {
+    fakeSupabase.respond("donations", (query) =>
+      isWrite(query) ? { error: { code: "42501", message: "denied" } } : ok(donation)
+    );
+    renderPage(<DonationForm />, { route: "/donate/donation-1/edit", path: "/donate/:id/edit" });
+
+    expect(await screen.findByDisplayValue("Winter jackets")).toBeInTheDocument();
+    submitForm();
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith("You don't have permission to edit this donation")
+    );
+    const [update] = fakeSupabase.queriesFor("donations").filter(isWrite);
+    expect(hasStep(update, "eq", "id", "donation-1")).toBe(true);
+  });
+
+  it("turns away members editing someone else's donation", async () => {
+    fakeSupabase.respond("donations", ok({ ...donation, user_id: "user-2" }));
+    renderPage(<DonationForm />, { route: "/donate/donation-1/edit", path: "/donate/:id/edit" });
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/profile"));
+    expect(toast.error).toHaveBeenCalledWith("You can only edit your own donations");
+  });
+});
@@ -1,37 +1,115 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { Gift, MapPin } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Gift } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Layout from "@/components/Layout";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
-
-const CATEGORIES = ["Clothing", "Electronics", "Education", "Food", "Services", "Other"];
+import { useCreateDonation, useDonation, useUpdateDonation } from "@/hooks/useDonations";
+import ItemImagePicker from "@/components/ItemImagePicker";
+import LocationInput from "@/components/LocationInput";
+import CategorySelect from "@/components/CategorySelect";
+import CategoryFieldsInput from "@/components/CategoryFieldsInput";
+import { useCategories } from "@/hooks/useCategories";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import { getErrorMessage } from "@/lib/api/errors";
+import { fetchDonationImages } from "@/lib/api/donations";
+import { donationKeys } from "@/lib/api/queryKeys";
+import { parsePostDetails, toPostDetails, type PostDetails } from "@/lib/categoryFields";
+import { resolvePlace, toLocationColumns, type GeoPlace } from "@/lib/geocoding";
+import { deleteItemImages, uploadItemImages, type ItemImage } from "@/lib/itemImages";
 
 const DonationForm = () => {
   const navigate = useNavigate();
-  const { user, loading: authLoading } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+  const { user, isStaff, rolesLoading } = useAuth();
+  const { registry } = useCategories();
+  const queryClient = useQueryClient();
+  const { data: donation, isPending: loadingDonation } = useDonation(id);
+  const createDonation = useCreateDonation();
+  const updateDonation = useUpdateDonation();
   const [loading, setLoading] = useState(false);
+  const [prefilling, setPrefilling] = useState(isEditing);
+  const [place, setPlace] = useState<GeoPlace | null>(null);
+  const [images, setImages] = useState<ItemImage[]>([]);
+  const [removedImages, setRemovedImages] = useState<ItemImage[]>([]);
+  const [newImages, setNewImages] = useState<File[]>([]);
+  // Staff editing someone else's post; photos stay with the owner
+  const [moderating, setModerating] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     category: "",
+    subcategory: null as string | null,
+    details: {} as PostDetails,
     description: "",
     location: "",
   });
 
+  useEffect(() => {
+    if (!id || !user || rolesLoading || loadingDonation || !prefilling) return;
+
+    if (!donation) {
+      toast.error("Donation not found");
+      navigate("/profile");
+      return;
+    }
+
+    if (donation.user_id !== user.id && !isStaff) {
+      toast.error("You can only edit your own donations");
+      navigate("/profile");
+      return;
+    }
+    setModerating(donation.user_id !== user.id);
+
+    setFormData({
+      title: donation.title,
+      category: donation.category,
+      subcategory: donation.subcategory,
+      details: parsePostDetails(donation.details),
+      description: donation.description || "",
+      location: donation.location || "",
+    });
+    if (donation.latitude !== null && donation.longitude !== null && donation.city) {
+      setPlace({
+        latitude: donation.latitude,
+        longitude: donation.longitude,
+        city: donation.city,
+        region: donation.region,
+        label: donation.location || donation.city,
+      });
+    }
+    fetchDonationImages(id).then((existing) => {
+      setImages(existing);
+      setPrefilling(false);
+    });
+  }, [id, user, isStaff, rolesLoading, donation, loadingDonation, prefilling, navigate]);
+
+  // Photos are saved after the post itself; a failure here keeps the post
+  const saveImages = async (parentId: string) => {
+    if (!user || moderating || IS_LOCAL_BACKEND) return true;
+
+    try {
+      await deleteItemImages(removedImages);
+      const nextPosition = images.reduce((max, image) => Math.max(max, image.position + 1), 0);
+      await uploadItemImages(user.id, { donationId: parentId }, newImages, nextPosition);
+      return true;
+    } catch (err) {
+      console.error("Image save error:", err);
+      return false;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: donationKeys.images(parentId) });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!user) {
-      toast.error("Please sign in to submit a donation");
-      navigate("/login");
-      return;
-    }
+    if (!user) return;
 
     if (!formData.title.trim()) {
       toast.error("Please enter a title");
@@ -56,36 +134,62 @@ const DonationForm = () => {
     setLoading(true);
 
     try {
-      const { error } = await supabase.from("donations").insert({
-        user_id: user.id,
+      const fields = {
         title: formData.title.trim(),
         description: formData.description.trim(),
         category: formData.category,
-        location: formData.location.trim(),
-      });
+        subcategory: formData.subcategory,
+        // Answers are kept as typed until the category's fields are known
+        details: registry.find(formData.category)
+          ? toPostDetails(registry.fields(formData.category), formData.details)
+          : formData.details,
+        ...toLocationColumns(formData.location, await resolvePlace(formData.location, place)),
+      };
 
-      if (error) {
-        if (error.code === "23503") {
-          toast.error("User profile not found. Please try logging out and back in.");
-        } else if (error.code === "42501") {
-          toast.error("Permission denied. Please ensure you're logged in.");
+      if (isEditing) {
+        await updateDonation.mutateAsync({ id: id!, values: fields });
+
+        if (await saveImages(id!)) {
+          toast.success("Donation updated successfully!");
         } else {
-          toast.error("Failed to submit donation. Please try again.");
+          toast.error("Donation updated, but some photos couldn't be saved. Please try again.");
         }
-        console.error("Donation error:", error);
-      } else {
+        navigate(moderating ? "/admin?section=donations" : "/profile");
+        return;
+      }
+
+      const created = await createDonation.mutateAsync({ user_id: user.id, ...fields });
+
+      if (await saveImages(created.id)) {
         toast.success("Donation submitted successfully!");
-        navigate("/donation-success");
+      } else {
+        toast.error("Donation submitted, but some photos couldn't be uploaded. You can add them by editing it.");
       }
+      navigate("/donation-success");
     } catch (err) {
-      toast.error("An unexpected error occurred. Please try again.");
-      console.error("Unexpected error:", err);
+      toast.error(
+        isEditing
+          ? getErrorMessage(
+              err,
+              { "42501": "You don't have permission to edit this donation" },
+              "Failed to update donation. Please try again."
+            )
+          : getErrorMessage(
+              err,
+              {
+                "23503": "User profile not found. Please try logging out and back in.",
+                "42501": "Permission denied. Please ensure you're logged in.",
+              },
+              "Failed to submit donation. Please try again."
+            )
+      );
+      console.error("Donation save error:", err);
     } finally {
       setLoading(false);
     }
   };
 
-  if (authLoading) {
+  if (prefilling) {
     return (
       <Layout>
         <div className="container mx-auto px-4 py-8">
@@ -97,19 +201,6 @@ const DonationForm = () => {
     );
   }
 
-  if (!user) {
-    return (
-      <Layout>
-        <div className="container mx-auto px-4 py-8">
-          <div className="text-center py-16">
-            <div className="text-muted-foreground text-lg mb-4">Please sign in to offer a donation</div>
-            <Button variant="hero" onClick={() => navigate("/login")}>Sign In</Button>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
   return (
     <Layout>
       <div className="container mx-auto px-4 py-8">
@@ -119,9 +210,13 @@ const DonationForm = () => {
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-hero shadow-glow mb-4">
               <Gift className="h-8 w-8 text-primary-foreground" />
             </div>
-            <h1 className="text-3xl font-bold text-foreground mb-2">Offer a Donation</h1>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              {isEditing ? "Edit Donation" : "Offer a Donation"}
+            </h1>
             <p className="text-muted-foreground">
-              Fill out the form below to offer an item or service you'd like to donate.
+              {isEditing
+                ? "Update the details of your donation below."
+                : "Fill out the form below to offer an item or service you'd like to donate."}
             </p>
           </div>
 
@@ -146,24 +241,17 @@ const DonationForm = () => {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select
-                  value={formData.category}
-                  onValueChange={(value) => setFormData({ ...formData, category: value })}
-                >
-                  <SelectTrigger className="h-12">
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {CATEGORIES.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              <CategorySelect
+                category={formData.category}
+                subcategory={formData.subcategory}
+                onChange={(category, subcategory) => setFormData({ ...formData, category, subcategory })}
+              />
+
+              <CategoryFieldsInput
+                category={formData.category}
+                values={formData.details}
+                onChange={(details) => setFormData({ ...formData, details })}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
@@ -180,23 +268,40 @@ const DonationForm = () => {
 
               <div className="space-y-2">
                 <Label htmlFor="location">Location</Label>
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                  <Input
-                    id="location"
-                    placeholder="e.g., Pune, Maharashtra"
-                    className="pl-10 h-12"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    maxLength={100}
-                    required
-                  />
-                </div>
+                <LocationInput
+                  id="location"
+                  value={formData.location}
+                  place={place}
+                  onChange={(location, picked) => {
+                    setFormData({ ...formData, location });
+                    setPlace(picked);
+                  }}
+                  required
+                />
               </div>
             </div>
 
+            {/* Photos; the local backend has no storage bucket for them */}
+            {!moderating && !IS_LOCAL_BACKEND && (
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft space-y-4">
+                <div className="border-b border-border pb-3">
+                  <h2 className="text-lg font-semibold text-foreground">Photos</h2>
+                  <p className="text-sm text-muted-foreground">Show the condition of the item. Up to 5 photos.</p>
+                </div>
+                <ItemImagePicker
+                  existing={images}
+                  files={newImages}
+                  onFilesChange={setNewImages}
+                  onRemoveExisting={(image) => {
+                    setImages(images.filter((i) => i.id !== image.id));
+                    setRemovedImages([...removedImages, image]);
+                  }}
+                />
+              </div>
+            )}
+
             <Button type="submit" variant="hero" size="xl" className="w-full" disabled={loading}>
-              {loading ? "Submitting..." : "Submit Donation"}
+              {loading ? (isEditing ? "Saving..." : "Submitting...") : (isEditing ? "Save Changes" : "Submit Donation")}
             </Button>
           </form>
         </div>
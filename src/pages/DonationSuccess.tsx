@@ -13,12 +13,12 @@ const DonationSuccess = () => {
     {
       icon: MessageSquare,
       title: "Someone requests it",
-      description: "When someone wants your donation, you'll receive a notification with their details.",
+      description: "When someone wants your donation, you'll get a notification and can approve their request.",
     },
     {
       icon: Gift,
       title: "Coordinate handover",
-      description: "You'll arrange a convenient time and place to hand over your donation.",
+      description: "Use Messages to arrange a convenient time and place to hand over your donation.",
     },
   ];
 
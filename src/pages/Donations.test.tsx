@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import Donations from "@/pages/Donations";
+import type { Donation } from "@/lib/api/donations";
+import { fakeSupabase, hasStep, ok } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const donation = (overrides: Partial<Donation> = {}): Donation => ({
+  id: "donation-1",
+  user_id: "user-2",
+  title: "Winter jackets",
+  category: "clothing",
+  subcategory: null,
+  details: {},
+  description: "Three warm jackets, size M",
+  location: "Pune",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "available",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+const lastFeedQuery = (target = "donations") => fakeSupabase.queriesFor(target).slice(-1)[0];
+
+describe("Donations", () => {
+  it("lists available donations with their authors", async () => {
+    fakeSupabase.respond("donations", { data: [donation()], count: 1 });
+    fakeSupabase.respond("profiles", ok([{ id: "user-2", full_name: "Priya Shah" }]));
+    renderPage(<Donations />, { route: "/donate" });
+
+    expect(await screen.findByText("Winter jackets")).toBeInTheDocument();
+    expect(screen.getByText("Priya Shah")).toBeInTheDocument();
+
+    const query = lastFeedQuery();
+    expect(hasStep(query, "eq", "status", "available")).toBe(true);
+    expect(hasStep(query, "is", "hidden_at", null)).toBe(true);
+    expect(hasStep(query, "range", 0, 11)).toBe(true);
+  });
+
+  it("applies the category and location from the URL", async () => {
+    renderPage(<Donations />, { route: "/donate?category=food&location=Pune,%20MH&page=2" });
+
+    expect(await screen.findByText("No donations found")).toBeInTheDocument();
+    expect(screen.getByText("Try adjusting your search or filters")).toBeInTheDocument();
+
+    const query = lastFeedQuery();
+    expect(hasStep(query, "eq", "category", "food")).toBe(true);
+    expect(hasStep(query, "ilike", "location", "%Pune MH%")).toBe(true);
+    expect(hasStep(query, "range", 12, 23)).toBe(true);
+  });
+
+  it("filters on the category's fields and drops them with the category", async () => {
+    const user = userEvent.setup();
+    renderPage(<Donations />, { route: "/donate?category=clothing&details.size=M" });
+    await screen.findByText("No donations found");
+
+    expect(hasStep(lastFeedQuery(), "contains", "details", { size: "M" })).toBe(true);
+    expect(await screen.findByRole("combobox", { name: "Size" })).toHaveTextContent("M");
+
+    await user.click(screen.getByRole("button", { name: "Food" }));
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/donate\?category=food$/));
+    expect(hasStep(lastFeedQuery(), "contains", "details", { size: "M" })).toBe(false);
+  });
+
+  it("sends search terms through the ranked search", async () => {
+    renderPage(<Donations />, { route: "/donate?q=jacket" });
+
+    await screen.findByText("No donations found");
+
+    const [search] = fakeSupabase.queriesFor("rpc:search_donations");
+    expect(search.steps[0].args[0]).toMatchObject({ search_query: "jacket" });
+    expect(hasStep(search, "eq", "status", "available")).toBe(true);
+    expect(fakeSupabase.queriesFor("donations")).toHaveLength(0);
+  });
+
+  it("moves a category choice into the URL and back to page one", async () => {
+    const user = userEvent.setup();
+    renderPage(<Donations />, { route: "/donate?page=3" });
+    await screen.findByText("No donations found");
+
+    await user.click(await screen.findByRole("button", { name: "Electronics" }));
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/donate\?category=electronics$/));
+    await waitFor(() => expect(hasStep(lastFeedQuery(), "eq", "category", "electronics")).toBe(true));
+  });
+
+  it("debounces typed searches into the URL", async () => {
+    const user = userEvent.setup();
+    renderPage(<Donations />, { route: "/donate" });
+    await screen.findByText("No donations found");
+
+    await user.type(screen.getByPlaceholderText("Search donations..."), "books");
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/donate?q=books"));
+  });
+
+  it("keeps a trailing space typed before the search pauses", async () => {
+    const user = userEvent.setup();
+    renderPage(<Donations />, { route: "/donate" });
+    await screen.findByText("No donations found");
+
+    const input = screen.getByPlaceholderText("Search donations...");
+    await user.type(input, "red ");
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/donate?q=red"));
+    await user.type(input, "shoes");
+
+    expect(input).toHaveValue("red shoes");
+  });
+
+  it("offers a retry when the feed fails to load", async () => {
+    const user = userEvent.setup();
+    fakeSupabase.respond("donations", { error: { code: "XX000", message: "boom" } });
+    renderPage(<Donations />, { route: "/donate" });
+
+    expect(await screen.findByText("Failed to load donations. Please try again.")).toBeInTheDocument();
+
+    fakeSupabase.respond("donations", { data: [donation()], count: 1 });
+    await user.click(screen.getByRole("button", { name: "Try Again" }));
+
+    expect(await screen.findByText("Winter jackets")).toBeInTheDocument();
+  });
+});
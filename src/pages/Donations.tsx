@@ -1,103 +1,113 @@
-import { useState, useEffect } from "react";
-import { Search, AlertCircle } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Search, MapPin, AlertCircle, LayoutGrid, Map as MapIcon } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Layout from "@/components/Layout";
 import DonationCard from "@/components/DonationCard";
-import { Link } from "react-router-dom";
+import ClaimDonationDialog from "@/components/ClaimDonationDialog";
+import ReportDialog, { type ReportTarget } from "@/components/ReportDialog";
+import FeedPagination from "@/components/FeedPagination";
+import ItemMap from "@/components/ItemMap";
+import CategoryFilter from "@/components/CategoryFilter";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useDonationMapItems, useDonations } from "@/hooks/useDonations";
+import { useMyLocation } from "@/hooks/useMyLocation";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { formatDistanceToNow } from "date-fns";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import type { Donation } from "@/lib/api/donations";
+import type { FeedFilters } from "@/lib/api/types";
+import { DISTANCE_FILTERS, distanceKm, formatDistance } from "@/lib/geocoding";
+import {
+  FEED_PAGE_SIZE,
+  SEARCH_DEBOUNCE_MS,
+  applyFilterParams,
+  clearDetailParams,
+  getDetailFilters,
+  parsePage,
+  toDetailParam,
+} from "@/lib/feedFilters";
 
-const CATEGORIES = ["All", "Clothing", "Electronics", "Education", "Food", "Services", "Other"];
+const Donations = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const locationQuery = searchParams.get("location") ?? "";
+  const selectedCategory = searchParams.get("category");
+  const selectedSubcategory = searchParams.get("subcategory");
+  // Field filters only apply within a category
+  const selectedDetails = selectedCategory ? getDetailFilters(searchParams) : {};
+  const radiusKm = Number(searchParams.get("within")) || null;
+  const page = parsePage(searchParams.get("page"));
+  const view = searchParams.get("view") === "map" ? "map" : "list";
 
-interface Donation {
-  id: string;
-  title: string;
-  description: string | null;
-  category: string;
-  location: string | null;
-  created_at: string;
-  user_id: string;
-}
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [locationInput, setLocationInput] = useState(locationQuery);
+  const [claimTarget, setClaimTarget] = useState<Donation | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
-interface Profile {
-  id: string;
-  full_name: string | null;
-}
+  const { origin, error: locationError } = useMyLocation(radiusKm !== null);
 
-const Donations = () => {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("All");
-  const [donations, setDonations] = useState<(Donation & { userName: string })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const filters: FeedFilters = {
+    search: searchQuery,
+    location: locationQuery,
+    category: selectedCategory,
+    subcategory: selectedSubcategory,
+    details: selectedDetails,
+    radiusKm,
+    origin,
+  };
+  // Wait for the user's position before applying a distance filter
+  const ready = radiusKm === null || origin !== null;
+  const feedQuery = useDonations(filters, page, ready && view === "list");
+  const mapQuery = useDonationMapItems(filters, ready && view === "map");
+  const activeQuery = view === "map" ? mapQuery : feedQuery;
+
+  const donations = feedQuery.data?.items ?? [];
+  const totalCount = feedQuery.data?.count ?? 0;
+  const mapItems = mapQuery.data ?? [];
+  const loading = activeQuery.isPending;
+  const error = activeQuery.isError ? "Failed to load donations. Please try again." : null;
 
+  const hasFilters = Boolean(searchQuery || locationQuery || radiusKm || selectedCategory);
+  const totalPages = Math.ceil(totalCount / FEED_PAGE_SIZE);
+
+  const updateFilters = useCallback(
+    (updates: Record<string, string | null>) => {
+      setSearchParams((current) => applyFilterParams(current, updates), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  // Without a location the distance filter can't apply, so drop it
   useEffect(() => {
-    fetchDonations();
-  }, []);
-
-  const fetchDonations = async () => {
-    setError(null);
-    setLoading(true);
-
-    try {
-      // Fetch donations
-      const { data: donationsData, error: donationsError } = await supabase
-        .from("donations")
-        .select("*")
-        .eq("status", "available")
-        .order("created_at", { ascending: false });
-
-      if (donationsError) {
-        console.error("Donations fetch error:", donationsError);
-        throw new Error("Failed to load donations");
-      }
-
-      // Fetch profiles for the user names
-      const userIds = [...new Set(donationsData?.map(d => d.user_id) || [])];
-      
-      let profileMap = new Map<string, string>();
-      
-      if (userIds.length > 0) {
-        const { data: profilesData, error: profilesError } = await supabase
-          .from("profiles")
-          .select("id, full_name")
-          .in("id", userIds);
-
-        if (profilesError) {
-          console.error("Profiles fetch error:", profilesError);
-        } else {
-          profilesData?.forEach((p: Profile) => {
-            profileMap.set(p.id, p.full_name || "Anonymous");
-          });
-        }
-      }
-
-      const donationsWithNames = (donationsData || []).map(d => ({
-        ...d,
-        userName: profileMap.get(d.user_id) || "Anonymous"
-      }));
-
-      setDonations(donationsWithNames);
-    } catch (err) {
-      setError("Failed to load donations. Please try again.");
-      console.error("Fetch error:", err);
-    } finally {
-      setLoading(false);
-    }
-  };
+    if (!locationError) return;
+    toast.error(locationError);
+    updateFilters({ within: null });
+  }, [locationError, updateFilters]);
 
-  const filteredDonations = donations.filter((donation) => {
-    const matchesSearch = donation.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (donation.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
-    const matchesCategory = selectedCategory === "All" || donation.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  // Keep the inputs in step with the URL on back/forward navigation. The URL
+  // holds trimmed values, so input that only differs by whitespace is left as
+  // typed rather than losing a trailing space mid-word.
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === searchQuery ? current : searchQuery));
+  }, [searchQuery]);
 
-  const handleRequest = (title: string) => {
-    toast.success(`Request sent for "${title}"! The donor will contact you soon.`);
-  };
+  useEffect(() => {
+    setLocationInput((current) => (current.trim() === locationQuery ? current : locationQuery));
+  }, [locationQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery && locationInput.trim() === locationQuery) return;
+
+    const timeout = setTimeout(() => {
+      updateFilters({ q: searchInput.trim() || null, location: locationInput.trim() || null });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchInput, locationInput, searchQuery, locationQuery, updateFilters]);
 
   return (
     <Layout>
@@ -108,9 +118,29 @@ const Donations = () => {
             <h1 className="text-3xl font-bold text-foreground mb-2">Available Donations</h1>
             <p className="text-muted-foreground">Browse items and services offered by our generous community</p>
           </div>
-          <Link to="/donate/new">
-            <Button variant="hero">Offer a Donation</Button>
-          </Link>
+          <div className="flex gap-2">
+            <div className="flex rounded-lg border border-border p-1">
+              <Button
+                variant={view === "list" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateFilters({ view: null })}
+              >
+                <LayoutGrid className="h-4 w-4" />
+                List
+              </Button>
+              <Button
+                variant={view === "map" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateFilters({ view: "map" })}
+              >
+                <MapIcon className="h-4 w-4" />
+                Map
+              </Button>
+            </div>
+            <Link to="/donate/new">
+              <Button variant="hero">Offer a Donation</Button>
+            </Link>
+          </div>
         </div>
 
         {/* Search and Filter */}
@@ -121,23 +151,49 @@ const Donations = () => {
               <Input
                 placeholder="Search donations..."
                 className="pl-10 h-12"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
-            <div className="flex gap-2 flex-wrap">
-              {CATEGORIES.map((category) => (
-                <Button
-                  key={category}
-                  variant={selectedCategory === category ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedCategory(category)}
-                  className="transition-all"
-                >
-                  {category}
-                </Button>
-              ))}
+            <div className="relative md:w-56">
+              <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                placeholder="Location"
+                className="pl-10 h-12"
+                value={locationInput}
+                onChange={(e) => setLocationInput(e.target.value)}
+              />
             </div>
+            <Select
+              value={radiusKm ? String(radiusKm) : "any"}
+              onValueChange={(value) => updateFilters({ within: value === "any" ? null : value })}
+            >
+              <SelectTrigger className="h-12 md:w-44">
+                <SelectValue placeholder="Any distance" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any distance</SelectItem>
+                {DISTANCE_FILTERS.map((km) => (
+                  <SelectItem key={km} value={String(km)}>
+                    Within {km} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CategoryFilter
+              category={selectedCategory}
+              subcategory={selectedSubcategory}
+              onChange={(category, subcategory) =>
+                updateFilters({
+                  category,
+                  subcategory,
+                  // Each category has its own fields, so their filters don't carry over
+                  ...(category === selectedCategory ? {} : clearDetailParams(searchParams)),
+                })
+              }
+              details={selectedDetails}
+              onDetailChange={(key, value) => updateFilters({ [toDetailParam(key)]: value })}
+            />
           </div>
         </div>
 
@@ -146,7 +202,7 @@ const Donations = () => {
           <div className="text-center py-16">
             <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
             <div className="text-muted-foreground text-lg mb-4">{error}</div>
-            <Button variant="hero" onClick={fetchDonations}>Try Again</Button>
+            <Button variant="hero" onClick={() => activeQuery.refetch()}>Try Again</Button>
           </div>
         )}
 
@@ -157,10 +213,22 @@ const Donations = () => {
           </div>
         )}
 
+        {/* Map View */}
+        {!loading && !error && view === "map" && (
+          <div className="space-y-3">
+            <ItemMap items={mapItems} center={origin} />
+            <p className="text-sm text-muted-foreground text-center">
+              {mapItems.length > 0
+                ? `Showing ${mapItems.length} ${mapItems.length === 1 ? "post" : "posts"} with a location`
+                : "No donations with a location match these filters"}
+            </p>
+          </div>
+        )}
+
         {/* Donations Grid */}
-        {!loading && !error && filteredDonations.length > 0 && (
+        {!loading && !error && view === "list" && donations.length > 0 && (
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredDonations.map((donation, index) => (
+            {donations.map((donation, index) => (
               <div 
                 key={donation.id} 
                 className="animate-slide-up"
@@ -171,22 +239,38 @@ const Donations = () => {
                   title={donation.title}
                   description={donation.description || ""}
                   category={donation.category}
+                  subcategory={donation.subcategory}
+                  details={donation.details}
                   location={donation.location || "Not specified"}
                   userName={donation.userName}
                   createdAt={formatDistanceToNow(new Date(donation.created_at), { addSuffix: true })}
-                  onRequest={() => handleRequest(donation.title)}
+                  imageUrl={donation.imageUrl}
+                  distance={
+                    origin && donation.latitude !== null && donation.longitude !== null
+                      ? formatDistance(distanceKm(origin, { latitude: donation.latitude, longitude: donation.longitude }))
+                      : undefined
+                  }
+                  // Claims and reports are stored on the hosted backend only
+                  onRequest={IS_LOCAL_BACKEND ? undefined : () => setClaimTarget(donation)}
+                  onReport={
+                    IS_LOCAL_BACKEND || donation.user_id === user?.id
+                      ? undefined
+                      : () => setReportTarget({ type: "donation", id: donation.id, title: donation.title, user_id: donation.user_id })
+                  }
                 />
               </div>
             ))}
           </div>
         )}
 
+        {!loading && !error && view === "list" && <FeedPagination page={page} totalPages={totalPages} />}
+
         {/* Empty State */}
-        {!loading && !error && filteredDonations.length === 0 && (
+        {!loading && !error && view === "list" && donations.length === 0 && (
           <div className="text-center py-16">
             <div className="text-muted-foreground text-lg mb-4">No donations found</div>
             <p className="text-sm text-muted-foreground mb-6">
-              {donations.length > 0 ? "Try adjusting your search or filters" : "Be the first to offer a donation!"}
+              {hasFilters ? "Try adjusting your search or filters" : "Be the first to offer a donation!"}
             </p>
             <Link to="/donate/new">
               <Button variant="hero">Be the First to Donate</Button>
@@ -194,6 +278,18 @@ const Donations = () => {
           </div>
         )}
       </div>
+
+      <ClaimDonationDialog
+        donation={claimTarget}
+        open={claimTarget !== null}
+        onOpenChange={(open) => !open && setClaimTarget(null)}
+      />
+
+      <ReportDialog
+        target={reportTarget}
+        open={reportTarget !== null}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Mail, Heart, ArrowLeft, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { useAuth } from "@/hooks/useAuth";
+
+const ForgotPassword = () => {
+  const { resetPassword } = useAuth();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!email.trim()) {
+      toast.error("Please enter your email address");
+      return;
+    }
+
+    setLoading(true);
+
+    const { error } = await resetPassword(email.trim());
+
+    setLoading(false);
+
+    if (error) {
+      if (error.message.includes("rate limit")) {
+        toast.error("Too many attempts. Please wait a few minutes and try again.");
+      } else {
+        toast.error(error.message);
+      }
+    } else {
+      setSent(true);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="w-full max-w-md space-y-8 animate-slide-up">
+        <div className="text-center">
+          <Link to="/" className="inline-flex items-center gap-2 mb-8">
+            <div className="flex h-12 w-12 items-center justify-center rounded-xl gradient-hero shadow-glow">
+              <Heart className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <span className="text-2xl font-bold text-foreground">HelpConnect</span>
+          </Link>
+          <h1 className="text-3xl font-bold text-foreground mb-2">Forgot Password?</h1>
+          <p className="text-muted-foreground">
+            Enter your email and we'll send you a link to choose a new password
+          </p>
+        </div>
+
+        {sent ? (
+          <div className="bg-card rounded-xl border border-border p-6 shadow-soft text-center space-y-4">
+            <MailCheck className="h-10 w-10 text-primary mx-auto" />
+            <p className="text-foreground">
+              If an account exists for <span className="font-medium">{email}</span>, a reset link is on its way.
+            </p>
+            <p className="text-sm text-muted-foreground">
+              Check your inbox and spam folder. The link expires after an hour.
+            </p>
+            <Button variant="outline" className="w-full" onClick={() => setSent(false)}>
+              Use a different email
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="space-y-2">
+              <Label htmlFor="email">Email Address</Label>
+              <div className="relative">
+                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="user@example.com"
+                  className="pl-10 h-12"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+            </div>
+
+            <Button type="submit" variant="hero" className="w-full" size="lg" disabled={loading}>
+              {loading ? "Sending..." : "Send Reset Link"}
+            </Button>
+          </form>
+        )}
+
+        <p className="text-center">
+          <Link to="/login" className="inline-flex items-center gap-2 text-primary font-medium hover:underline">
+            <ArrowLeft className="h-4 w-4" />
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default ForgotPassword;
@@ -0,0 +1,222 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, MapPin, Clock, User, Users, Edit, AlertCircle, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import Layout from "@/components/Layout";
+import OfferHelpDialog from "@/components/OfferHelpDialog";
+import MessageButton from "@/components/MessageButton";
+import ShareButtons from "@/components/ShareButtons";
+import StatusHistory from "@/components/StatusHistory";
+import ItemImageGallery from "@/components/ItemImageGallery";
+import CategoryBadge from "@/components/CategoryBadge";
+import CategoryDetails from "@/components/CategoryDetails";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import { helpRequestKeys } from "@/lib/api/queryKeys";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useHelpRequest,
+  useHelpRequestHistory,
+  useHelpRequestImages,
+  useHelpRequestOfferCount,
+} from "@/hooks/useHelpRequests";
+import { usePublicProfile } from "@/hooks/useProfiles";
+import { ACTIVE_HELP_REQUEST_STATUSES, HELP_REQUEST_STATUS_META } from "@/lib/helpRequestStatus";
+import { format, formatDistanceToNow } from "date-fns";
+
+const HelpRequestDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const requestQuery = useHelpRequest(id);
+  const request = requestQuery.data ?? null;
+  const queryClient = useQueryClient();
+  const { data: history = [] } = useHelpRequestHistory(id);
+  const { data: images = [] } = useHelpRequestImages(id);
+  const { data: offerCount = 0 } = useHelpRequestOfferCount(id);
+  const { data: poster = null } = usePublicProfile(request?.user_id);
+  const [offerOpen, setOfferOpen] = useState(false);
+
+  // Refreshes the request along with its history and offer count
+  const handleOffered = () => queryClient.invalidateQueries({ queryKey: helpRequestKeys.detail(id!) });
+
+  const getUrgencyStyle = (urg: string) => {
+    const styles: Record<string, { bg: string; text: string; label: string }> = {
+      low: { bg: "bg-green-100", text: "text-green-700", label: "Low Priority" },
+      medium: { bg: "bg-yellow-100", text: "text-yellow-700", label: "Medium Priority" },
+      high: { bg: "bg-red-100", text: "text-red-700", label: "Urgent" },
+    };
+    return styles[urg] || styles.low;
+  };
+
+  if (requestQuery.isPending) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading help request...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (requestQuery.isError || !request) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground text-lg mb-4">
+              {requestQuery.isError
+                ? "Failed to load this help request. Please try again."
+                : "This help request doesn't exist or has been removed."}
+            </div>
+            {requestQuery.isError ? (
+              <Button variant="hero" onClick={() => requestQuery.refetch()}>Try Again</Button>
+            ) : (
+              <Link to="/request-help">
+                <Button variant="hero">Browse Help Requests</Button>
+              </Link>
+            )}
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  const isOwner = user?.id === request.user_id;
+  const statusMeta = HELP_REQUEST_STATUS_META[request.status];
+  const urgencyStyle = getUrgencyStyle(request.urgency);
+  const acceptsOffers = ACTIVE_HELP_REQUEST_STATUSES.includes(request.status);
+  const posterName = poster?.full_name || "Anonymous";
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto">
+          <Link to="/request-help" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-primary mb-6">
+            <ArrowLeft className="h-4 w-4" />
+            Back to help requests
+          </Link>
+
+          <div className="grid lg:grid-cols-3 gap-6">
+            {/* Main Content */}
+            <div className="lg:col-span-2 space-y-6 animate-slide-up">
+              <ItemImageGallery images={images} title={request.title} />
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <div className="flex flex-wrap gap-2 mb-4">
+                  <CategoryBadge category={request.category} subcategory={request.subcategory} className="font-medium" />
+                  <Badge className={`${statusMeta.className} border-0 text-xs font-medium`}>
+                    {statusMeta.label}
+                  </Badge>
+                  <Badge className={`${urgencyStyle.bg} ${urgencyStyle.text} border-0 text-xs font-medium gap-1`}>
+                    {request.urgency === "high" && <AlertTriangle className="h-3 w-3" />}
+                    {urgencyStyle.label}
+                  </Badge>
+                </div>
+
+                <h1 className="text-3xl font-bold text-foreground mb-4">{request.title}</h1>
+
+                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mb-6">
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-4 w-4" />
+                    {request.location || "Not specified"}
+                  </span>
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    Posted {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
+                  </span>
+                  <span className={`flex items-center gap-1 ${offerCount > 0 ? "text-primary font-medium" : ""}`}>
+                    <Users className="h-4 w-4" />
+                    {offerCount === 0 ? "No helpers yet" : `${offerCount} ${offerCount === 1 ? "helper" : "helpers"} offered`}
+                  </span>
+                </div>
+
+                <p className="text-foreground whitespace-pre-line">{request.description}</p>
+                <CategoryDetails category={request.category} details={request.details} className="mt-6" />
+              </div>
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <h2 className="text-lg font-semibold text-foreground mb-4">Status History</h2>
+                <StatusHistory
+                  events={history.map((event) => ({
+                    id: event.id,
+                    label: HELP_REQUEST_STATUS_META[event.status].label,
+                    className: HELP_REQUEST_STATUS_META[event.status].className,
+                    createdAt: event.created_at,
+                  }))}
+                />
+              </div>
+            </div>
+
+            {/* Sidebar */}
+            <div className="space-y-6 animate-slide-up" style={{ animationDelay: "0.1s" }}>
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft space-y-4">
+                {isOwner ? (
+                  <Link to={`/request-help/${request.id}/edit`}>
+                    <Button variant="outline" className="w-full">
+                      <Edit className="h-4 w-4" />
+                      Edit Request
+                    </Button>
+                  </Link>
+                ) : IS_LOCAL_BACKEND ? null : (
+                  <Button
+                    variant="hero"
+                    className="w-full"
+                    disabled={!acceptsOffers}
+                    onClick={() => setOfferOpen(true)}
+                  >
+                    {acceptsOffers ? "Offer to Help" : `Request ${statusMeta.label}`}
+                  </Button>
+                )}
+                {!isOwner && (
+                  <MessageButton
+                    recipientId={request.user_id}
+                    helpRequestId={request.id}
+                    label="Message Requester"
+                    className="w-full"
+                  />
+                )}
+                <ShareButtons title={request.title} path={`/request-help/${request.id}`} />
+              </div>
+
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft">
+                <h2 className="text-lg font-semibold text-foreground mb-4">Requested by</h2>
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="flex h-10 w-10 items-center justify-center rounded-full bg-secondary">
+                    <User className="h-5 w-5 text-muted-foreground" />
+                  </div>
+                  <div>
+                    <p className="font-medium text-foreground">{posterName}</p>
+                    {poster && (
+                      <p className="text-xs text-muted-foreground">
+                        Member since {format(new Date(poster.created_at), "MMM yyyy")}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                {poster?.location && (
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <MapPin className="h-4 w-4" />
+                    {poster.location}
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <OfferHelpDialog
+        request={request}
+        open={offerOpen}
+        onOpenChange={setOfferOpen}
+        onOffered={handleOffered}
+      />
+    </Layout>
+  );
+};
+
+export default HelpRequestDetail;
@@ -0,0 +1,114 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { toast } from "sonner";
+import HelpRequestForm from "@/pages/HelpRequestForm";
+import type { HelpRequest } from "@/lib/api/helpRequests";
+import { fakeSession, fakeSupabase, hasStep, ok, type FakeQuery } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const helpRequest: HelpRequest = {
+  id: "request-1",
+  user_id: "user-1",
+  title: "Need MCA CET books",
+  category: "education",
+  subcategory: null,
+  details: {},
+  description: "Looking for last year's preparation books",
+  location: "Mumbai",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "open",
+  urgency: "high",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: "2026-01-01T00:00:00Z",
+  updated_at: "2026-01-01T00:00:00Z",
+};
+
+const isWrite = (query: FakeQuery) => ["insert", "update"].includes(query.steps[0]?.method);
+
+// Submits without the browser's required-field check so the page's own validation runs
+const submitForm = () =>
+  fireEvent.submit(screen.getByRole("button", { name: /submit help request|save changes/i }).closest("form")!);
+
+const pick = async (trigger: RegExp, option: string) => {
+  const user = userEvent.setup();
+  await user.click(screen.getByText(trigger).closest("button")!);
+  await user.click(await screen.findByRole("option", { name: option }));
+};
+
+const fillIn = async ({ urgency = true } = {}) => {
+  const user = userEvent.setup();
+  await user.type(await screen.findByLabelText("Request Title"), "Need MCA CET books");
+  await pick(/select a category/i, "Education");
+  await user.type(screen.getByLabelText("Description"), "Looking for last year's preparation books");
+  await user.type(screen.getByLabelText("Location"), "Mumbai");
+  if (urgency) await pick(/how urgent is this/i, "High - Urgent");
+};
+
+describe("HelpRequestForm", () => {
+  beforeEach(() => {
+    fakeSupabase.setSession(fakeSession());
+  });
+
+  it("asks how urgent the request is", async () => {
+    renderPage(<HelpRequestForm />, { route: "/request-help/new" });
+
+    await fillIn({ urgency: false });
+    submitForm();
+
+    expect(toast.error).toHaveBeenCalledWith("Please select an urgency level");
+    expect(fakeSupabase.queriesFor("help_requests").filter(isWrite)).toHaveLength(0);
+  });
+
+  it("creates the request and shows the success page", async () => {
+    fakeSupabase.respond("help_requests", ok({ id: "request-1" }));
+    renderPage(<HelpRequestForm />, { route: "/request-help/new" });
+
+    await fillIn();
+    submitForm();
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/request-success"));
+    const [insert] = fakeSupabase.queriesFor("help_requests").filter(isWrite);
+    expect(insert.steps[0].args[0]).toMatchObject({ user_id: "user-1", category: "education", urgency: "high" });
+  });
+
+  it.each([
+    ["23503", "User profile not found. Please try logging out and back in."],
+    ["42501", "Permission denied. Please ensure you're logged in."],
+  ])("explains a %s insert error", async (code, message) => {
+    fakeSupabase.respond("help_requests", { error: { code, message: "insert failed" } });
+    renderPage(<HelpRequestForm />, { route: "/request-help/new" });
+
+    await fillIn();
+    submitForm();
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith(message));
+  });
+
+  it("reports a 42501 when saving an edit", async () => {
+    fakeSupabase.respond("help_requests", (query) =>
+      isWrite(query) ? { error: { code: "42501", message: "denied" } } : ok(helpRequest)
+    );
+    renderPage(<HelpRequestForm />, { route: "/request-help/request-1/edit", path: "/request-help/:id/edit" });
+
+    expect(await screen.findByDisplayValue("Need MCA CET books")).toBeInTheDocument();
+    submitForm();
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith("You don't have permission to edit this help request")
+    );
+    const [update] = fakeSupabase.queriesFor("help_requests").filter(isWrite);
+    expect(hasStep(update, "eq", "id", "request-1")).toBe(true);
+  });
+
+  it("sends visitors to a missing request back to their profile", async () => {
+    renderPage(<HelpRequestForm />, { route: "/request-help/request-1/edit", path: "/request-help/:id/edit" });
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/profile"));
+    expect(toast.error).toHaveBeenCalledWith("Help request not found");
+  });
+});
@@ -1,6 +1,7 @@
-import { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { HelpCircle, MapPin, AlertTriangle } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { HelpCircle, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,10 +9,21 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Layout from "@/components/Layout";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useCreateHelpRequest, useHelpRequest, useUpdateHelpRequest } from "@/hooks/useHelpRequests";
+import ItemImagePicker from "@/components/ItemImagePicker";
+import LocationInput from "@/components/LocationInput";
+import CategorySelect from "@/components/CategorySelect";
+import CategoryFieldsInput from "@/components/CategoryFieldsInput";
+import { useCategories } from "@/hooks/useCategories";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import { getErrorMessage } from "@/lib/api/errors";
+import { fetchHelpRequestImages } from "@/lib/api/helpRequests";
+import { helpRequestKeys } from "@/lib/api/queryKeys";
+import { parsePostDetails, toPostDetails, type PostDetails } from "@/lib/categoryFields";
+import { resolvePlace, toLocationColumns, type GeoPlace } from "@/lib/geocoding";
+import { deleteItemImages, uploadItemImages, type ItemImage } from "@/lib/itemImages";
 
-const CATEGORIES = ["Clothing", "Electronics", "Education", "Food", "Services", "Other"];
 const URGENCY_LEVELS = [
   { value: "low", label: "Low - Not urgent" },
   { value: "medium", label: "Medium - Needed soon" },
@@ -20,24 +32,93 @@ const URGENCY_LEVELS = [
 
 const HelpRequestForm = () => {
   const navigate = useNavigate();
-  const { user, loading: authLoading } = useAuth();
+  const { id } = useParams<{ id: string }>();
+  const isEditing = Boolean(id);
+  const { user, isStaff, rolesLoading } = useAuth();
+  const { registry } = useCategories();
+  const queryClient = useQueryClient();
+  const { data: request, isPending: loadingRequest } = useHelpRequest(id);
+  const createRequest = useCreateHelpRequest();
+  const updateRequest = useUpdateHelpRequest();
   const [loading, setLoading] = useState(false);
+  const [prefilling, setPrefilling] = useState(isEditing);
+  const [place, setPlace] = useState<GeoPlace | null>(null);
+  const [images, setImages] = useState<ItemImage[]>([]);
+  const [removedImages, setRemovedImages] = useState<ItemImage[]>([]);
+  const [newImages, setNewImages] = useState<File[]>([]);
+  // Staff editing someone else's post; photos stay with the owner
+  const [moderating, setModerating] = useState(false);
   const [formData, setFormData] = useState({
     title: "",
     category: "",
+    subcategory: null as string | null,
+    details: {} as PostDetails,
     description: "",
     location: "",
     urgency: "",
   });
 
+  useEffect(() => {
+    if (!id || !user || rolesLoading || loadingRequest || !prefilling) return;
+
+    if (!request) {
+      toast.error("Help request not found");
+      navigate("/profile");
+      return;
+    }
+
+    if (request.user_id !== user.id && !isStaff) {
+      toast.error("You can only edit your own help requests");
+      navigate("/profile");
+      return;
+    }
+    setModerating(request.user_id !== user.id);
+
+    setFormData({
+      title: request.title,
+      category: request.category,
+      subcategory: request.subcategory,
+      details: parsePostDetails(request.details),
+      description: request.description || "",
+      location: request.location || "",
+      urgency: request.urgency,
+    });
+    if (request.latitude !== null && request.longitude !== null && request.city) {
+      setPlace({
+        latitude: request.latitude,
+        longitude: request.longitude,
+        city: request.city,
+        region: request.region,
+        label: request.location || request.city,
+      });
+    }
+    fetchHelpRequestImages(id).then((existing) => {
+      setImages(existing);
+      setPrefilling(false);
+    });
+  }, [id, user, isStaff, rolesLoading, request, loadingRequest, prefilling, navigate]);
+
+  // Photos are saved after the post itself; a failure here keeps the post
+  const saveImages = async (parentId: string) => {
+    if (!user || moderating || IS_LOCAL_BACKEND) return true;
+
+    try {
+      await deleteItemImages(removedImages);
+      const nextPosition = images.reduce((max, image) => Math.max(max, image.position + 1), 0);
+      await uploadItemImages(user.id, { helpRequestId: parentId }, newImages, nextPosition);
+      return true;
+    } catch (err) {
+      console.error("Image save error:", err);
+      return false;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: helpRequestKeys.images(parentId) });
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!user) {
-      toast.error("Please sign in to submit a help request");
-      navigate("/login");
-      return;
-    }
+    if (!user) return;
 
     if (!formData.title.trim()) {
       toast.error("Please enter a title");
@@ -67,37 +148,63 @@ const HelpRequestForm = () => {
     setLoading(true);
 
     try {
-      const { error } = await supabase.from("help_requests").insert({
-        user_id: user.id,
+      const fields = {
         title: formData.title.trim(),
         description: formData.description.trim(),
         category: formData.category,
-        location: formData.location.trim(),
+        subcategory: formData.subcategory,
+        // Answers are kept as typed until the category's fields are known
+        details: registry.find(formData.category)
+          ? toPostDetails(registry.fields(formData.category), formData.details)
+          : formData.details,
+        ...toLocationColumns(formData.location, await resolvePlace(formData.location, place)),
         urgency: formData.urgency,
-      });
+      };
+
+      if (isEditing) {
+        await updateRequest.mutateAsync({ id: id!, values: fields });
 
-      if (error) {
-        if (error.code === "23503") {
-          toast.error("User profile not found. Please try logging out and back in.");
-        } else if (error.code === "42501") {
-          toast.error("Permission denied. Please ensure you're logged in.");
+        if (await saveImages(id!)) {
+          toast.success("Help request updated successfully!");
         } else {
-          toast.error("Failed to submit help request. Please try again.");
+          toast.error("Help request updated, but some photos couldn't be saved. Please try again.");
         }
-        console.error("Help request error:", error);
-      } else {
+        navigate(moderating ? "/admin?section=requests" : "/profile");
+        return;
+      }
+
+      const created = await createRequest.mutateAsync({ user_id: user.id, ...fields });
+
+      if (await saveImages(created.id)) {
         toast.success("Help request submitted successfully!");
-        navigate("/request-success");
+      } else {
+        toast.error("Help request submitted, but some photos couldn't be uploaded. You can add them by editing it.");
       }
+      navigate("/request-success");
     } catch (err) {
-      toast.error("An unexpected error occurred. Please try again.");
-      console.error("Unexpected error:", err);
+      toast.error(
+        isEditing
+          ? getErrorMessage(
+              err,
+              { "42501": "You don't have permission to edit this help request" },
+              "Failed to update help request. Please try again."
+            )
+          : getErrorMessage(
+              err,
+              {
+                "23503": "User profile not found. Please try logging out and back in.",
+                "42501": "Permission denied. Please ensure you're logged in.",
+              },
+              "Failed to submit help request. Please try again."
+            )
+      );
+      console.error("Help request save error:", err);
     } finally {
       setLoading(false);
     }
   };
 
-  if (authLoading) {
+  if (prefilling) {
     return (
       <Layout>
         <div className="container mx-auto px-4 py-8">
@@ -109,19 +216,6 @@ const HelpRequestForm = () => {
     );
   }
 
-  if (!user) {
-    return (
-      <Layout>
-        <div className="container mx-auto px-4 py-8">
-          <div className="text-center py-16">
-            <div className="text-muted-foreground text-lg mb-4">Please sign in to submit a help request</div>
-            <Button variant="hero" onClick={() => navigate("/login")}>Sign In</Button>
-          </div>
-        </div>
-      </Layout>
-    );
-  }
-
   return (
     <Layout>
       <div className="container mx-auto px-4 py-8">
@@ -131,9 +225,13 @@ const HelpRequestForm = () => {
             <div className="inline-flex items-center justify-center w-16 h-16 rounded-2xl gradient-warm shadow-soft mb-4">
               <HelpCircle className="h-8 w-8 text-accent-foreground" />
             </div>
-            <h1 className="text-3xl font-bold text-foreground mb-2">Request Help</h1>
+            <h1 className="text-3xl font-bold text-foreground mb-2">
+              {isEditing ? "Edit Help Request" : "Request Help"}
+            </h1>
             <p className="text-muted-foreground">
-              Describe what you need and our community will try to help.
+              {isEditing
+                ? "Update the details of your help request below."
+                : "Describe what you need and our community will try to help."}
             </p>
           </div>
 
@@ -158,24 +256,17 @@ const HelpRequestForm = () => {
                 />
               </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select
-                  value={formData.category}
-                  onValueChange={(value) => setFormData({ ...formData, category: value })}
-                >
-                  <SelectTrigger className="h-12">
-                    <SelectValue placeholder="Select a category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {CATEGORIES.map((category) => (
-                      <SelectItem key={category} value={category}>
-                        {category}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+              <CategorySelect
+                category={formData.category}
+                subcategory={formData.subcategory}
+                onChange={(category, subcategory) => setFormData({ ...formData, category, subcategory })}
+              />
+
+              <CategoryFieldsInput
+                category={formData.category}
+                values={formData.details}
+                onChange={(details) => setFormData({ ...formData, details })}
+              />
 
               <div className="space-y-2">
                 <Label htmlFor="description">Description</Label>
@@ -192,18 +283,16 @@ const HelpRequestForm = () => {
 
               <div className="space-y-2">
                 <Label htmlFor="location">Location</Label>
-                <div className="relative">
-                  <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                  <Input
-                    id="location"
-                    placeholder="e.g., Pune, Maharashtra"
-                    className="pl-10 h-12"
-                    value={formData.location}
-                    onChange={(e) => setFormData({ ...formData, location: e.target.value })}
-                    maxLength={100}
-                    required
-                  />
-                </div>
+                <LocationInput
+                  id="location"
+                  value={formData.location}
+                  place={place}
+                  onChange={(location, picked) => {
+                    setFormData({ ...formData, location });
+                    setPlace(picked);
+                  }}
+                  required
+                />
               </div>
 
               <div className="space-y-2">
@@ -226,6 +315,25 @@ const HelpRequestForm = () => {
               </div>
             </div>
 
+            {/* Photos; the local backend has no storage bucket for them */}
+            {!moderating && !IS_LOCAL_BACKEND && (
+              <div className="bg-card rounded-xl border border-border p-6 shadow-soft space-y-4">
+                <div className="border-b border-border pb-3">
+                  <h2 className="text-lg font-semibold text-foreground">Photos</h2>
+                  <p className="text-sm text-muted-foreground">Optional. Photos help volunteers understand what's needed. Up to 5 photos.</p>
+                </div>
+                <ItemImagePicker
+                  existing={images}
+                  files={newImages}
+                  onFilesChange={setNewImages}
+                  onRemoveExisting={(image) => {
+                    setImages(images.filter((i) => i.id !== image.id));
+                    setRemovedImages([...removedImages, image]);
+                  }}
+                />
+              </div>
+            )}
+
             {/* Privacy Notice */}
             <div className="bg-muted/50 rounded-xl p-4 flex items-start gap-3">
               <AlertTriangle className="h-5 w-5 text-muted-foreground flex-shrink-0 mt-0.5" />
@@ -235,7 +343,7 @@ const HelpRequestForm = () => {
             </div>
 
             <Button type="submit" variant="hero" size="xl" className="w-full" disabled={loading}>
-              {loading ? "Submitting..." : "Submit Help Request"}
+              {loading ? (isEditing ? "Saving..." : "Submitting...") : (isEditing ? "Save Changes" : "Submit Help Request")}
             </Button>
           </form>
         </div>
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import HelpRequests from "@/pages/HelpRequests";
+import type { HelpRequest } from "@/lib/api/helpRequests";
+import { fakeSupabase, hasStep, ok } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const helpRequest = (overrides: Partial<HelpRequest> = {}): HelpRequest => ({
+  id: "request-1",
+  user_id: "user-2",
+  title: "Need MCA CET books",
+  category: "education",
+  subcategory: null,
+  details: {},
+  description: "Looking for last year's preparation books",
+  location: "Mumbai",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "open",
+  urgency: "high",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+const lastFeedQuery = (target = "help_requests") => fakeSupabase.queriesFor(target).slice(-1)[0];
+
+describe("HelpRequests", () => {
+  it("shows active requests with their authors and helper counts", async () => {
+    fakeSupabase.respond("help_requests", {
+      data: [helpRequest(), helpRequest({ id: "request-2", title: "Groceries for a week" })],
+      count: 2,
+    });
+    fakeSupabase.respond("profiles", ok([{ id: "user-2", full_name: "Rahul Verma" }]));
+    fakeSupabase.respond("help_offer_counts", ok([{ request_id: "request-1", offer_count: 2 }]));
+    renderPage(<HelpRequests />, { route: "/request-help" });
+
+    expect(await screen.findByText("Need MCA CET books")).toBeInTheDocument();
+    expect(screen.getAllByText("Rahul Verma")).toHaveLength(2);
+    expect(screen.getByText("2 helpers offered")).toBeInTheDocument();
+    expect(screen.getByText("No helpers yet")).toBeInTheDocument();
+
+    const query = lastFeedQuery();
+    expect(hasStep(query, "in", "status", ["open", "in_progress"])).toBe(true);
+    expect(hasStep(query, "is", "hidden_at", null)).toBe(true);
+    expect(hasStep(fakeSupabase.queriesFor("help_offer_counts")[0], "in", "request_id", ["request-1", "request-2"])).toBe(
+      true
+    );
+  });
+
+  it("narrows by urgency, status and category from the URL", async () => {
+    renderPage(<HelpRequests />, { route: "/request-help?urgency=high&status=fulfilled&category=food" });
+
+    await screen.findByText("No help requests found");
+
+    const query = lastFeedQuery();
+    expect(hasStep(query, "eq", "urgency", "high")).toBe(true);
+    expect(hasStep(query, "in", "status", ["fulfilled"])).toBe(true);
+    expect(hasStep(query, "eq", "category", "food")).toBe(true);
+  });
+
+  it("sends search terms through the ranked search", async () => {
+    renderPage(<HelpRequests />, { route: "/request-help?q=books&location=Mumbai" });
+
+    await screen.findByText("No help requests found");
+
+    const [search] = fakeSupabase.queriesFor("rpc:search_help_requests");
+    expect(search.steps[0].args[0]).toMatchObject({ search_query: "books" });
+    expect(hasStep(search, "ilike", "location", "%Mumbai%")).toBe(true);
+  });
+
+  it("clears the urgency filter when Any is picked", async () => {
+    const user = userEvent.setup();
+    renderPage(<HelpRequests />, { route: "/request-help?urgency=low" });
+    await screen.findByText("No help requests found");
+
+    await user.click(screen.getByRole("button", { name: "Any" }));
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/request-help$/));
+    await waitFor(() => expect(lastFeedQuery().steps.some((step) => step.args[0] === "urgency")).toBe(false));
+  });
+
+  it("reports a failed load", async () => {
+    fakeSupabase.respond("help_requests", { error: { code: "XX000", message: "boom" } });
+    renderPage(<HelpRequests />, { route: "/request-help" });
+
+    expect(await screen.findByText("Failed to load help requests. Please try again.")).toBeInTheDocument();
+  });
+});
@@ -1,104 +1,132 @@
-import { useState, useEffect } from "react";
-import { Search, AlertCircle } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { Search, MapPin, AlertCircle, LayoutGrid, Map as MapIcon } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import Layout from "@/components/Layout";
 import HelpRequestCard from "@/components/HelpRequestCard";
-import { Link } from "react-router-dom";
+import OfferHelpDialog from "@/components/OfferHelpDialog";
+import ReportDialog, { type ReportTarget } from "@/components/ReportDialog";
+import FeedPagination from "@/components/FeedPagination";
+import ItemMap from "@/components/ItemMap";
+import CategoryFilter from "@/components/CategoryFilter";
+import { Link, useSearchParams } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { useHelpRequestMapItems, useHelpRequests } from "@/hooks/useHelpRequests";
+import { useMyLocation } from "@/hooks/useMyLocation";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
 import { formatDistanceToNow } from "date-fns";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import type { HelpRequest, HelpRequestFeedFilters } from "@/lib/api/helpRequests";
+import { DISTANCE_FILTERS, distanceKm, formatDistance } from "@/lib/geocoding";
+import { HELP_REQUEST_STATUS_FILTERS } from "@/lib/helpRequestStatus";
+import {
+  FEED_PAGE_SIZE,
+  SEARCH_DEBOUNCE_MS,
+  applyFilterParams,
+  clearDetailParams,
+  getDetailFilters,
+  parsePage,
+  toDetailParam,
+} from "@/lib/feedFilters";
 
-const CATEGORIES = ["All", "Clothing", "Electronics", "Education", "Food", "Services", "Other"];
+const URGENCY_FILTERS = [
+  { value: "all", label: "Any" },
+  { value: "high", label: "Urgent" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
 
-interface HelpRequest {
-  id: string;
-  title: string;
-  description: string | null;
-  category: string;
-  location: string | null;
-  urgency: string;
-  created_at: string;
-  user_id: string;
-}
+const HelpRequests = () => {
+  const { user } = useAuth();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const searchQuery = searchParams.get("q") ?? "";
+  const locationQuery = searchParams.get("location") ?? "";
+  const selectedCategory = searchParams.get("category");
+  const selectedSubcategory = searchParams.get("subcategory");
+  // Field filters only apply within a category
+  const selectedDetails = selectedCategory ? getDetailFilters(searchParams) : {};
+  const selectedUrgency = searchParams.get("urgency") ?? URGENCY_FILTERS[0].value;
+  const selectedStatus = searchParams.get("status") ?? HELP_REQUEST_STATUS_FILTERS[0].value;
+  const radiusKm = Number(searchParams.get("within")) || null;
+  const page = parsePage(searchParams.get("page"));
+  const view = searchParams.get("view") === "map" ? "map" : "list";
 
-interface Profile {
-  id: string;
-  full_name: string | null;
-}
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const [locationInput, setLocationInput] = useState(locationQuery);
+  const [offerTarget, setOfferTarget] = useState<HelpRequest | null>(null);
+  const [reportTarget, setReportTarget] = useState<ReportTarget | null>(null);
 
-const HelpRequests = () => {
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState("All");
-  const [requests, setRequests] = useState<(HelpRequest & { userName: string })[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { origin, error: locationError } = useMyLocation(radiusKm !== null);
 
-  useEffect(() => {
-    fetchRequests();
-  }, []);
-
-  const fetchRequests = async () => {
-    setError(null);
-    setLoading(true);
-
-    try {
-      // Fetch help requests
-      const { data: requestsData, error: requestsError } = await supabase
-        .from("help_requests")
-        .select("*")
-        .eq("status", "open")
-        .order("created_at", { ascending: false });
-
-      if (requestsError) {
-        console.error("Requests fetch error:", requestsError);
-        throw new Error("Failed to load help requests");
-      }
-
-      // Fetch profiles for the user names
-      const userIds = [...new Set(requestsData?.map(r => r.user_id) || [])];
-      
-      let profileMap = new Map<string, string>();
-      
-      if (userIds.length > 0) {
-        const { data: profilesData, error: profilesError } = await supabase
-          .from("profiles")
-          .select("id, full_name")
-          .in("id", userIds);
-
-        if (profilesError) {
-          console.error("Profiles fetch error:", profilesError);
-        } else {
-          profilesData?.forEach((p: Profile) => {
-            profileMap.set(p.id, p.full_name || "Anonymous");
-          });
-        }
-      }
-
-      const requestsWithNames = (requestsData || []).map(r => ({
-        ...r,
-        userName: profileMap.get(r.user_id) || "Anonymous"
-      }));
-
-      setRequests(requestsWithNames);
-    } catch (err) {
-      setError("Failed to load help requests. Please try again.");
-      console.error("Fetch error:", err);
-    } finally {
-      setLoading(false);
-    }
+  const statusFilter = HELP_REQUEST_STATUS_FILTERS.find((f) => f.value === selectedStatus) ?? HELP_REQUEST_STATUS_FILTERS[0];
+  const filters: HelpRequestFeedFilters = {
+    search: searchQuery,
+    location: locationQuery,
+    category: selectedCategory,
+    subcategory: selectedSubcategory,
+    details: selectedDetails,
+    radiusKm,
+    origin,
+    statuses: statusFilter.statuses,
+    urgency: selectedUrgency === URGENCY_FILTERS[0].value ? null : selectedUrgency,
   };
+  // Wait for the user's position before applying a distance filter
+  const ready = radiusKm === null || origin !== null;
+  const feedQuery = useHelpRequests(filters, page, ready && view === "list");
+  const mapQuery = useHelpRequestMapItems(filters, ready && view === "map");
+  const activeQuery = view === "map" ? mapQuery : feedQuery;
 
-  const filteredRequests = requests.filter((request) => {
-    const matchesSearch = request.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      (request.description?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false);
-    const matchesCategory = selectedCategory === "All" || request.category === selectedCategory;
-    return matchesSearch && matchesCategory;
-  });
+  const requests = feedQuery.data?.items ?? [];
+  const totalCount = feedQuery.data?.count ?? 0;
+  const mapItems = mapQuery.data ?? [];
+  const loading = activeQuery.isPending;
+  const error = activeQuery.isError ? "Failed to load help requests. Please try again." : null;
 
-  const handleOffer = (title: string) => {
-    toast.success(`Thank you for offering to help with "${title}"! The requester will be notified.`);
-  };
+  const hasFilters = Boolean(
+    searchQuery ||
+      locationQuery ||
+      radiusKm ||
+      selectedCategory ||
+      selectedUrgency !== URGENCY_FILTERS[0].value ||
+      selectedStatus !== HELP_REQUEST_STATUS_FILTERS[0].value
+  );
+  const totalPages = Math.ceil(totalCount / FEED_PAGE_SIZE);
+
+  const updateFilters = useCallback(
+    (updates: Record<string, string | null>) => {
+      setSearchParams((current) => applyFilterParams(current, updates), { replace: true });
+    },
+    [setSearchParams]
+  );
+
+  // Without a location the distance filter can't apply, so drop it
+  useEffect(() => {
+    if (!locationError) return;
+    toast.error(locationError);
+    updateFilters({ within: null });
+  }, [locationError, updateFilters]);
+
+  // Keep the inputs in step with the URL on back/forward navigation. The URL
+  // holds trimmed values, so input that only differs by whitespace is left as
+  // typed rather than losing a trailing space mid-word.
+  useEffect(() => {
+    setSearchInput((current) => (current.trim() === searchQuery ? current : searchQuery));
+  }, [searchQuery]);
+
+  useEffect(() => {
+    setLocationInput((current) => (current.trim() === locationQuery ? current : locationQuery));
+  }, [locationQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery && locationInput.trim() === locationQuery) return;
+
+    const timeout = setTimeout(() => {
+      updateFilters({ q: searchInput.trim() || null, location: locationInput.trim() || null });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchInput, locationInput, searchQuery, locationQuery, updateFilters]);
 
   return (
     <Layout>
@@ -109,9 +137,29 @@ const HelpRequests = () => {
             <h1 className="text-3xl font-bold text-foreground mb-2">Help Requests</h1>
             <p className="text-muted-foreground">See who needs help and make a difference today</p>
           </div>
-          <Link to="/request-help/new">
-            <Button variant="hero">Submit a Request</Button>
-          </Link>
+          <div className="flex gap-2">
+            <div className="flex rounded-lg border border-border p-1">
+              <Button
+                variant={view === "list" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateFilters({ view: null })}
+              >
+                <LayoutGrid className="h-4 w-4" />
+                List
+              </Button>
+              <Button
+                variant={view === "map" ? "default" : "ghost"}
+                size="sm"
+                onClick={() => updateFilters({ view: "map" })}
+              >
+                <MapIcon className="h-4 w-4" />
+                Map
+              </Button>
+            </div>
+            <Link to="/request-help/new">
+              <Button variant="hero">Submit a Request</Button>
+            </Link>
+          </div>
         </div>
 
         {/* Search and Filter */}
@@ -122,23 +170,77 @@ const HelpRequests = () => {
               <Input
                 placeholder="Search help requests..."
                 className="pl-10 h-12"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
               />
             </div>
-            <div className="flex gap-2 flex-wrap">
-              {CATEGORIES.map((category) => (
-                <Button
-                  key={category}
-                  variant={selectedCategory === category ? "default" : "outline"}
-                  size="sm"
-                  onClick={() => setSelectedCategory(category)}
-                  className="transition-all"
-                >
-                  {category}
-                </Button>
-              ))}
+            <div className="relative md:w-56">
+              <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+              <Input
+                placeholder="Location"
+                className="pl-10 h-12"
+                value={locationInput}
+                onChange={(e) => setLocationInput(e.target.value)}
+              />
             </div>
+            <Select
+              value={radiusKm ? String(radiusKm) : "any"}
+              onValueChange={(value) => updateFilters({ within: value === "any" ? null : value })}
+            >
+              <SelectTrigger className="h-12 md:w-44">
+                <SelectValue placeholder="Any distance" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any distance</SelectItem>
+                {DISTANCE_FILTERS.map((km) => (
+                  <SelectItem key={km} value={String(km)}>
+                    Within {km} km
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <CategoryFilter
+              category={selectedCategory}
+              subcategory={selectedSubcategory}
+              onChange={(category, subcategory) =>
+                updateFilters({
+                  category,
+                  subcategory,
+                  // Each category has its own fields, so their filters don't carry over
+                  ...(category === selectedCategory ? {} : clearDetailParams(searchParams)),
+                })
+              }
+              details={selectedDetails}
+              onDetailChange={(key, value) => updateFilters({ [toDetailParam(key)]: value })}
+            />
+          </div>
+          <div className="flex gap-2 flex-wrap items-center mt-4 pt-4 border-t border-border">
+            <span className="text-sm text-muted-foreground mr-1">Status:</span>
+            {HELP_REQUEST_STATUS_FILTERS.map((filter) => (
+              <Button
+                key={filter.value}
+                variant={selectedStatus === filter.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => updateFilters({ status: filter.value === HELP_REQUEST_STATUS_FILTERS[0].value ? null : filter.value })}
+                className="transition-all"
+              >
+                {filter.label}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2 flex-wrap items-center mt-4">
+            <span className="text-sm text-muted-foreground mr-1">Urgency:</span>
+            {URGENCY_FILTERS.map((filter) => (
+              <Button
+                key={filter.value}
+                variant={selectedUrgency === filter.value ? "default" : "outline"}
+                size="sm"
+                onClick={() => updateFilters({ urgency: filter.value === URGENCY_FILTERS[0].value ? null : filter.value })}
+                className="transition-all"
+              >
+                {filter.label}
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -147,7 +249,7 @@ const HelpRequests = () => {
           <div className="text-center py-16">
             <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
             <div className="text-muted-foreground text-lg mb-4">{error}</div>
-            <Button variant="hero" onClick={fetchRequests}>Try Again</Button>
+            <Button variant="hero" onClick={() => activeQuery.refetch()}>Try Again</Button>
           </div>
         )}
 
@@ -158,10 +260,22 @@ const HelpRequests = () => {
           </div>
         )}
 
+        {/* Map View */}
+        {!loading && !error && view === "map" && (
+          <div className="space-y-3">
+            <ItemMap items={mapItems} center={origin} />
+            <p className="text-sm text-muted-foreground text-center">
+              {mapItems.length > 0
+                ? `Showing ${mapItems.length} ${mapItems.length === 1 ? "post" : "posts"} with a location`
+                : "No help requests with a location match these filters"}
+            </p>
+          </div>
+        )}
+
         {/* Requests Grid */}
-        {!loading && !error && filteredRequests.length > 0 && (
+        {!loading && !error && view === "list" && requests.length > 0 && (
           <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6">
-            {filteredRequests.map((request, index) => (
+            {requests.map((request, index) => (
               <div 
                 key={request.id} 
                 className="animate-slide-up"
@@ -172,23 +286,41 @@ const HelpRequests = () => {
                   title={request.title}
                   description={request.description || ""}
                   category={request.category}
+                  subcategory={request.subcategory}
+                  details={request.details}
                   location={request.location || "Not specified"}
                   userName={request.userName}
                   urgency={request.urgency as "low" | "medium" | "high"}
+                  status={request.status}
                   createdAt={formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
-                  onOffer={() => handleOffer(request.title)}
+                  imageUrl={request.imageUrl}
+                  distance={
+                    origin && request.latitude !== null && request.longitude !== null
+                      ? formatDistance(distanceKm(origin, { latitude: request.latitude, longitude: request.longitude }))
+                      : undefined
+                  }
+                  offerCount={request.offerCount}
+                  // Offers and reports are stored on the hosted backend only
+                  onOffer={IS_LOCAL_BACKEND ? undefined : () => setOfferTarget(request)}
+                  onReport={
+                    IS_LOCAL_BACKEND || request.user_id === user?.id
+                      ? undefined
+                      : () => setReportTarget({ type: "help_request", id: request.id, title: request.title, user_id: request.user_id })
+                  }
                 />
               </div>
             ))}
           </div>
         )}
 
+        {!loading && !error && view === "list" && <FeedPagination page={page} totalPages={totalPages} />}
+
         {/* Empty State */}
-        {!loading && !error && filteredRequests.length === 0 && (
+        {!loading && !error && view === "list" && requests.length === 0 && (
           <div className="text-center py-16">
             <div className="text-muted-foreground text-lg mb-4">No help requests found</div>
             <p className="text-sm text-muted-foreground mb-6">
-              {requests.length > 0 ? "Try adjusting your search or filters" : "Be the first to submit a request!"}
+              {hasFilters ? "Try adjusting your search or filters" : "Be the first to submit a request!"}
             </p>
             <Link to="/request-help/new">
               <Button variant="hero">Submit a Request</Button>
@@ -196,6 +328,19 @@ const HelpRequests = () => {
           </div>
         )}
       </div>
+
+      <OfferHelpDialog
+        request={offerTarget}
+        open={offerTarget !== null}
+        onOpenChange={(open) => !open && setOfferTarget(null)}
+        onOffered={() => feedQuery.refetch()}
+      />
+
+      <ReportDialog
+        target={reportTarget}
+        open={reportTarget !== null}
+        onOpenChange={(open) => !open && setReportTarget(null)}
+      />
     </Layout>
   );
 };
@@ -2,6 +2,7 @@ import { Link } from "react-router-dom";
 import { Heart, Gift, HelpCircle, Users, ArrowRight, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import Layout from "@/components/Layout";
+import { usePlatformStats } from "@/hooks/usePlatformStats";
 import heroImage from "@/assets/hero-illustration.png";
 
 const Index = () => {
@@ -23,18 +24,29 @@ const Index = () => {
     },
   ];
 
-  const howItWorks = [
+  const howItWorks: { step: string; title: string; description: string; link?: { to: string; label: string } }[] = [
     { step: "1", title: "Sign Up", description: "Create your free account in seconds" },
     { step: "2", title: "Post or Browse", description: "Share donations or browse available help" },
-    { step: "3", title: "Connect", description: "Match with helpers or seekers in your area" },
+    {
+      step: "3",
+      title: "Connect",
+      description: "Match with helpers or seekers in your area",
+      link: { to: "/profile?tab=matches", label: "See your matches" },
+    },
     { step: "4", title: "Make Impact", description: "Complete the exchange and spread kindness" },
   ];
 
+  const { data: platformStats } = usePlatformStats();
+
+  // Dashes stand in until the numbers load, or when there's nothing to count yet
+  const formatStat = (value: number | null | undefined, suffix = "") =>
+    value === null || value === undefined ? "—" : `${value.toLocaleString()}${suffix}`;
+
   const stats = [
-    { value: "1,200+", label: "Items Donated" },
-    { value: "850+", label: "People Helped" },
-    { value: "500+", label: "Active Members" },
-    { value: "95%", label: "Success Rate" },
+    { value: formatStat(platformStats?.donations_given), label: "Items Donated" },
+    { value: formatStat(platformStats?.requests_fulfilled), label: "People Helped" },
+    { value: formatStat(platformStats?.active_members), label: "Active Members" },
+    { value: formatStat(platformStats?.fulfillment_rate, "%"), label: "Success Rate" },
   ];
 
   return (
@@ -174,6 +186,11 @@ const Index = () => {
                   <p className="text-sm text-muted-foreground">
                     {item.description}
                   </p>
+                  {item.link && (
+                    <Link to={item.link.to} className="inline-block mt-3 text-sm font-medium text-primary hover:underline">
+                      {item.link.label}
+                    </Link>
+                  )}
                 </div>
                 {index < howItWorks.length - 1 && (
                   <div className="hidden md:block absolute top-1/2 -right-3 transform -translate-y-1/2 z-10">
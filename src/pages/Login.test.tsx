@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { toast } from "sonner";
+import Login from "@/pages/Login";
+import { fakeSession, fakeSupabase } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const fillIn = async (email: string, password: string) => {
+  const user = userEvent.setup();
+  if (email) await user.type(await screen.findByLabelText("Email Address"), email);
+  if (password) await user.type(screen.getByLabelText("Password"), password);
+  await user.click(screen.getByRole("button", { name: "Sign In" }));
+};
+
+describe("Login", () => {
+  it("asks for both fields before signing in", async () => {
+    renderPage(<Login />, { route: "/login" });
+
+    await userEvent.type(await screen.findByLabelText("Email Address"), "member@example.com");
+    // Skip the browser's required-field check so the page's own validation runs
+    fireEvent.submit(screen.getByRole("button", { name: "Sign In" }).closest("form")!);
+
+    expect(toast.error).toHaveBeenCalledWith("Please fill in all fields");
+    expect(fakeSupabase.client.auth.signInWithPassword).not.toHaveBeenCalled();
+  });
+
+  it("explains rejected credentials", async () => {
+    fakeSupabase.client.auth.signInWithPassword.mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: new Error("Invalid login credentials"),
+    });
+    renderPage(<Login />, { route: "/login" });
+
+    await fillIn("member@example.com", "wrong-password");
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith("Invalid email or password"));
+    expect(screen.getByTestId("location")).toHaveTextContent("/login");
+  });
+
+  it("asks unconfirmed users to verify their email", async () => {
+    fakeSupabase.client.auth.signInWithPassword.mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: new Error("Email not confirmed"),
+    });
+    renderPage(<Login />, { route: "/login" });
+
+    await fillIn("member@example.com", "secret123");
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith("Please verify your email before signing in"));
+  });
+
+  it("returns to the page that asked for sign-in", async () => {
+    renderPage(<Login />, { route: "/login?next=%2Fmessages" });
+
+    await fillIn("member@example.com", "secret123");
+
+    expect(fakeSupabase.client.auth.signInWithPassword).toHaveBeenCalledWith({
+      email: "member@example.com",
+      password: "secret123",
+    });
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/messages$/));
+    expect(toast.success).toHaveBeenCalledWith("Welcome back!");
+  });
+
+  it("ignores a next path that leaves the site", async () => {
+    renderPage(<Login />, { route: "/login?next=%2F%2Fevil.example" });
+
+    await fillIn("member@example.com", "secret123");
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/$/));
+  });
+
+  it("moves on straight away when already signed in", async () => {
+    fakeSupabase.setSession(fakeSession());
+    renderPage(<Login />, { route: "/login?next=%2Fprofile" });
+
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent(/^\/profile$/));
+  });
+});
@@ -1,16 +1,27 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { Eye, EyeOff, Mail, Lock, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
+import OtpSignInForm from "@/components/OtpSignInForm";
+import OAuthButtons from "@/components/OAuthButtons";
+import { getSafeNextPath } from "@/lib/authRedirect";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import { DEMO_ADMIN_EMAIL, DEMO_MEMBER_EMAIL, DEMO_OTP_CODE, DEMO_PASSWORD } from "@/lib/api/demoAccounts";
 
 const Login = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { signIn, user, loading: authLoading } = useAuth();
+  // Where to go once signed in, e.g. the protected page that sent us here
+  const nextPath = getSafeNextPath(searchParams.get("next"));
+  // Magic links and OAuth providers return here, and the effect below moves on to `next`
+  const returnUrl = `${window.location.origin}/login${window.location.search}`;
   const [showPassword, setShowPassword] = useState(false);
+  const [useCode, setUseCode] = useState(false);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     email: "",
@@ -19,9 +30,9 @@ const Login = () => {
 
   useEffect(() => {
     if (!authLoading && user) {
-      navigate("/");
+      navigate(nextPath, { replace: true });
     }
-  }, [user, authLoading, navigate]);
+  }, [user, authLoading, navigate, nextPath]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -47,7 +58,7 @@ const Login = () => {
       }
     } else {
       toast.success("Welcome back!");
-      navigate("/");
+      navigate(nextPath, { replace: true });
     }
   };
 
@@ -73,63 +84,83 @@ const Login = () => {
             </Link>
             <h1 className="text-3xl font-bold text-foreground mb-2">Welcome Back</h1>
             <p className="text-muted-foreground">
-              Enter your credentials to access your account
+              {useCode ? "We'll send you a one-time sign-in code" : "Enter your credentials to access your account"}
             </p>
           </div>
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email Address</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="user@example.com"
-                  className="pl-10 h-12"
-                  value={formData.email}
-                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                  required
-                />
-              </div>
+          {IS_LOCAL_BACKEND && (
+            <div className="rounded-lg border border-border bg-secondary/50 p-4 text-sm text-muted-foreground">
+              Demo mode: sign in as <span className="font-medium text-foreground">{DEMO_MEMBER_EMAIL}</span> or{" "}
+              <span className="font-medium text-foreground">{DEMO_ADMIN_EMAIL}</span> with the password{" "}
+              <span className="font-medium text-foreground">{DEMO_PASSWORD}</span>. Sign-in codes are always{" "}
+              <span className="font-medium text-foreground">{DEMO_OTP_CODE}</span>.
             </div>
+          )}
 
-            <div className="space-y-2">
-              <div className="flex justify-between">
-                <Label htmlFor="password">Password</Label>
-                <a href="#" className="text-sm text-primary hover:underline">
-                  Forgot password?
-                </a>
+          {useCode ? (
+            <OtpSignInForm redirectTo={returnUrl} onCancel={() => setUseCode(false)} />
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="email">Email Address</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="user@example.com"
+                    className="pl-10 h-12"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    required
+                  />
+                </div>
               </div>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  placeholder="••••••••"
-                  className="pl-10 pr-10 h-12"
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  required
-                />
-                <button
-                  type="button"
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
-                </button>
+
+              <div className="space-y-2">
+                <div className="flex justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <Link to="/forgot-password" className="text-sm text-primary hover:underline">
+                    Forgot password?
+                  </Link>
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type={showPassword ? "text" : "password"}
+                    placeholder="••••••••"
+                    className="pl-10 pr-10 h-12"
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    required
+                  />
+                  <button
+                    type="button"
+                    className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? <EyeOff className="h-5 w-5" /> : <Eye className="h-5 w-5" />}
+                  </button>
+                </div>
               </div>
-            </div>
 
-            <Button type="submit" variant="hero" className="w-full" size="lg" disabled={loading}>
-              {loading ? "Signing in..." : "Sign In"}
-            </Button>
-          </form>
+              <Button type="submit" variant="hero" className="w-full" size="lg" disabled={loading}>
+                {loading ? "Signing in..." : "Sign In"}
+              </Button>
+
+              <Button type="button" variant="outline" className="w-full" size="lg" onClick={() => setUseCode(true)}>
+                <Mail className="h-4 w-4" />
+                Email me a sign-in code
+              </Button>
+            </form>
+          )}
+
+          <OAuthButtons redirectTo={returnUrl} />
 
           <p className="text-center text-muted-foreground">
             Don't have an account?{" "}
-            <Link to="/signup" className="text-primary font-medium hover:underline">
+            <Link to={{ pathname: "/signup", search: searchParams.toString() }} className="text-primary font-medium hover:underline">
               Sign up
             </Link>
           </p>
@@ -0,0 +1,240 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link, useParams } from "react-router-dom";
+import { ArrowLeft, MessageSquare, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Layout from "@/components/Layout";
+import MessageThread from "@/components/MessageThread";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+interface Conversation {
+  id: string;
+  donation_id: string | null;
+  help_request_id: string | null;
+  last_message_at: string | null;
+  last_message_preview: string | null;
+  created_at: string;
+  donations: { title: string } | null;
+  help_requests: { title: string } | null;
+  conversation_participants: { user_id: string; last_read_at: string }[];
+}
+
+interface ConversationSummary {
+  id: string;
+  subject: string;
+  subjectLink: string;
+  otherName: string;
+  preview: string | null;
+  lastActivity: string;
+  unread: boolean;
+}
+
+const Messages = () => {
+  const { id: activeId } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchConversations = useCallback(async () => {
+    if (!user) return;
+
+    setError(null);
+
+    try {
+      const { data, error } = await supabase
+        .from("conversations")
+        .select(
+          "id, donation_id, help_request_id, last_message_at, last_message_preview, created_at, donations(title), help_requests(title), conversation_participants(user_id, last_read_at)"
+        )
+        .order("last_message_at", { ascending: false, nullsFirst: false });
+
+      if (error) {
+        console.error("Conversations fetch error:", error);
+        throw new Error("Failed to load conversations");
+      }
+
+      const rows = (data || []) as Conversation[];
+
+      // Fetch profiles for the other participants' names
+      const otherIds = [
+        ...new Set(
+          rows.flatMap((c) => c.conversation_participants.map((p) => p.user_id)).filter((id) => id !== user.id)
+        ),
+      ];
+      const profileMap = new Map<string, string>();
+
+      if (otherIds.length > 0) {
+        const { data: profilesData, error: profilesError } = await supabase
+          .from("profiles")
+          .select("id, full_name")
+          .in("id", otherIds);
+
+        if (profilesError) {
+          console.error("Profiles fetch error:", profilesError);
+        } else {
+          profilesData?.forEach((p) => {
+            profileMap.set(p.id, p.full_name || "Anonymous");
+          });
+        }
+      }
+
+      setConversations(rows.map((c) => {
+        const me = c.conversation_participants.find((p) => p.user_id === user.id);
+        const other = c.conversation_participants.find((p) => p.user_id !== user.id);
+        return {
+          id: c.id,
+          subject: c.donations?.title || c.help_requests?.title || "Removed item",
+          subjectLink: c.donation_id ? `/donate/${c.donation_id}` : `/request-help/${c.help_request_id}`,
+          otherName: (other && profileMap.get(other.user_id)) || "Anonymous",
+          preview: c.last_message_preview,
+          lastActivity: c.last_message_at || c.created_at,
+          unread: Boolean(c.last_message_at && me && new Date(c.last_message_at) > new Date(me.last_read_at)),
+        };
+      }));
+    } catch (err) {
+      setError("Failed to load your messages. Please try again.");
+      console.error("Messages fetch error:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    fetchConversations();
+  }, [fetchConversations]);
+
+  // Keep the inbox previews fresh while the page is open
+  useEffect(() => {
+    if (!user) return;
+
+    const channel = supabase
+      .channel(`inbox:${user.id}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "messages" }, () => {
+        fetchConversations();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchConversations]);
+
+  const handleRead = useCallback(() => {
+    setConversations((current) => current.map((c) => (c.id === activeId ? { ...c, unread: false } : c)));
+  }, [activeId]);
+
+  const active = conversations.find((c) => c.id === activeId);
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  if (error) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
+            <div className="text-muted-foreground text-lg mb-4">{error}</div>
+            <Button variant="hero" onClick={fetchConversations}>Try Again</Button>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-8 animate-slide-up">
+          <h1 className="text-3xl font-bold text-foreground mb-2">Messages</h1>
+          <p className="text-muted-foreground">
+            Coordinate handovers privately without sharing your phone number
+          </p>
+        </div>
+
+        <div className="bg-card rounded-xl border border-border shadow-soft overflow-hidden grid md:grid-cols-3 h-[70vh] animate-slide-up" style={{ animationDelay: "0.1s" }}>
+          {/* Inbox */}
+          <div className={cn("border-r border-border overflow-y-auto", activeId && "hidden md:block")}>
+            {conversations.length > 0 ? (
+              conversations.map((conversation) => (
+                <Link
+                  key={conversation.id}
+                  to={`/messages/${conversation.id}`}
+                  className={cn(
+                    "block px-4 py-3 border-b border-border hover:bg-secondary/50 transition-colors",
+                    conversation.id === activeId && "bg-secondary"
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className={cn("text-sm text-foreground line-clamp-1", conversation.unread && "font-semibold")}>
+                      {conversation.otherName}
+                    </span>
+                    <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                      {formatDistanceToNow(new Date(conversation.lastActivity), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <p className="text-xs text-primary line-clamp-1">{conversation.subject}</p>
+                  <div className="flex items-center gap-2">
+                    <p className="text-xs text-muted-foreground line-clamp-1 flex-1">
+                      {conversation.preview || "No messages yet"}
+                    </p>
+                    {conversation.unread && <span className="h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+                  </div>
+                </Link>
+              ))
+            ) : (
+              <div className="text-center py-12 px-4">
+                <MessageSquare className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground text-sm">
+                  No conversations yet. Message a donor or requester from their post to get started.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Thread */}
+          <div className={cn("md:col-span-2 flex flex-col min-h-0", !activeId && "hidden md:flex")}>
+            {activeId && user ? (
+              <>
+                <div className="flex items-center gap-3 border-b border-border px-4 py-3">
+                  <Link to="/messages" className="md:hidden text-muted-foreground hover:text-primary">
+                    <ArrowLeft className="h-5 w-5" />
+                  </Link>
+                  <div>
+                    <p className="font-medium text-foreground">{active?.otherName || "Conversation"}</p>
+                    {active && (
+                      <Link to={active.subjectLink} className="text-xs text-primary hover:underline">
+                        {active.subject}
+                      </Link>
+                    )}
+                  </div>
+                </div>
+                <div className="flex-1 min-h-0">
+                  <MessageThread key={activeId} conversationId={activeId} userId={user.id} onRead={handleRead} />
+                </div>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-muted-foreground text-sm">
+                Select a conversation to start messaging
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,109 @@
+import { useNavigate } from "react-router-dom";
+import { Bell, CheckCheck, Gift, HandHeart, MessageSquare, RefreshCw, Sparkles } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import Layout from "@/components/Layout";
+import { useNotifications, type Notification } from "@/hooks/useNotifications";
+import { formatDistanceToNow } from "date-fns";
+import { cn } from "@/lib/utils";
+
+const NOTIFICATION_ICONS: Record<Notification["type"], typeof Bell> = {
+  offer_received: HandHeart,
+  offer_updated: HandHeart,
+  claim_received: Gift,
+  claim_updated: Gift,
+  request_status_changed: RefreshCw,
+  donation_status_changed: RefreshCw,
+  message_received: MessageSquare,
+  donation_suggested: Sparkles,
+};
+
+const Notifications = () => {
+  const navigate = useNavigate();
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications();
+
+  const handleOpen = (notification: Notification) => {
+    markRead(notification.id);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  if (loading && notifications.length === 0) {
+    return (
+      <Layout>
+        <div className="container mx-auto px-4 py-8">
+          <div className="text-center py-16">
+            <div className="text-muted-foreground text-lg">Loading...</div>
+          </div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-2xl mx-auto">
+          {/* Header */}
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8 animate-slide-up">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">Notifications</h1>
+              <p className="text-muted-foreground">
+                {unreadCount > 0 ? `You have ${unreadCount} unread ${unreadCount === 1 ? "notification" : "notifications"}` : "You're all caught up"}
+              </p>
+            </div>
+            {unreadCount > 0 && (
+              <Button variant="outline" size="sm" onClick={markAllRead}>
+                <CheckCheck className="h-4 w-4" />
+                Mark all as read
+              </Button>
+            )}
+          </div>
+
+          <div className="bg-card rounded-xl border border-border shadow-soft divide-y divide-border animate-slide-up" style={{ animationDelay: "0.1s" }}>
+            {notifications.length > 0 ? (
+              notifications.map((notification) => {
+                const Icon = NOTIFICATION_ICONS[notification.type] || Bell;
+                return (
+                  <button
+                    key={notification.id}
+                    className={cn(
+                      "w-full text-left flex items-start gap-4 p-4 hover:bg-secondary/50 transition-colors",
+                      !notification.read_at && "bg-primary/5"
+                    )}
+                    onClick={() => handleOpen(notification)}
+                  >
+                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-secondary">
+                      <Icon className="h-5 w-5 text-primary" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className={cn("text-sm text-foreground", !notification.read_at && "font-semibold")}>
+                        {notification.title}
+                      </p>
+                      {notification.body && (
+                        <p className="text-sm text-muted-foreground line-clamp-2">{notification.body}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    </div>
+                    {!notification.read_at && <span className="mt-2 h-2 w-2 rounded-full bg-primary flex-shrink-0" />}
+                  </button>
+                );
+              })
+            ) : (
+              <div className="text-center py-16">
+                <Bell className="h-10 w-10 text-muted-foreground mx-auto mb-4" />
+                <p className="text-muted-foreground">
+                  No notifications yet. We'll let you know when someone responds to your posts.
+                </p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </Layout>
+  );
+};
+
+export default Notifications;
@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { toast } from "sonner";
+import Profile from "@/pages/Profile";
+import type { Donation } from "@/lib/api/donations";
+import { fakeSession, fakeSupabase, hasStep, ok, type FakeResult } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+const donation = (overrides: Partial<Donation> = {}): Donation => ({
+  id: "donation-1",
+  user_id: "user-1",
+  title: "Winter jackets",
+  category: "clothing",
+  subcategory: null,
+  details: {},
+  description: "Three warm jackets, size M",
+  location: "Pune",
+  latitude: null,
+  longitude: null,
+  city: null,
+  region: null,
+  status: "available",
+  hidden_at: null,
+  hidden_by: null,
+  created_at: new Date().toISOString(),
+  updated_at: new Date().toISOString(),
+  ...overrides,
+});
+
+// Serves `rows` to list queries and answers deletes with `deleteResult`,
+// dropping the row when the delete succeeds
+const serveDonations = (rows: Donation[], deleteResult: FakeResult = ok()) => {
+  fakeSupabase.respond("donations", (query) => {
+    if (query.steps[0]?.method !== "delete") return ok(rows);
+    if (!deleteResult.error) rows = rows.filter((row) => !hasStep(query, "eq", "id", row.id));
+    return deleteResult;
+  });
+};
+
+const confirmDelete = async (title: string) => {
+  const user = userEvent.setup();
+  const card = screen.getByText(title).closest("div.rounded-lg") as HTMLElement;
+  await user.click(within(card).getByRole("button", { name: "Delete" }));
+  const dialog = await screen.findByRole("alertdialog");
+  await user.click(within(dialog).getByRole("button", { name: "Delete" }));
+};
+
+describe("Profile", () => {
+  beforeEach(() => {
+    fakeSupabase.setSession(fakeSession());
+  });
+
+  it("lists the member's own posts", async () => {
+    serveDonations([donation(), donation({ id: "donation-2", title: "Study table" })]);
+    renderPage(<Profile />, { route: "/profile" });
+
+    expect(await screen.findByText("Winter jackets")).toBeInTheDocument();
+    expect(screen.getByText("Study table")).toBeInTheDocument();
+    expect(screen.getByRole("tab", { name: "My Donations (2)" })).toBeInTheDocument();
+    expect(hasStep(fakeSupabase.queriesFor("donations")[0], "eq", "user_id", "user-1")).toBe(true);
+  });
+
+  it("removes a donation once the delete is confirmed", async () => {
+    serveDonations([donation(), donation({ id: "donation-2", title: "Study table" })]);
+    renderPage(<Profile />, { route: "/profile" });
+    await screen.findByText("Winter jackets");
+
+    await confirmDelete("Winter jackets");
+
+    await waitFor(() => expect(toast.success).toHaveBeenCalledWith("Donation deleted successfully"));
+    expect(screen.queryByText("Winter jackets")).not.toBeInTheDocument();
+    expect(screen.getByText("Study table")).toBeInTheDocument();
+  });
+
+  it("puts the donation back when the delete is refused", async () => {
+    serveDonations([donation()], { error: { code: "42501", message: "denied" } });
+    renderPage(<Profile />, { route: "/profile" });
+    await screen.findByText("Winter jackets");
+
+    await confirmDelete("Winter jackets");
+
+    await waitFor(() =>
+      expect(toast.error).toHaveBeenCalledWith("You don't have permission to delete this donation")
+    );
+    expect(await screen.findByText("Winter jackets")).toBeInTheDocument();
+  });
+
+  it("offers a retry when the posts fail to load", async () => {
+    fakeSupabase.respond("help_requests", { error: { code: "XX000", message: "boom" } });
+    renderPage(<Profile />, { route: "/profile" });
+
+    expect(await screen.findByText("Failed to load your data. Please try refreshing the page.")).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "Try Again" })).toBeInTheDocument();
+  });
+});
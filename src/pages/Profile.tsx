@@ -1,13 +1,30 @@
-import { useState, useEffect } from "react";
-import { Edit, Trash2, Plus, AlertCircle } from "lucide-react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Edit, Trash2, Plus, AlertCircle, ChevronDown, Settings } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Layout from "@/components/Layout";
-import { Link, useNavigate } from "react-router-dom";
+import HelpOffersPanel from "@/components/HelpOffersPanel";
+import DonationClaimsPanel from "@/components/DonationClaimsPanel";
+import MatchesPanel from "@/components/MatchesPanel";
+import LocalBackendNotice from "@/components/LocalBackendNotice";
+import CategoryBadge from "@/components/CategoryBadge";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
-import { supabase } from "@/integrations/supabase/client";
+import { updateCachedLists } from "@/lib/api/cache";
+import { IS_LOCAL_BACKEND } from "@/lib/api/backend";
+import type { Donation } from "@/lib/api/donations";
+import { getErrorMessage } from "@/lib/api/errors";
+import { donationKeys } from "@/lib/api/queryKeys";
+import { DONATION_STATUS_META, type DonationStatus } from "@/lib/donationStatus";
+import {
+  HELP_REQUEST_STATUS_META,
+  HELP_REQUEST_TRANSITIONS,
+  type HelpRequestStatus,
+} from "@/lib/helpRequestStatus";
 import { useAuth } from "@/hooks/useAuth";
+import { useDeleteDonation, useUserDonations } from "@/hooks/useDonations";
+import { useDeleteHelpRequest, useUpdateHelpRequest, useUserHelpRequests } from "@/hooks/useHelpRequests";
 import { formatDistanceToNow } from "date-fns";
 import {
   AlertDialog,
@@ -20,134 +37,82 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-
-interface Donation {
-  id: string;
-  title: string;
-  description: string | null;
-  category: string;
-  created_at: string;
-}
-
-interface HelpRequest {
-  id: string;
-  title: string;
-  description: string | null;
-  category: string;
-  urgency: string;
-  created_at: string;
-}
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 const Profile = () => {
-  const { user, loading: authLoading } = useAuth();
+  const { user } = useAuth();
   const navigate = useNavigate();
-  const [donations, setDonations] = useState<Donation[]>([]);
-  const [requests, setRequests] = useState<HelpRequest[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    if (!authLoading && !user) {
-      navigate("/login");
-      return;
-    }
-    if (user) {
-      fetchUserData();
-    }
-  }, [user, authLoading, navigate]);
-
-  const fetchUserData = async () => {
-    if (!user) return;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const queryClient = useQueryClient();
+  const donationsQuery = useUserDonations(user?.id);
+  const requestsQuery = useUserHelpRequests(user?.id);
+  const deleteDonation = useDeleteDonation();
+  const deleteRequest = useDeleteHelpRequest();
+  const updateRequest = useUpdateHelpRequest();
 
-    setError(null);
-    
-    try {
-      const [donationsRes, requestsRes] = await Promise.all([
-        supabase
-          .from("donations")
-          .select("id, title, description, category, created_at")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false }),
-        supabase
-          .from("help_requests")
-          .select("id, title, description, category, urgency, created_at")
-          .eq("user_id", user.id)
-          .order("created_at", { ascending: false }),
-      ]);
+  const donations = donationsQuery.data ?? [];
+  const requests = requestsQuery.data ?? [];
+  const loading = donationsQuery.isPending || requestsQuery.isPending;
+  const error =
+    donationsQuery.isError || requestsQuery.isError ? "Failed to load your data. Please try refreshing the page." : null;
 
-      if (donationsRes.error) {
-        console.error("Donations fetch error:", donationsRes.error);
-        throw new Error("Failed to load donations");
-      }
-      
-      if (requestsRes.error) {
-        console.error("Requests fetch error:", requestsRes.error);
-        throw new Error("Failed to load help requests");
-      }
-
-      setDonations(donationsRes.data || []);
-      setRequests(requestsRes.data || []);
-    } catch (err) {
-      setError("Failed to load your data. Please try refreshing the page.");
-      console.error("Profile data fetch error:", err);
-    } finally {
-      setLoading(false);
-    }
+  const refetch = () => {
+    donationsQuery.refetch();
+    requestsQuery.refetch();
   };
 
-  const getCategoryColor = (cat: string) => {
-    const colors: Record<string, string> = {
-      Clothing: "bg-blue-100 text-blue-700",
-      Electronics: "bg-purple-100 text-purple-700",
-      Education: "bg-green-100 text-green-700",
-      Food: "bg-orange-100 text-orange-700",
-      Services: "bg-pink-100 text-pink-700",
-      Other: "bg-gray-100 text-gray-700",
-    };
-    return colors[cat] || colors.Other;
+  // Accepting or completing a claim moves the donation along; show it here and drop it from the feed
+  const handleDonationStatusChange = (id: string, status: DonationStatus) => {
+    updateCachedLists<Donation>(queryClient, donationKeys.lists(), (rows) =>
+      rows.map((d) => (d.id === id ? { ...d, status } : d))
+    );
+    queryClient.invalidateQueries({ queryKey: donationKeys.all });
   };
 
-  const handleDeleteDonation = async (id: string) => {
-    try {
-      const { error } = await supabase.from("donations").delete().eq("id", id);
-      if (error) {
-        if (error.code === "42501") {
-          toast.error("You don't have permission to delete this donation");
-        } else {
-          toast.error("Failed to delete donation");
-        }
-        console.error("Delete donation error:", error);
-      } else {
-        setDonations(donations.filter((d) => d.id !== id));
-        toast.success("Donation deleted successfully");
+  const handleRequestStatusChange = (id: string, status: HelpRequestStatus) => {
+    updateRequest.mutate(
+      { id, values: { status } },
+      {
+        onSuccess: () => toast.success(`Request marked as ${HELP_REQUEST_STATUS_META[status].label.toLowerCase()}`),
+        onError: (err) =>
+          toast.error(
+            getErrorMessage(
+              err,
+              { "42501": "You don't have permission to update this request" },
+              "Failed to update request status"
+            )
+          ),
       }
-    } catch (err) {
-      toast.error("An unexpected error occurred");
-      console.error("Unexpected delete error:", err);
-    }
+    );
   };
 
-  const handleDeleteRequest = async (id: string) => {
-    try {
-      const { error } = await supabase.from("help_requests").delete().eq("id", id);
-      if (error) {
-        if (error.code === "42501") {
-          toast.error("You don't have permission to delete this request");
-        } else {
-          toast.error("Failed to delete request");
-        }
-        console.error("Delete request error:", error);
-      } else {
-        setRequests(requests.filter((r) => r.id !== id));
-        toast.success("Request deleted successfully");
-      }
-    } catch (err) {
-      toast.error("An unexpected error occurred");
-      console.error("Unexpected delete error:", err);
-    }
+  const handleDeleteDonation = (id: string) => {
+    deleteDonation.mutate(id, {
+      onSuccess: () => toast.success("Donation deleted successfully"),
+      onError: (err) =>
+        toast.error(
+          getErrorMessage(err, { "42501": "You don't have permission to delete this donation" }, "Failed to delete donation")
+        ),
+    });
+  };
+
+  const handleDeleteRequest = (id: string) => {
+    deleteRequest.mutate(id, {
+      onSuccess: () => toast.success("Request deleted successfully"),
+      onError: (err) =>
+        toast.error(
+          getErrorMessage(err, { "42501": "You don't have permission to delete this request" }, "Failed to delete request")
+        ),
+    });
   };
 
-  if (authLoading || loading) {
+  if (loading) {
     return (
       <Layout>
         <div className="container mx-auto px-4 py-8">
@@ -166,7 +131,7 @@ const Profile = () => {
           <div className="text-center py-16">
             <AlertCircle className="h-12 w-12 text-destructive mx-auto mb-4" />
             <div className="text-muted-foreground text-lg mb-4">{error}</div>
-            <Button variant="hero" onClick={() => fetchUserData()}>Try Again</Button>
+            <Button variant="hero" onClick={refetch}>Try Again</Button>
           </div>
         </div>
       </Layout>
@@ -178,18 +143,34 @@ const Profile = () => {
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
           {/* Header */}
-          <div className="mb-8 animate-slide-up">
-            <h1 className="text-3xl font-bold text-foreground mb-2">My Profile</h1>
-            <p className="text-muted-foreground">
-              Manage your donations and help requests
-            </p>
+          <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4 mb-8 animate-slide-up">
+            <div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">My Profile</h1>
+              <p className="text-muted-foreground">
+                Manage your donations, help requests, offers and item requests
+              </p>
+            </div>
+            <Link to="/settings">
+              <Button variant="outline" size="sm">
+                <Settings className="h-4 w-4" />
+                Account Settings
+              </Button>
+            </Link>
           </div>
 
           {/* Tabs */}
-          <Tabs defaultValue="donations" className="animate-slide-up" style={{ animationDelay: "0.1s" }}>
-            <TabsList className="grid w-full grid-cols-2 mb-8">
+          <Tabs
+            value={searchParams.get("tab") || "donations"}
+            onValueChange={(tab) => setSearchParams({ tab }, { replace: true })}
+            className="animate-slide-up"
+            style={{ animationDelay: "0.1s" }}
+          >
+            <TabsList className="grid w-full grid-cols-2 md:grid-cols-5 h-auto mb-8">
               <TabsTrigger value="donations">My Donations ({donations.length})</TabsTrigger>
               <TabsTrigger value="requests">My Help Requests ({requests.length})</TabsTrigger>
+              <TabsTrigger value="offers">Offers</TabsTrigger>
+              <TabsTrigger value="claims">Item Requests</TabsTrigger>
+              <TabsTrigger value="matches">Matches</TabsTrigger>
             </TabsList>
 
             {/* Donations Tab */}
@@ -214,12 +195,15 @@ const Profile = () => {
                       >
                         <div className="flex items-start justify-between mb-2">
                           <h3 className="font-medium text-foreground line-clamp-1">
-                            {donation.title}
+                            <Link to={`/donate/${donation.id}`} className="hover:text-primary hover:underline">
+                              {donation.title}
+                            </Link>
                           </h3>
-                          <Badge className={`${getCategoryColor(donation.category)} border-0 text-xs`}>
-                            {donation.category}
-                          </Badge>
+                          <CategoryBadge category={donation.category} subcategory={donation.subcategory} />
                         </div>
+                        <Badge className={`${DONATION_STATUS_META[donation.status].className} border-0 text-xs mb-2`}>
+                          {DONATION_STATUS_META[donation.status].label}
+                        </Badge>
                         <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
                           {donation.description}
                         </p>
@@ -227,7 +211,12 @@ const Profile = () => {
                           Posted: {formatDistanceToNow(new Date(donation.created_at), { addSuffix: true })}
                         </p>
                         <div className="flex gap-2">
-                          <Button variant="outline" size="sm" className="flex-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => navigate(`/donate/${donation.id}/edit`)}
+                          >
                             <Edit className="h-3 w-3" />
                             Edit
                           </Button>
@@ -294,12 +283,35 @@ const Profile = () => {
                       >
                         <div className="flex items-start justify-between mb-2">
                           <h3 className="font-medium text-foreground line-clamp-1">
-                            {request.title}
+                            <Link to={`/request-help/${request.id}`} className="hover:text-primary hover:underline">
+                              {request.title}
+                            </Link>
                           </h3>
-                          <Badge className={`${getCategoryColor(request.category)} border-0 text-xs`}>
-                            {request.category}
-                          </Badge>
+                          <CategoryBadge category={request.category} subcategory={request.subcategory} />
                         </div>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <button className="mb-2" aria-label="Change request status">
+                              <Badge className={`${HELP_REQUEST_STATUS_META[request.status].className} border-0 text-xs gap-1`}>
+                                {HELP_REQUEST_STATUS_META[request.status].label}
+                                <ChevronDown className="h-3 w-3" />
+                              </Badge>
+                            </button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="start">
+                            <DropdownMenuLabel>Mark as</DropdownMenuLabel>
+                            {HELP_REQUEST_TRANSITIONS[request.status].map((next) => (
+                              <DropdownMenuItem
+                                key={next}
+                                onClick={() => handleRequestStatusChange(request.id, next)}
+                              >
+                                {next === "open" && request.status === "closed"
+                                  ? "Reopen"
+                                  : HELP_REQUEST_STATUS_META[next].label}
+                              </DropdownMenuItem>
+                            ))}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
                         <p className="text-sm text-muted-foreground mb-3 line-clamp-2">
                           {request.description}
                         </p>
@@ -307,7 +319,12 @@ const Profile = () => {
                           Posted: {formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}
                         </p>
                         <div className="flex gap-2">
-                          <Button variant="outline" size="sm" className="flex-1">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="flex-1"
+                            onClick={() => navigate(`/request-help/${request.id}/edit`)}
+                          >
                             <Edit className="h-3 w-3" />
                             Edit
                           </Button>
@@ -351,6 +368,33 @@ const Profile = () => {
                 )}
               </div>
             </TabsContent>
+
+            {/* Offers Tab */}
+            <TabsContent value="offers">
+              {IS_LOCAL_BACKEND ? (
+                <LocalBackendNotice feature="Offers" />
+              ) : (
+                user && <HelpOffersPanel userId={user.id} />
+              )}
+            </TabsContent>
+
+            {/* Claims Tab */}
+            <TabsContent value="claims">
+              {IS_LOCAL_BACKEND ? (
+                <LocalBackendNotice feature="Item requests" />
+              ) : (
+                user && <DonationClaimsPanel userId={user.id} onDonationStatusChange={handleDonationStatusChange} />
+              )}
+            </TabsContent>
+
+            {/* Matches Tab */}
+            <TabsContent value="matches">
+              {IS_LOCAL_BACKEND ? (
+                <LocalBackendNotice feature="Matches" />
+              ) : (
+                user && <MatchesPanel userId={user.id} />
+              )}
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -17,7 +17,7 @@ const RequestSuccess = () => {
             Request Submitted Successfully!
           </h1>
           <p className="text-lg text-muted-foreground mb-8">
-            Your help request has been posted. You will be notified when someone responds to your request. 
+            Your help request has been posted. You'll get a notification as soon as someone offers to help. 
             Thank you for using our platform.
           </p>
 
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { fireEvent, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { toast } from "sonner";
+import Signup from "@/pages/Signup";
+import { fakeSupabase } from "@/test/fakeSupabase";
+import { renderPage } from "@/test/render";
+
+interface SignupFields {
+  name?: string;
+  email?: string;
+  phone?: string;
+  password?: string;
+  confirmPassword?: string;
+}
+
+const submit = async ({
+  name = "Asha Rao",
+  email = "asha@example.com",
+  phone = "",
+  password = "secret123",
+  confirmPassword = password,
+}: SignupFields = {}) => {
+  const user = userEvent.setup();
+  const fields: [string, string][] = [
+    ["Full Name", name],
+    ["Email Address", email],
+    ["Phone Number (Optional)", phone],
+    ["Password", password],
+    ["Confirm Password", confirmPassword],
+  ];
+
+  await screen.findByLabelText("Full Name");
+  for (const [label, value] of fields) {
+    if (value) await user.type(screen.getByLabelText(label), value);
+  }
+  // Submit the form directly so the browser's required-field check doesn't pre-empt the page's validation
+  fireEvent.submit(screen.getByRole("button", { name: /create account/i }).closest("form")!);
+};
+
+describe("Signup", () => {
+  it.each([
+    [{ name: "" }, "Please fill in all required fields"],
+    [{ confirmPassword: "secret124" }, "Passwords don't match!"],
+    [{ password: "abc" }, "Password must be at least 6 characters"],
+    [{ phone: "12" }, "Please enter a valid phone number"],
+  ])("rejects %o with a toast", async (fields, message) => {
+    renderPage(<Signup />, { route: "/signup" });
+
+    await submit(fields);
+
+    expect(toast.error).toHaveBeenCalledWith(message);
+    expect(fakeSupabase.client.auth.signUp).not.toHaveBeenCalled();
+  });
+
+  it("reports an email that is already registered", async () => {
+    fakeSupabase.client.auth.signUp.mockResolvedValueOnce({
+      data: { session: null, user: null },
+      error: new Error("User already registered"),
+    });
+    renderPage(<Signup />, { route: "/signup" });
+
+    await submit();
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith("An account with this email already exists"));
+  });
+
+  it("creates the account with the profile details and heads to sign-in", async () => {
+    renderPage(<Signup />, { route: "/signup?next=%2Fdonate%2Fnew" });
+
+    await submit({ phone: "+91 98765 43210" });
+
+    expect(fakeSupabase.client.auth.signUp).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: "asha@example.com",
+        password: "secret123",
+        options: expect.objectContaining({
+          data: { full_name: "Asha Rao", phone: "+91 98765 43210", location: null },
+        }),
+      })
+    );
+    await waitFor(() => expect(screen.getByTestId("location")).toHaveTextContent("/login?next=%2Fdonate%2Fnew"));
+  });
+});
@@ -1,30 +1,37 @@
 import { useState, useEffect } from "react";
-import { Link, useNavigate } from "react-router-dom";
-import { Eye, EyeOff, Mail, Lock, User, Phone, Heart } from "lucide-react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { Eye, EyeOff, Mail, Lock, User, Phone, MapPin, Heart } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { useAuth } from "@/hooks/useAuth";
+import OAuthButtons from "@/components/OAuthButtons";
+import { getSafeNextPath } from "@/lib/authRedirect";
+import { isValidPhone } from "@/lib/validation";
 
 const Signup = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { signUp, user, loading: authLoading } = useAuth();
+  const nextPath = getSafeNextPath(searchParams.get("next"));
+  const returnUrl = `${window.location.origin}/signup${window.location.search}`;
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
     name: "",
     email: "",
     phone: "",
+    location: "",
     password: "",
     confirmPassword: "",
   });
 
   useEffect(() => {
     if (!authLoading && user) {
-      navigate("/");
+      navigate(nextPath, { replace: true });
     }
-  }, [user, authLoading, navigate]);
+  }, [user, authLoading, navigate, nextPath]);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,9 +51,18 @@ const Signup = () => {
       return;
     }
 
+    if (formData.phone.trim() && !isValidPhone(formData.phone)) {
+      toast.error("Please enter a valid phone number");
+      return;
+    }
+
     setLoading(true);
 
-    const { error } = await signUp(formData.email, formData.password, formData.name);
+    const { error } = await signUp(formData.email, formData.password, {
+      fullName: formData.name.trim(),
+      phone: formData.phone.trim(),
+      location: formData.location.trim(),
+    });
 
     setLoading(false);
 
@@ -60,7 +76,7 @@ const Signup = () => {
       }
     } else {
       toast.success("Account created! Please check your email to confirm, or sign in directly if email confirmation is disabled.");
-      navigate("/login");
+      navigate({ pathname: "/login", search: searchParams.toString() });
     }
   };
 
@@ -148,6 +164,23 @@ const Signup = () => {
                   className="pl-10 h-12"
                   value={formData.phone}
                   onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                  maxLength={20}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="location">Location (Optional)</Label>
+              <div className="relative">
+                <MapPin className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-muted-foreground" />
+                <Input
+                  id="location"
+                  type="text"
+                  placeholder="e.g., Pune, Maharashtra"
+                  className="pl-10 h-12"
+                  value={formData.location}
+                  onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                  maxLength={100}
                 />
               </div>
             </div>
@@ -196,9 +229,11 @@ const Signup = () => {
             </Button>
           </form>
 
+          <OAuthButtons redirectTo={returnUrl} />
+
           <p className="text-center text-muted-foreground">
             Already have an account?{" "}
-            <Link to="/login" className="text-primary font-medium hover:underline">
+            <Link to={{ pathname: "/login", search: searchParams.toString() }} className="text-primary font-medium hover:underline">
               Sign in
             </Link>
           </p>
@@ -0,0 +1,9 @@
+import { useLocation } from "react-router-dom";
+
+// Shows where the page navigated to, so tests can assert on redirects
+const LocationProbe = () => {
+  const location = useLocation();
+  return <div data-testid="location">{`${location.pathname}${location.search}`}</div>;
+};
+
+export default LocationProbe;
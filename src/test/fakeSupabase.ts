@@ -0,0 +1,163 @@
+import { vi } from "vitest";
+import type { AuthChangeEvent, Session } from "@supabase/supabase-js";
+
+// One step of a query chain, e.g. { method: "eq", args: ["status", "available"] }
+export interface QueryStep {
+  method: string;
+  args: unknown[];
+}
+
+// A request made through the fake: which table, RPC or bucket it targeted and how it was built
+export interface FakeQuery {
+  target: string;
+  steps: QueryStep[];
+}
+
+export interface FakeResult {
+  data?: unknown;
+  error?: { code?: string; message: string } | null;
+  count?: number | null;
+}
+
+type Responder = FakeResult | ((query: FakeQuery) => FakeResult);
+
+// A successful response carrying `data`
+export const ok = (data: unknown = null): FakeResult => ({ data, error: null });
+
+/**
+ * A stand-in for the Supabase client. Queries record every chained call and
+ * resolve with whatever was registered for their target ("donations",
+ * "rpc:search_donations", "storage:item-images"), or an empty result.
+ */
+export const createFakeSupabase = () => {
+  const responders = new Map<string, Responder>();
+  const queries: FakeQuery[] = [];
+  const authListeners = new Set<(event: AuthChangeEvent, session: Session | null) => void>();
+  let session: Session | null = null;
+
+  const resolve = (query: FakeQuery): FakeResult => {
+    const responder = responders.get(query.target);
+    const result = typeof responder === "function" ? responder(query) : responder;
+    return { data: null, error: null, count: null, ...result };
+  };
+
+  const builder = (target: string) => {
+    const query: FakeQuery = { target, steps: [] };
+    queries.push(query);
+
+    const chain: Record<string | symbol, unknown> = new Proxy(
+      {},
+      {
+        get: (_, method) => {
+          if (method === "then") {
+            return (onFulfilled: (value: FakeResult) => unknown, onRejected?: (reason: unknown) => unknown) =>
+              Promise.resolve(resolve(query)).then(onFulfilled, onRejected);
+          }
+
+          return (...args: unknown[]) => {
+            query.steps.push({ method: String(method), args });
+            return chain;
+          };
+        },
+      }
+    );
+
+    return chain;
+  };
+
+  const channel = {
+    on: () => channel,
+    subscribe: () => channel,
+  };
+
+  const client = {
+    from: vi.fn((table: string) => builder(table)),
+    rpc: vi.fn((fn: string, args?: unknown, options?: unknown) => {
+      const chain = builder(`rpc:${fn}`);
+      queries[queries.length - 1].steps.push({ method: "rpc", args: [args, options] });
+      return chain;
+    }),
+    channel: vi.fn(() => channel),
+    removeChannel: vi.fn(),
+    storage: {
+      from: vi.fn((bucket: string) => ({
+        getPublicUrl: (path: string) => ({ data: { publicUrl: `https://storage.test/${bucket}/${path}` } }),
+        upload: vi.fn(async () => resolve({ target: `storage:${bucket}`, steps: [] })),
+        remove: vi.fn(async () => resolve({ target: `storage:${bucket}`, steps: [] })),
+      })),
+    },
+    auth: {
+      getSession: vi.fn(async () => ({ data: { session }, error: null })),
+      getUser: vi.fn(async () => ({ data: { user: session?.user ?? null }, error: null })),
+      onAuthStateChange: vi.fn((callback: (event: AuthChangeEvent, session: Session | null) => void) => {
+        authListeners.add(callback);
+        return { data: { subscription: { unsubscribe: vi.fn(() => authListeners.delete(callback)) } } };
+      }),
+      signInWithPassword: vi.fn(async () => ({ data: { session: null, user: null }, error: null })),
+      signUp: vi.fn(async () => ({ data: { session: null, user: null }, error: null })),
+      signInWithOtp: vi.fn(async () => ({ data: {}, error: null })),
+      verifyOtp: vi.fn(async () => ({ data: {}, error: null })),
+      signInWithOAuth: vi.fn(async () => ({ data: {}, error: null })),
+      signOut: vi.fn(async () => ({ error: null })),
+      resetPasswordForEmail: vi.fn(async () => ({ data: {}, error: null })),
+      updateUser: vi.fn(async () => ({ data: {}, error: null })),
+    },
+  };
+
+  return {
+    client,
+    queries,
+
+    // Registers the result for every later request to `target`
+    respond: (target: string, responder: Responder) => {
+      responders.set(target, responder);
+    },
+
+    // The session getSession reports, as if the user signed in before the page loaded
+    setSession: (next: Session | null) => {
+      session = next;
+    },
+
+    // Fires an auth event at every onAuthStateChange listener
+    emitAuth: (event: AuthChangeEvent, next: Session | null) => {
+      session = next;
+      authListeners.forEach((listener) => listener(event, next));
+    },
+
+    // Requests made to a target, in order
+    queriesFor: (target: string) => queries.filter((query) => query.target === target),
+
+    reset: () => {
+      responders.clear();
+      queries.length = 0;
+      authListeners.clear();
+      session = null;
+      vi.clearAllMocks();
+    },
+  };
+};
+
+export type FakeSupabase = ReturnType<typeof createFakeSupabase>;
+
+export const fakeSupabase = createFakeSupabase();
+
+// True when the query included a call like `.eq("status", "available")`
+export const hasStep = (query: FakeQuery, method: string, ...args: unknown[]) =>
+  query.steps.some(
+    (step) => step.method === method && args.every((arg, index) => JSON.stringify(step.args[index]) === JSON.stringify(arg))
+  );
+
+export const fakeSession = (id = "user-1", email = "member@example.com"): Session => ({
+  access_token: "token",
+  refresh_token: "refresh",
+  token_type: "bearer",
+  expires_in: 3600,
+  user: {
+    id,
+    email,
+    aud: "authenticated",
+    created_at: "2026-01-01T00:00:00Z",
+    app_metadata: {},
+    user_metadata: { full_name: "Test Member" },
+  },
+});
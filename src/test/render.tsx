@@ -0,0 +1,47 @@
+import type { ReactElement } from "react";
+import { render } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/useAuth";
+import { NotificationsProvider } from "@/hooks/useNotifications";
+import LocationProbe from "@/test/LocationProbe";
+
+interface RenderPageOptions {
+  // The URL the page opens at
+  route?: string;
+  // The route pattern the page is mounted on, for pages that read params.
+  // Defaults to the route's own path; anywhere else renders nothing.
+  path?: string;
+}
+
+/**
+ * Renders a page inside the same providers App uses, with retries off so a
+ * failed query shows its error state straight away.
+ */
+export const renderPage = (page: ReactElement, { route = "/", path = route.split("?")[0] }: RenderPageOptions = {}) => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+
+  return {
+    queryClient,
+    ...render(
+      <QueryClientProvider client={queryClient}>
+        <AuthProvider>
+          <NotificationsProvider>
+            <TooltipProvider>
+              <MemoryRouter initialEntries={[route]}>
+                <Routes>
+                  <Route path={path} element={page} />
+                  <Route path="*" element={null} />
+                </Routes>
+                <LocationProbe />
+              </MemoryRouter>
+            </TooltipProvider>
+          </NotificationsProvider>
+        </AuthProvider>
+      </QueryClientProvider>
+    ),
+  };
+};
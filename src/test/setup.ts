@@ -0,0 +1,43 @@
+import "@testing-library/jest-dom/vitest";
+import { afterEach, beforeAll, beforeEach, vi } from "vitest";
+import { cleanup } from "@testing-library/react";
+import { loadBackend } from "@/lib/api/backend";
+import { createDemoState } from "@/lib/api/demoData";
+import { fakeSupabase, ok } from "@/test/fakeSupabase";
+
+vi.mock("@/integrations/supabase/client", async () => ({
+  supabase: (await import("@/test/fakeSupabase")).fakeSupabase.client,
+}));
+
+vi.mock("sonner", () => ({
+  toast: { success: vi.fn(), error: vi.fn(), info: vi.fn() },
+  Toaster: () => null,
+}));
+
+// jsdom lacks the layout APIs Radix primitives call
+class ResizeObserverStub {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+window.ResizeObserver ??= ResizeObserverStub;
+Element.prototype.scrollIntoView ??= () => {};
+Element.prototype.hasPointerCapture ??= () => false;
+Element.prototype.releasePointerCapture ??= () => {};
+
+// The app renders once main.tsx has loaded the backend
+beforeAll(async () => {
+  await loadBackend();
+});
+
+beforeEach(() => {
+  fakeSupabase.reset();
+  // Cards, filters and forms render from the category registry
+  fakeSupabase.respond("categories", ok(createDemoState().categories));
+  window.localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+});
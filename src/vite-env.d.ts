@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_PUBLISHABLE_KEY: string;
+  readonly VITE_BACKEND?: "supabase" | "local";
+  readonly VITE_GEOCODER?: "gazetteer" | "nominatim";
+  readonly VITE_MAP_TILE_URL?: string;
+  readonly VITE_MAP_TILE_ATTRIBUTION?: string;
+  readonly VITE_AUTH_OAUTH_PROVIDERS?: string;
+  readonly VITE_AUTH_SMS_OTP?: "true" | "false";
+}
@@ -0,0 +1,93 @@
+-- Offers made by volunteers against open help requests
+CREATE TYPE public.help_offer_status AS ENUM ('pending', 'accepted', 'declined', 'withdrawn');
+
+CREATE TABLE public.help_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  offerer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT,
+  status public.help_offer_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One live offer per volunteer and request; after withdrawing or being
+-- declined they can offer again
+CREATE UNIQUE INDEX help_offers_active_idx
+  ON public.help_offers (request_id, offerer_id) WHERE status IN ('pending', 'accepted');
+CREATE INDEX help_offers_request_id_idx ON public.help_offers (request_id);
+CREATE INDEX help_offers_offerer_id_idx ON public.help_offers (offerer_id);
+
+ALTER TABLE public.help_offers ENABLE ROW LEVEL SECURITY;
+
+-- Offerers and the owner of the request can see an offer
+CREATE POLICY "Offerers and requesters can view offers"
+  ON public.help_offers FOR SELECT
+  USING (
+    auth.uid() = offerer_id
+    OR auth.uid() = (SELECT user_id FROM public.help_requests WHERE id = request_id)
+  );
+
+CREATE POLICY "Users can offer help on others' requests"
+  ON public.help_offers FOR INSERT
+  WITH CHECK (
+    auth.uid() = offerer_id
+    AND auth.uid() <> (SELECT user_id FROM public.help_requests WHERE id = request_id)
+  );
+
+-- Offerers may only withdraw a live offer; requesters may accept or decline a
+-- pending one. Everything but the status is fixed by protect_help_offer_columns.
+CREATE POLICY "Offerers can withdraw their offers"
+  ON public.help_offers FOR UPDATE
+  USING (auth.uid() = offerer_id AND status IN ('pending', 'accepted'))
+  WITH CHECK (auth.uid() = offerer_id AND status = 'withdrawn');
+
+CREATE POLICY "Requesters can respond to offers"
+  ON public.help_offers FOR UPDATE
+  USING (
+    auth.uid() = (SELECT user_id FROM public.help_requests WHERE id = request_id)
+    AND status = 'pending'
+  )
+  WITH CHECK (status IN ('accepted', 'declined'));
+
+CREATE OR REPLACE FUNCTION public.protect_help_offer_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.request_id IS DISTINCT FROM OLD.request_id
+    OR NEW.offerer_id IS DISTINCT FROM OLD.offerer_id
+    OR NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the status of an offer can change' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_help_offer_columns
+  BEFORE UPDATE ON public.help_offers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_help_offer_columns();
+
+CREATE OR REPLACE FUNCTION public.update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER update_help_offers_updated_at
+  BEFORE UPDATE ON public.help_offers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Public count of live offers per request, so the feed can show which
+-- requests already have helpers without exposing offer messages
+CREATE VIEW public.help_offer_counts AS
+  SELECT request_id, count(*) AS offer_count
+  FROM public.help_offers
+  WHERE status IN ('pending', 'accepted')
+  GROUP BY request_id;
+
+GRANT SELECT ON public.help_offer_counts TO anon, authenticated;
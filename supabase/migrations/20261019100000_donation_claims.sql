@@ -0,0 +1,191 @@
+-- Donation lifecycle: available -> reserved (claim approved) -> given
+CREATE TYPE public.donation_status AS ENUM ('available', 'reserved', 'given');
+
+ALTER TABLE public.donations ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.donations
+  ALTER COLUMN status TYPE public.donation_status USING status::public.donation_status;
+ALTER TABLE public.donations ALTER COLUMN status SET DEFAULT 'available';
+
+-- Requests made by users to receive an available donation
+CREATE TYPE public.donation_claim_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+
+CREATE TABLE public.donation_claims (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  donation_id UUID NOT NULL REFERENCES public.donations(id) ON DELETE CASCADE,
+  claimant_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  message TEXT,
+  status public.donation_claim_status NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One live claim per member and donation; after cancelling, being rejected
+-- or having a reservation released they can ask again
+CREATE UNIQUE INDEX donation_claims_active_idx
+  ON public.donation_claims (donation_id, claimant_id) WHERE status IN ('pending', 'approved');
+CREATE INDEX donation_claims_donation_id_idx ON public.donation_claims (donation_id);
+CREATE INDEX donation_claims_claimant_id_idx ON public.donation_claims (claimant_id);
+
+ALTER TABLE public.donation_claims ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Claimants and donors can view claims"
+  ON public.donation_claims FOR SELECT
+  USING (
+    auth.uid() = claimant_id
+    OR auth.uid() = (SELECT user_id FROM public.donations WHERE id = donation_id)
+  );
+
+CREATE POLICY "Users can claim others' available donations"
+  ON public.donation_claims FOR INSERT
+  WITH CHECK (
+    auth.uid() = claimant_id
+    AND EXISTS (
+      SELECT 1 FROM public.donations
+      WHERE id = donation_id AND status = 'available' AND user_id <> auth.uid()
+    )
+  );
+
+-- Claimants may only cancel a pending claim and donors only reject one.
+-- Approving, releasing and completing go through the functions below so the
+-- donation status stays in step, and protect_donation_claim_columns keeps
+-- everything but the status fixed.
+CREATE POLICY "Claimants can cancel their claims"
+  ON public.donation_claims FOR UPDATE
+  USING (auth.uid() = claimant_id AND status = 'pending')
+  WITH CHECK (auth.uid() = claimant_id AND status = 'cancelled');
+
+CREATE POLICY "Donors can reject claims"
+  ON public.donation_claims FOR UPDATE
+  USING (
+    auth.uid() = (SELECT user_id FROM public.donations WHERE id = donation_id)
+    AND status = 'pending'
+  )
+  WITH CHECK (status = 'rejected');
+
+CREATE TRIGGER update_donation_claims_updated_at
+  BEFORE UPDATE ON public.donation_claims
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.protect_donation_claim_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.donation_id IS DISTINCT FROM OLD.donation_id
+    OR NEW.claimant_id IS DISTINCT FROM OLD.claimant_id
+    OR NEW.message IS DISTINCT FROM OLD.message
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Only the status of a claim can change' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_donation_claim_columns
+  BEFORE UPDATE ON public.donation_claims
+  FOR EACH ROW EXECUTE FUNCTION public.protect_donation_claim_columns();
+
+-- Approve one claim, reject the other pending ones and reserve the donation
+-- in a single transaction so a donation can never be promised twice
+CREATE OR REPLACE FUNCTION public.approve_donation_claim(claim_id UUID)
+RETURNS public.donation_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.donation_claims;
+  donation public.donations;
+BEGIN
+  SELECT * INTO claim FROM public.donation_claims WHERE id = claim_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO donation FROM public.donations WHERE id = claim.donation_id FOR UPDATE;
+  IF donation.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the donor can approve a claim' USING ERRCODE = '42501';
+  END IF;
+  IF donation.status <> 'available' OR claim.status <> 'pending' THEN
+    RAISE EXCEPTION 'This donation is no longer available' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.donation_claims SET status = 'approved' WHERE id = claim.id
+    RETURNING * INTO claim;
+  UPDATE public.donation_claims SET status = 'rejected'
+    WHERE donation_id = donation.id AND id <> claim.id AND status = 'pending';
+  UPDATE public.donations SET status = 'reserved', updated_at = now() WHERE id = donation.id;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_donation_claim(UUID) TO authenticated;
+
+-- Undo an approval: reject the approved claim and make the reserved donation
+-- available again, e.g. when the claimant never collects it
+CREATE OR REPLACE FUNCTION public.release_donation_claim(claim_id UUID)
+RETURNS public.donation_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.donation_claims;
+  donation public.donations;
+BEGIN
+  SELECT * INTO claim FROM public.donation_claims WHERE id = claim_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO donation FROM public.donations WHERE id = claim.donation_id FOR UPDATE;
+  IF donation.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the donor can release a reservation' USING ERRCODE = '42501';
+  END IF;
+  IF donation.status <> 'reserved' OR claim.status <> 'approved' THEN
+    RAISE EXCEPTION 'This donation is not reserved for this request' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.donation_claims SET status = 'rejected' WHERE id = claim.id
+    RETURNING * INTO claim;
+  UPDATE public.donations SET status = 'available', updated_at = now() WHERE id = donation.id;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.release_donation_claim(UUID) TO authenticated;
+
+-- Record the hand-over of a reserved donation to its approved claimant
+CREATE OR REPLACE FUNCTION public.complete_donation_claim(claim_id UUID)
+RETURNS public.donation_claims
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  claim public.donation_claims;
+  donation public.donations;
+BEGIN
+  SELECT * INTO claim FROM public.donation_claims WHERE id = claim_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO donation FROM public.donations WHERE id = claim.donation_id FOR UPDATE;
+  IF donation.user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the donor can mark a donation as given' USING ERRCODE = '42501';
+  END IF;
+  IF donation.status <> 'reserved' OR claim.status <> 'approved' THEN
+    RAISE EXCEPTION 'This donation is not reserved for this request' USING ERRCODE = '55000';
+  END IF;
+
+  UPDATE public.donations SET status = 'given', updated_at = now() WHERE id = donation.id;
+
+  RETURN claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_donation_claim(UUID) TO authenticated;
@@ -0,0 +1,82 @@
+-- Help request lifecycle: open -> in_progress -> fulfilled -> closed
+CREATE TYPE public.help_request_status AS ENUM ('open', 'in_progress', 'fulfilled', 'closed');
+
+ALTER TABLE public.help_requests ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.help_requests
+  ALTER COLUMN status TYPE public.help_request_status USING status::public.help_request_status;
+ALTER TABLE public.help_requests ALTER COLUMN status SET DEFAULT 'open';
+
+CREATE INDEX IF NOT EXISTS help_requests_status_idx ON public.help_requests (status);
+
+-- Every status a request has been in, for the request's history
+CREATE TABLE public.help_request_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  status public.help_request_status NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX help_request_status_events_request_id_idx
+  ON public.help_request_status_events (request_id, created_at);
+
+ALTER TABLE public.help_request_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view help request status history"
+  ON public.help_request_status_events FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.log_help_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.help_request_status_events (request_id, status, changed_by)
+    VALUES (NEW.id, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_help_request_status
+  AFTER INSERT OR UPDATE OF status ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.log_help_request_status();
+
+INSERT INTO public.help_request_status_events (request_id, status, changed_by, created_at)
+  SELECT id, status, user_id, created_at FROM public.help_requests;
+
+-- Accepting an offer means someone is now working on the request
+CREATE OR REPLACE FUNCTION public.start_help_request_on_accept()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'accepted' AND OLD.status IS DISTINCT FROM 'accepted' THEN
+    UPDATE public.help_requests SET status = 'in_progress', updated_at = now()
+      WHERE id = NEW.request_id AND status = 'open';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_help_request_on_accept
+  AFTER UPDATE OF status ON public.help_offers
+  FOR EACH ROW EXECUTE FUNCTION public.start_help_request_on_accept();
+
+-- Only requests that still need help can receive new offers
+DROP POLICY "Users can offer help on others' requests" ON public.help_offers;
+
+CREATE POLICY "Users can offer help on others' requests"
+  ON public.help_offers FOR INSERT
+  WITH CHECK (
+    auth.uid() = offerer_id
+    AND EXISTS (
+      SELECT 1 FROM public.help_requests
+      WHERE id = request_id AND status IN ('open', 'in_progress') AND user_id <> auth.uid()
+    )
+  );
@@ -0,0 +1,39 @@
+-- Every status a donation has been in, for the donation's history
+CREATE TABLE public.donation_status_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  donation_id UUID NOT NULL REFERENCES public.donations(id) ON DELETE CASCADE,
+  status public.donation_status NOT NULL,
+  changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX donation_status_events_donation_id_idx
+  ON public.donation_status_events (donation_id, created_at);
+
+ALTER TABLE public.donation_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view donation status history"
+  ON public.donation_status_events FOR SELECT
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.log_donation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.donation_status_events (donation_id, status, changed_by)
+    VALUES (NEW.id, NEW.status, auth.uid());
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_donation_status
+  AFTER INSERT OR UPDATE OF status ON public.donations
+  FOR EACH ROW EXECUTE FUNCTION public.log_donation_status();
+
+INSERT INTO public.donation_status_events (donation_id, status, changed_by, created_at)
+  SELECT id, status, user_id, created_at FROM public.donations;
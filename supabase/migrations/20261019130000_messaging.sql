@@ -0,0 +1,166 @@
+-- Private conversations about a single donation or help request
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  donation_id UUID REFERENCES public.donations(id) ON DELETE CASCADE,
+  help_request_id UUID REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  last_message_at TIMESTAMP WITH TIME ZONE,
+  last_message_preview TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT conversations_single_subject CHECK (num_nonnulls(donation_id, help_request_id) = 1)
+);
+
+CREATE TABLE public.conversation_participants (
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX conversation_participants_user_id_idx ON public.conversation_participants (user_id);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (char_length(body) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX messages_conversation_id_idx ON public.messages (conversation_id, created_at);
+
+-- Security definer so participant policies don't recurse into themselves
+CREATE OR REPLACE FUNCTION public.is_conversation_participant(_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_participants
+    WHERE conversation_id = _conversation_id AND user_id = auth.uid()
+  );
+$$;
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_participants ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view conversations"
+  ON public.conversations FOR SELECT
+  USING (public.is_conversation_participant(id));
+
+CREATE POLICY "Participants can view conversation members"
+  ON public.conversation_participants FOR SELECT
+  USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can view messages"
+  ON public.messages FOR SELECT
+  USING (public.is_conversation_participant(conversation_id));
+
+CREATE POLICY "Participants can send messages"
+  ON public.messages FOR INSERT
+  WITH CHECK (auth.uid() = sender_id AND public.is_conversation_participant(conversation_id));
+
+CREATE OR REPLACE FUNCTION public.touch_conversation_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversations
+    SET last_message_at = NEW.created_at, last_message_preview = left(NEW.body, 140)
+    WHERE id = NEW.conversation_id;
+  UPDATE public.conversation_participants
+    SET last_read_at = NEW.created_at
+    WHERE conversation_id = NEW.conversation_id AND user_id = NEW.sender_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_conversation_on_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_conversation_on_message();
+
+-- Find or create the conversation between the caller and recipient about
+-- one donation or help request. One of the two must own the item.
+CREATE OR REPLACE FUNCTION public.start_conversation(
+  recipient_id UUID,
+  donation_id UUID DEFAULT NULL,
+  help_request_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  existing_id UUID;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+  IF recipient_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot message yourself' USING ERRCODE = '22023';
+  END IF;
+  IF num_nonnulls(start_conversation.donation_id, start_conversation.help_request_id) <> 1 THEN
+    RAISE EXCEPTION 'A conversation needs exactly one subject' USING ERRCODE = '22023';
+  END IF;
+
+  IF start_conversation.donation_id IS NOT NULL THEN
+    SELECT user_id INTO owner_id FROM public.donations WHERE id = start_conversation.donation_id;
+  ELSE
+    SELECT user_id INTO owner_id FROM public.help_requests WHERE id = start_conversation.help_request_id;
+  END IF;
+
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Item not found' USING ERRCODE = 'P0002';
+  END IF;
+  IF owner_id <> auth.uid() AND owner_id <> recipient_id THEN
+    RAISE EXCEPTION 'Conversations must include the item owner' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT c.id INTO existing_id
+    FROM public.conversations c
+    JOIN public.conversation_participants me ON me.conversation_id = c.id AND me.user_id = auth.uid()
+    JOIN public.conversation_participants them ON them.conversation_id = c.id AND them.user_id = recipient_id
+    WHERE c.donation_id IS NOT DISTINCT FROM start_conversation.donation_id
+      AND c.help_request_id IS NOT DISTINCT FROM start_conversation.help_request_id
+    LIMIT 1;
+
+  IF existing_id IS NOT NULL THEN
+    RETURN existing_id;
+  END IF;
+
+  INSERT INTO public.conversations (donation_id, help_request_id)
+    VALUES (start_conversation.donation_id, start_conversation.help_request_id)
+    RETURNING id INTO new_id;
+  INSERT INTO public.conversation_participants (conversation_id, user_id)
+    VALUES (new_id, auth.uid()), (new_id, recipient_id);
+
+  RETURN new_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_conversation(UUID, UUID, UUID) TO authenticated;
+
+-- Participant rows have no update policy, so moving one into another
+-- conversation is impossible; reading a conversation goes through here
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(conversation_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.conversation_participants p
+    SET last_read_at = now()
+    WHERE p.conversation_id = mark_conversation_read.conversation_id AND p.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION public.mark_conversation_read(UUID) TO authenticated;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
@@ -0,0 +1,188 @@
+-- Per-user in-app notifications, written by triggers as activity happens
+CREATE TYPE public.notification_type AS ENUM (
+  'offer_received',
+  'offer_updated',
+  'claim_received',
+  'claim_updated',
+  'request_status_changed',
+  'donation_status_changed',
+  'message_received'
+);
+
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type public.notification_type NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX notifications_user_id_idx ON public.notifications (user_id, created_at DESC);
+CREATE INDEX notifications_unread_idx ON public.notifications (user_id) WHERE read_at IS NULL;
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their notifications"
+  ON public.notifications FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their notifications read"
+  ON public.notifications FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their notifications"
+  ON public.notifications FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.notify(
+  _user_id UUID,
+  _type public.notification_type,
+  _title TEXT,
+  _body TEXT,
+  _link TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.notifications (user_id, type, title, body, link)
+  SELECT _user_id, _type, _title, _body, _link
+  WHERE _user_id IS DISTINCT FROM auth.uid();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.notify(UUID, public.notification_type, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Offers
+CREATE OR REPLACE FUNCTION public.notify_help_offer()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  request public.help_requests;
+BEGIN
+  SELECT * INTO request FROM public.help_requests WHERE id = NEW.request_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify(request.user_id, 'offer_received', 'New offer to help',
+      format('Someone offered to help with "%s"', request.title), '/profile?tab=offers');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('accepted', 'declined') THEN
+      PERFORM public.notify(NEW.offerer_id, 'offer_updated', format('Offer %s', NEW.status),
+        format('Your offer to help with "%s" was %s', request.title, NEW.status), '/profile?tab=offers');
+    ELSIF NEW.status = 'withdrawn' THEN
+      PERFORM public.notify(request.user_id, 'offer_updated', 'Offer withdrawn',
+        format('A helper withdrew their offer on "%s"', request.title), '/profile?tab=offers');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_help_offer
+  AFTER INSERT OR UPDATE OF status ON public.help_offers
+  FOR EACH ROW EXECUTE FUNCTION public.notify_help_offer();
+
+-- Claims
+CREATE OR REPLACE FUNCTION public.notify_donation_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  donation public.donations;
+BEGIN
+  SELECT * INTO donation FROM public.donations WHERE id = NEW.donation_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.notify(donation.user_id, 'claim_received', 'New request for your donation',
+      format('Someone requested "%s"', donation.title), '/profile?tab=claims');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NEW.status IN ('approved', 'rejected') THEN
+      PERFORM public.notify(NEW.claimant_id, 'claim_updated', format('Request %s', NEW.status),
+        format('Your request for "%s" was %s', donation.title, NEW.status), '/profile?tab=claims');
+    ELSIF NEW.status = 'cancelled' THEN
+      PERFORM public.notify(donation.user_id, 'claim_updated', 'Request cancelled',
+        format('A request for "%s" was cancelled', donation.title), '/profile?tab=claims');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_donation_claim
+  AFTER INSERT OR UPDATE OF status ON public.donation_claims
+  FOR EACH ROW EXECUTE FUNCTION public.notify_donation_claim();
+
+-- Status changes reach everyone still involved with the item
+CREATE OR REPLACE FUNCTION public.notify_help_request_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.notify(o.offerer_id, 'request_status_changed', 'Help request updated',
+      format('"%s" is now %s', NEW.title, replace(NEW.status::text, '_', ' ')),
+      format('/request-help/%s', NEW.id))
+    FROM public.help_offers o
+    WHERE o.request_id = NEW.id AND o.status IN ('pending', 'accepted');
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_help_request_status
+  AFTER UPDATE OF status ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_help_request_status();
+
+CREATE OR REPLACE FUNCTION public.notify_donation_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM public.notify(c.claimant_id, 'donation_status_changed', 'Donation updated',
+      format('"%s" is now %s', NEW.title, NEW.status), format('/donate/%s', NEW.id))
+    FROM public.donation_claims c
+    WHERE c.donation_id = NEW.id AND c.status = 'approved';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_donation_status
+  AFTER UPDATE OF status ON public.donations
+  FOR EACH ROW EXECUTE FUNCTION public.notify_donation_status();
+
+-- Messages
+CREATE OR REPLACE FUNCTION public.notify_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.notify(p.user_id, 'message_received', 'New message',
+    left(NEW.body, 140), format('/messages/%s', NEW.conversation_id))
+  FROM public.conversation_participants p
+  WHERE p.conversation_id = NEW.conversation_id AND p.user_id <> NEW.sender_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message
+  AFTER INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.notify_message();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,47 @@
+-- Copy phone and location from signup metadata into the profile row. Upsert
+-- so a profile created earlier (e.g. by a retried signup) is filled in too.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name, phone, location)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    NULLIF(NEW.raw_user_meta_data ->> 'full_name', ''),
+    NULLIF(NEW.raw_user_meta_data ->> 'phone', ''),
+    NULLIF(NEW.raw_user_meta_data ->> 'location', '')
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    email = EXCLUDED.email,
+    full_name = COALESCE(EXCLUDED.full_name, public.profiles.full_name),
+    phone = COALESCE(EXCLUDED.phone, public.profiles.phone),
+    location = COALESCE(EXCLUDED.location, public.profiles.location),
+    updated_at = now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Backfill users whose profile row never got created
+INSERT INTO public.profiles (id, email, full_name, phone, location)
+  SELECT u.id, u.email,
+    NULLIF(u.raw_user_meta_data ->> 'full_name', ''),
+    NULLIF(u.raw_user_meta_data ->> 'phone', ''),
+    NULLIF(u.raw_user_meta_data ->> 'location', '')
+  FROM auth.users u
+  ON CONFLICT (id) DO NOTHING;
+
+-- Users maintain their own profile details from account settings
+DROP POLICY IF EXISTS "Users can update their own profile" ON public.profiles;
+CREATE POLICY "Users can update their own profile"
+  ON public.profiles FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
@@ -0,0 +1,120 @@
+-- Full-text search over donations and help requests. The document weights
+-- title highest, then category, description and location.
+CREATE OR REPLACE FUNCTION public.search_document(
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  location TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(category, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'C') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'D');
+$$;
+
+CREATE INDEX IF NOT EXISTS donations_search_idx ON public.donations
+  USING GIN (public.search_document(title, description, category, location));
+
+CREATE INDEX IF NOT EXISTS help_requests_search_idx ON public.help_requests
+  USING GIN (public.search_document(title, description, category, location));
+
+-- Full-text matching only sees whole words, so "books" never finds "textbook".
+-- As a fallback, a row also matches when every stemmed query word appears
+-- somewhere inside its lower-cased text. A trigram index on that text lets
+-- the longest stem narrow the rows before every stem is checked.
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.search_text(
+  title TEXT,
+  description TEXT,
+  category TEXT,
+  location TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(concat_ws(' ', title, description, category, location));
+$$;
+
+CREATE INDEX IF NOT EXISTS donations_search_text_idx ON public.donations
+  USING GIN (public.search_text(title, description, category, location) extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS help_requests_search_text_idx ON public.help_requests
+  USING GIN (public.search_text(title, description, category, location) extensions.gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.contains_search_stems(content TEXT, stems TEXT[])
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT cardinality(stems) > 0
+    AND NOT EXISTS (
+      SELECT 1 FROM unnest(stems) AS stem
+      WHERE strpos(lower(coalesce(content, '')), stem) = 0
+    );
+$$;
+
+-- Both search functions run as the caller, so row level security still
+-- applies. They are plain SQL so the filters and range callers add on top are
+-- planned into the same query. Whole-word matches come first, best first,
+-- followed by the substring matches.
+CREATE OR REPLACE FUNCTION public.search_donations(search_query TEXT)
+RETURNS SETOF public.donations
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS query,
+      ARRAY(
+        SELECT lexeme FROM unnest(to_tsvector('english', search_query)) ORDER BY length(lexeme) DESC
+      ) AS stems
+  )
+  SELECT d.*
+  FROM public.donations d, q
+  WHERE public.search_document(d.title, d.description, d.category, d.location) @@ q.query
+    OR (
+      public.search_text(d.title, d.description, d.category, d.location) LIKE '%' || q.stems[1] || '%'
+      AND public.contains_search_stems(public.search_text(d.title, d.description, d.category, d.location), q.stems)
+    )
+  ORDER BY
+    public.search_document(d.title, d.description, d.category, d.location) @@ q.query DESC,
+    ts_rank(public.search_document(d.title, d.description, d.category, d.location), q.query) DESC,
+    d.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_help_requests(search_query TEXT)
+RETURNS SETOF public.help_requests
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS query,
+      ARRAY(
+        SELECT lexeme FROM unnest(to_tsvector('english', search_query)) ORDER BY length(lexeme) DESC
+      ) AS stems
+  )
+  SELECT r.*
+  FROM public.help_requests r, q
+  WHERE public.search_document(r.title, r.description, r.category, r.location) @@ q.query
+    OR (
+      public.search_text(r.title, r.description, r.category, r.location) LIKE '%' || q.stems[1] || '%'
+      AND public.contains_search_stems(public.search_text(r.title, r.description, r.category, r.location), q.stems)
+    )
+  ORDER BY
+    public.search_document(r.title, r.description, r.category, r.location) @@ q.query DESC,
+    ts_rank(public.search_document(r.title, r.description, r.category, r.location), q.query) DESC,
+    r.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_donations(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_help_requests(TEXT) TO anon, authenticated;
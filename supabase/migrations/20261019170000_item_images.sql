@@ -0,0 +1,72 @@
+-- Photos attached to donations and help requests. Files live in the public
+-- item-images bucket under the uploader's user id; rows here order them.
+-- Photos are compressed in the browser first, so 5 MB leaves plenty of room.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'item-images',
+  'item-images',
+  true,
+  5242880,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO UPDATE SET
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE POLICY "Anyone can view item images"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'item-images');
+
+CREATE POLICY "Users can upload item images to their own folder"
+  ON storage.objects FOR INSERT
+  WITH CHECK (
+    bucket_id = 'item-images'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE POLICY "Users can delete their own item images"
+  ON storage.objects FOR DELETE
+  USING (
+    bucket_id = 'item-images'
+    AND auth.uid()::text = (storage.foldername(name))[1]
+  );
+
+CREATE TABLE public.item_images (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  donation_id UUID REFERENCES public.donations(id) ON DELETE CASCADE,
+  help_request_id UUID REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL UNIQUE,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT item_images_single_parent CHECK (num_nonnulls(donation_id, help_request_id) = 1)
+);
+
+CREATE INDEX item_images_donation_id_idx ON public.item_images (donation_id, position);
+CREATE INDEX item_images_help_request_id_idx ON public.item_images (help_request_id, position);
+
+ALTER TABLE public.item_images ENABLE ROW LEVEL SECURITY;
+
+-- Images follow their post: the lookups run under the viewer's own row level
+-- security, so images of posts they can't see stay hidden too.
+CREATE POLICY "Anyone can view images of visible posts"
+  ON public.item_images FOR SELECT
+  USING (
+    EXISTS (SELECT 1 FROM public.donations d WHERE d.id = donation_id)
+    OR EXISTS (SELECT 1 FROM public.help_requests r WHERE r.id = help_request_id)
+  );
+
+CREATE POLICY "Owners can attach images to their own posts"
+  ON public.item_images FOR INSERT
+  WITH CHECK (
+    auth.uid() = owner_id
+    AND (storage.foldername(storage_path))[1] = auth.uid()::text
+    AND (
+      EXISTS (SELECT 1 FROM public.donations d WHERE d.id = donation_id AND d.user_id = auth.uid())
+      OR EXISTS (SELECT 1 FROM public.help_requests r WHERE r.id = help_request_id AND r.user_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Owners can delete their own images"
+  ON public.item_images FOR DELETE
+  USING (auth.uid() = owner_id);
@@ -0,0 +1,141 @@
+-- Structured locations. The free-text location column stays as the display
+-- label; coordinates and the normalized city/region come from the geocoder.
+ALTER TABLE public.donations
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  ADD COLUMN city TEXT,
+  ADD COLUMN region TEXT;
+
+ALTER TABLE public.help_requests
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  ADD COLUMN city TEXT,
+  ADD COLUMN region TEXT;
+
+ALTER TABLE public.profiles
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  ADD COLUMN city TEXT,
+  ADD COLUMN region TEXT;
+
+CREATE INDEX IF NOT EXISTS donations_coordinates_idx ON public.donations (latitude, longitude);
+CREATE INDEX IF NOT EXISTS help_requests_coordinates_idx ON public.help_requests (latitude, longitude);
+
+-- Great-circle distance in kilometres (haversine)
+CREATE OR REPLACE FUNCTION public.distance_km(
+  lat1 DOUBLE PRECISION,
+  lng1 DOUBLE PRECISION,
+  lat2 DOUBLE PRECISION,
+  lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371 * asin(sqrt(
+    power(sin(radians(lat2 - lat1) / 2), 2) +
+    cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+  ));
+$$;
+
+-- The search functions now double as the feeds' distance filter: the search
+-- term is optional, and an origin plus radius keeps only posts within range,
+-- nearest first after relevance. Substring matches still rank after
+-- whole-word ones.
+DROP FUNCTION IF EXISTS public.search_donations(TEXT);
+DROP FUNCTION IF EXISTS public.search_help_requests(TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_donations(
+  search_query TEXT DEFAULT NULL,
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF public.donations
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      nullif(trim(search_query), '') IS NOT NULL AS searching,
+      websearch_to_tsquery('english', coalesce(search_query, '')) AS query,
+      ARRAY(
+        SELECT lexeme FROM unnest(to_tsvector('english', coalesce(search_query, ''))) ORDER BY length(lexeme) DESC
+      ) AS stems,
+      origin_lat IS NOT NULL AND origin_lng IS NOT NULL AS located
+  )
+  SELECT d.*
+  FROM public.donations d, q
+  WHERE (
+      NOT q.searching
+      OR public.search_document(d.title, d.description, d.category, d.location) @@ q.query
+      OR (
+        public.search_text(d.title, d.description, d.category, d.location) LIKE '%' || q.stems[1] || '%'
+        AND public.contains_search_stems(public.search_text(d.title, d.description, d.category, d.location), q.stems)
+      )
+    )
+    AND (
+      NOT q.located OR radius_km IS NULL
+      OR (
+        d.latitude BETWEEN origin_lat - radius_km / 111.0 AND origin_lat + radius_km / 111.0
+        AND public.distance_km(origin_lat, origin_lng, d.latitude, d.longitude) <= radius_km
+      )
+    )
+  ORDER BY
+    CASE WHEN q.searching THEN public.search_document(d.title, d.description, d.category, d.location) @@ q.query END DESC NULLS LAST,
+    CASE WHEN q.searching THEN ts_rank(public.search_document(d.title, d.description, d.category, d.location), q.query) END DESC NULLS LAST,
+    CASE WHEN q.located
+      THEN public.distance_km(origin_lat, origin_lng, d.latitude, d.longitude)
+    END ASC NULLS LAST,
+    d.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_help_requests(
+  search_query TEXT DEFAULT NULL,
+  origin_lat DOUBLE PRECISION DEFAULT NULL,
+  origin_lng DOUBLE PRECISION DEFAULT NULL,
+  radius_km DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS SETOF public.help_requests
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT
+      nullif(trim(search_query), '') IS NOT NULL AS searching,
+      websearch_to_tsquery('english', coalesce(search_query, '')) AS query,
+      ARRAY(
+        SELECT lexeme FROM unnest(to_tsvector('english', coalesce(search_query, ''))) ORDER BY length(lexeme) DESC
+      ) AS stems,
+      origin_lat IS NOT NULL AND origin_lng IS NOT NULL AS located
+  )
+  SELECT r.*
+  FROM public.help_requests r, q
+  WHERE (
+      NOT q.searching
+      OR public.search_document(r.title, r.description, r.category, r.location) @@ q.query
+      OR (
+        public.search_text(r.title, r.description, r.category, r.location) LIKE '%' || q.stems[1] || '%'
+        AND public.contains_search_stems(public.search_text(r.title, r.description, r.category, r.location), q.stems)
+      )
+    )
+    AND (
+      NOT q.located OR radius_km IS NULL
+      OR (
+        r.latitude BETWEEN origin_lat - radius_km / 111.0 AND origin_lat + radius_km / 111.0
+        AND public.distance_km(origin_lat, origin_lng, r.latitude, r.longitude) <= radius_km
+      )
+    )
+  ORDER BY
+    CASE WHEN q.searching THEN public.search_document(r.title, r.description, r.category, r.location) @@ q.query END DESC NULLS LAST,
+    CASE WHEN q.searching THEN ts_rank(public.search_document(r.title, r.description, r.category, r.location), q.query) END DESC NULLS LAST,
+    CASE WHEN q.located
+      THEN public.distance_km(origin_lat, origin_lng, r.latitude, r.longitude)
+    END ASC NULLS LAST,
+    r.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_donations(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.search_help_requests(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO anon, authenticated;
@@ -0,0 +1,155 @@
+-- Matching between available donations and active help requests. Pairs are
+-- scored on the fly rather than stored, so edits to either post are picked
+-- up immediately.
+ALTER TYPE public.notification_type ADD VALUE IF NOT EXISTS 'donation_suggested';
+
+-- Scores how well a donation fits a request, out of 100:
+--   category   40 for the same category
+--   proximity  up to 30 by distance, or 15 for the same city without coordinates
+--   keywords   5 per shared word stem in the title and description, up to 20
+--   urgency    10 for urgent requests, 5 for medium
+CREATE OR REPLACE FUNCTION public.match_score(d public.donations, r public.help_requests)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN d.category = r.category THEN 40 ELSE 0 END
+    + CASE
+        WHEN d.latitude IS NOT NULL AND r.latitude IS NOT NULL THEN
+          CASE
+            WHEN public.distance_km(d.latitude, d.longitude, r.latitude, r.longitude) <= 5 THEN 30
+            WHEN public.distance_km(d.latitude, d.longitude, r.latitude, r.longitude) <= 25 THEN 20
+            WHEN public.distance_km(d.latitude, d.longitude, r.latitude, r.longitude) <= 100 THEN 10
+            ELSE 0
+          END
+        WHEN d.city IS NOT NULL AND lower(d.city) = lower(r.city) THEN 15
+        ELSE 0
+      END
+    + LEAST(20, 5 * (
+        SELECT count(*)::INTEGER FROM (
+          SELECT lexeme FROM unnest(to_tsvector('english', concat_ws(' ', d.title, d.description)))
+          INTERSECT
+          SELECT lexeme FROM unnest(to_tsvector('english', concat_ws(' ', r.title, r.description)))
+        ) shared
+      ))
+    + CASE r.urgency WHEN 'high' THEN 10 WHEN 'medium' THEN 5 ELSE 0 END;
+$$;
+
+-- A donor pointing a requester at one of their donations
+CREATE TABLE public.donation_suggestions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  donation_id UUID NOT NULL REFERENCES public.donations(id) ON DELETE CASCADE,
+  help_request_id UUID NOT NULL REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  suggested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (donation_id, help_request_id)
+);
+
+CREATE INDEX donation_suggestions_help_request_id_idx ON public.donation_suggestions (help_request_id);
+
+ALTER TABLE public.donation_suggestions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors and requesters can view suggestions"
+  ON public.donation_suggestions FOR SELECT
+  USING (
+    auth.uid() = suggested_by
+    OR EXISTS (SELECT 1 FROM public.help_requests r WHERE r.id = help_request_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Donors can suggest their available donations"
+  ON public.donation_suggestions FOR INSERT
+  WITH CHECK (
+    auth.uid() = suggested_by
+    AND EXISTS (
+      SELECT 1 FROM public.donations d
+      WHERE d.id = donation_id AND d.user_id = auth.uid() AND d.status = 'available'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.help_requests r
+      WHERE r.id = help_request_id AND r.user_id <> auth.uid() AND r.status IN ('open', 'in_progress')
+    )
+  );
+
+CREATE POLICY "Donors can withdraw their suggestions"
+  ON public.donation_suggestions FOR DELETE
+  USING (auth.uid() = suggested_by);
+
+CREATE OR REPLACE FUNCTION public.notify_donation_suggestion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  donation public.donations;
+  request public.help_requests;
+BEGIN
+  SELECT * INTO donation FROM public.donations WHERE id = NEW.donation_id;
+  SELECT * INTO request FROM public.help_requests WHERE id = NEW.help_request_id;
+
+  PERFORM public.notify(request.user_id, 'donation_suggested', 'A donation was suggested for you',
+    format('"%s" might help with "%s"', donation.title, request.title), format('/donate/%s', donation.id));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_donation_suggestion
+  AFTER INSERT ON public.donation_suggestions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_donation_suggestion();
+
+-- Suggested matches involving the caller's own posts, best first. Each row is
+-- seen from the caller's side: 'donor' rows pair one of their donations with
+-- someone else's request, 'requester' rows the reverse.
+CREATE OR REPLACE FUNCTION public.get_my_matches(min_score INTEGER DEFAULT 40, max_results INTEGER DEFAULT 50)
+RETURNS TABLE (
+  perspective TEXT,
+  score INTEGER,
+  donation_id UUID,
+  donation_title TEXT,
+  donation_user_id UUID,
+  help_request_id UUID,
+  request_title TEXT,
+  request_user_id UUID,
+  request_urgency TEXT,
+  category TEXT,
+  distance_km DOUBLE PRECISION,
+  suggested BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT * FROM (
+    SELECT
+      CASE WHEN d.user_id = auth.uid() THEN 'donor' ELSE 'requester' END,
+      public.match_score(d, r),
+      d.id,
+      d.title,
+      d.user_id,
+      r.id,
+      r.title,
+      r.user_id,
+      r.urgency,
+      r.category,
+      CASE WHEN d.latitude IS NOT NULL AND r.latitude IS NOT NULL
+        THEN public.distance_km(d.latitude, d.longitude, r.latitude, r.longitude)
+      END,
+      EXISTS (
+        SELECT 1 FROM public.donation_suggestions s
+        WHERE s.donation_id = d.id AND s.help_request_id = r.id
+      )
+    FROM public.donations d
+    JOIN public.help_requests r ON r.user_id <> d.user_id
+    WHERE d.status = 'available'
+      AND r.status IN ('open', 'in_progress')
+      AND (d.user_id = auth.uid() OR r.user_id = auth.uid())
+  ) matches (perspective, score, donation_id, donation_title, donation_user_id, help_request_id,
+             request_title, request_user_id, request_urgency, category, distance_km, suggested)
+  WHERE matches.score >= min_score OR matches.suggested
+  ORDER BY matches.suggested DESC, matches.score DESC
+  LIMIT max_results;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_matches(INTEGER, INTEGER) TO authenticated;
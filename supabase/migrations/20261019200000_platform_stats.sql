@@ -0,0 +1,24 @@
+-- Headline numbers for the landing page. The view runs with its owner's
+-- rights so anonymous visitors get totals without seeing any rows.
+CREATE OR REPLACE VIEW public.platform_stats AS
+SELECT
+  (SELECT count(*) FROM public.donations WHERE status = 'given') AS donations_given,
+  (SELECT count(*) FROM public.help_requests WHERE status = 'fulfilled') AS requests_fulfilled,
+  -- Members who posted, offered, claimed or messaged in the last 90 days
+  (
+    SELECT count(DISTINCT user_id) FROM (
+      SELECT user_id FROM public.donations WHERE created_at > now() - interval '90 days'
+      UNION SELECT user_id FROM public.help_requests WHERE created_at > now() - interval '90 days'
+      UNION SELECT offerer_id FROM public.help_offers WHERE created_at > now() - interval '90 days'
+      UNION SELECT claimant_id FROM public.donation_claims WHERE created_at > now() - interval '90 days'
+      UNION SELECT sender_id FROM public.messages WHERE created_at > now() - interval '90 days'
+    ) active
+  ) AS active_members,
+  -- Share of finished requests (fulfilled or closed) that were fulfilled
+  (
+    SELECT round(100.0 * count(*) FILTER (WHERE status = 'fulfilled') / nullif(count(*), 0))::INTEGER
+    FROM public.help_requests
+    WHERE status IN ('fulfilled', 'closed')
+  ) AS fulfillment_rate;
+
+GRANT SELECT ON public.platform_stats TO anon, authenticated;
@@ -0,0 +1,195 @@
+-- Roles and moderation. Admins manage roles; admins and moderators ("staff")
+-- can hide, edit, close and delete any post and suspend accounts. The first
+-- admin is granted by hand:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'admin');
+CREATE TYPE public.app_role AS ENUM ('admin', 'moderator', 'member');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+-- Security definer so policies can check roles without recursing into RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_staff(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role IN ('admin', 'moderator')
+  );
+$$;
+
+CREATE POLICY "Users can view their own roles"
+  ON public.user_roles FOR SELECT
+  USING (auth.uid() = user_id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can grant roles"
+  ON public.user_roles FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can revoke roles"
+  ON public.user_roles FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin') AND user_id <> auth.uid());
+
+-- A member holds at most one staff role. Swapping it revokes and grants in one
+-- transaction, so a failed grant never leaves the member without their old role.
+CREATE OR REPLACE FUNCTION public.set_member_role(member_id UUID, new_role public.app_role)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles' USING ERRCODE = '42501';
+  END IF;
+  IF member_id = auth.uid() THEN
+    RAISE EXCEPTION 'Admins cannot change their own role' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.user_roles WHERE user_id = member_id AND role IN ('admin', 'moderator');
+  IF new_role <> 'member' THEN
+    INSERT INTO public.user_roles (user_id, role) VALUES (member_id, new_role);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_member_role(UUID, public.app_role) TO authenticated;
+
+-- Suspensions live in their own table so members can't lift them by editing
+-- their profile
+CREATE TABLE public.account_suspensions (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  reason TEXT,
+  suspended_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.account_suspensions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_suspended(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.account_suspensions WHERE user_id = _user_id);
+$$;
+
+CREATE POLICY "Users can see their own suspension"
+  ON public.account_suspensions FOR SELECT
+  USING (auth.uid() = user_id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can suspend accounts"
+  ON public.account_suspensions FOR INSERT
+  WITH CHECK (
+    public.is_staff(auth.uid())
+    AND auth.uid() = suspended_by
+    AND user_id <> auth.uid()
+    AND NOT public.has_role(user_id, 'admin')
+  );
+
+CREATE POLICY "Staff can lift suspensions"
+  ON public.account_suspensions FOR DELETE
+  USING (public.is_staff(auth.uid()));
+
+-- Suspended accounts can't create anything new. Restrictive policies are
+-- ANDed with the existing insert policies.
+CREATE POLICY "Suspended users cannot post donations"
+  ON public.donations AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot post help requests"
+  ON public.help_requests AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot offer help"
+  ON public.help_offers AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot claim donations"
+  ON public.donation_claims AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+CREATE POLICY "Suspended users cannot send messages"
+  ON public.messages AS RESTRICTIVE FOR INSERT
+  WITH CHECK (NOT public.is_suspended(auth.uid()));
+
+-- Hidden posts stay visible to their owner and staff only
+ALTER TABLE public.donations
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN hidden_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+ALTER TABLE public.help_requests
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN hidden_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE POLICY "Hidden donations are visible to owners and staff"
+  ON public.donations AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Hidden help requests are visible to owners and staff"
+  ON public.help_requests AS RESTRICTIVE FOR SELECT
+  USING (hidden_at IS NULL OR auth.uid() = user_id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can update any donation"
+  ON public.donations FOR UPDATE
+  USING (public.is_staff(auth.uid()))
+  WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can delete any donation"
+  ON public.donations FOR DELETE
+  USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can update any help request"
+  ON public.help_requests FOR UPDATE
+  USING (public.is_staff(auth.uid()))
+  WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can delete any help request"
+  ON public.help_requests FOR DELETE
+  USING (public.is_staff(auth.uid()));
+
+-- Owners may edit their posts but not unhide them
+CREATE OR REPLACE FUNCTION public.protect_moderation_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.hidden_at IS DISTINCT FROM OLD.hidden_at OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_staff(auth.uid()) THEN
+    RAISE EXCEPTION 'Only moderators can hide or unhide posts' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_donation_moderation
+  BEFORE UPDATE ON public.donations
+  FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
+
+CREATE TRIGGER protect_help_request_moderation
+  BEFORE UPDATE ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.protect_moderation_columns();
@@ -0,0 +1,164 @@
+-- Members flag posts for moderators. Once a post collects enough open reports
+-- from different members it is hidden automatically until staff review it.
+CREATE TYPE public.report_reason AS ENUM ('scam', 'duplicate', 'unsafe', 'inappropriate', 'spam', 'other');
+
+CREATE TABLE public.reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  donation_id UUID REFERENCES public.donations(id) ON DELETE CASCADE,
+  help_request_id UUID REFERENCES public.help_requests(id) ON DELETE CASCADE,
+  reason public.report_reason NOT NULL,
+  details TEXT,
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT reports_one_target CHECK (num_nonnulls(donation_id, help_request_id) = 1)
+);
+
+-- One open report per member and post; a resolved report can be filed again
+CREATE UNIQUE INDEX reports_open_donation_idx
+  ON public.reports (reporter_id, donation_id) WHERE donation_id IS NOT NULL AND resolved_at IS NULL;
+CREATE UNIQUE INDEX reports_open_help_request_idx
+  ON public.reports (reporter_id, help_request_id) WHERE help_request_id IS NOT NULL AND resolved_at IS NULL;
+CREATE INDEX reports_unresolved_idx ON public.reports (created_at DESC) WHERE resolved_at IS NULL;
+
+ALTER TABLE public.reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their reports"
+  ON public.reports FOR SELECT
+  USING (auth.uid() = reporter_id OR public.is_staff(auth.uid()));
+
+-- New reports start open: only staff can fill in the resolution
+CREATE POLICY "Users can report other members' posts"
+  ON public.reports FOR INSERT
+  WITH CHECK (
+    auth.uid() = reporter_id
+    AND resolved_at IS NULL
+    AND resolved_by IS NULL
+    AND NOT EXISTS (SELECT 1 FROM public.donations d WHERE d.id = donation_id AND d.user_id = auth.uid())
+    AND NOT EXISTS (SELECT 1 FROM public.help_requests r WHERE r.id = help_request_id AND r.user_id = auth.uid())
+  );
+
+CREATE POLICY "Staff can resolve reports"
+  ON public.reports FOR UPDATE
+  USING (public.is_staff(auth.uid()))
+  WITH CHECK (public.is_staff(auth.uid()));
+
+CREATE POLICY "Staff can delete reports"
+  ON public.reports FOR DELETE
+  USING (public.is_staff(auth.uid()));
+
+-- Single-row settings so admins can tune the threshold without a migration
+CREATE TABLE public.moderation_settings (
+  id BOOLEAN NOT NULL DEFAULT true PRIMARY KEY CHECK (id),
+  report_threshold INTEGER NOT NULL DEFAULT 3 CHECK (report_threshold > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.moderation_settings DEFAULT VALUES;
+
+ALTER TABLE public.moderation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view moderation settings"
+  ON public.moderation_settings FOR SELECT
+  USING (public.is_staff(auth.uid()));
+
+CREATE POLICY "Admins can change moderation settings"
+  ON public.moderation_settings FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Let the auto-hide trigger through; it runs as the reporting member
+CREATE OR REPLACE FUNCTION public.protect_moderation_columns()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.hidden_at IS DISTINCT FROM OLD.hidden_at OR NEW.hidden_by IS DISTINCT FROM OLD.hidden_by)
+    AND auth.uid() IS NOT NULL
+    AND NOT public.is_staff(auth.uid())
+    AND current_setting('app.auto_hide', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Only moderators can hide or unhide posts' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_hide_reported_post()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  threshold INTEGER;
+  open_reports INTEGER;
+BEGIN
+  SELECT report_threshold INTO threshold FROM public.moderation_settings;
+
+  SELECT count(DISTINCT reporter_id) INTO open_reports
+  FROM public.reports
+  WHERE resolved_at IS NULL
+    AND donation_id IS NOT DISTINCT FROM NEW.donation_id
+    AND help_request_id IS NOT DISTINCT FROM NEW.help_request_id;
+
+  IF open_reports < coalesce(threshold, 3) THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.auto_hide', 'on', true);
+
+  IF NEW.donation_id IS NOT NULL THEN
+    UPDATE public.donations SET hidden_at = now(), hidden_by = NULL
+    WHERE id = NEW.donation_id AND hidden_at IS NULL;
+  ELSE
+    UPDATE public.help_requests SET hidden_at = now(), hidden_by = NULL
+    WHERE id = NEW.help_request_id AND hidden_at IS NULL;
+  END IF;
+
+  PERFORM set_config('app.auto_hide', 'off', true);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER auto_hide_reported_post
+  AFTER INSERT ON public.reports
+  FOR EACH ROW EXECUTE FUNCTION public.auto_hide_reported_post();
+
+-- Moderator queue: open reports grouped by the post they target. Runs with
+-- the caller's rights, so members only ever see their own reports here.
+CREATE OR REPLACE FUNCTION public.get_report_queue()
+RETURNS TABLE (
+  donation_id UUID,
+  help_request_id UUID,
+  title TEXT,
+  owner_id UUID,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  report_count BIGINT,
+  reasons public.report_reason[],
+  details TEXT[],
+  last_reported_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    rep.donation_id,
+    rep.help_request_id,
+    coalesce(d.title, r.title) AS title,
+    coalesce(d.user_id, r.user_id) AS owner_id,
+    coalesce(d.hidden_at, r.hidden_at) AS hidden_at,
+    count(*) AS report_count,
+    array_agg(DISTINCT rep.reason) AS reasons,
+    array_remove(array_agg(rep.details ORDER BY rep.created_at DESC), NULL) AS details,
+    max(rep.created_at) AS last_reported_at
+  FROM public.reports rep
+  LEFT JOIN public.donations d ON d.id = rep.donation_id
+  LEFT JOIN public.help_requests r ON r.id = rep.help_request_id
+  WHERE rep.resolved_at IS NULL
+  GROUP BY rep.donation_id, rep.help_request_id, d.title, d.user_id, d.hidden_at, r.title, r.user_id, r.hidden_at
+  ORDER BY count(*) DESC, max(rep.created_at) DESC;
+$$;
@@ -0,0 +1,121 @@
+-- Categories for donations and help requests, managed by admins instead of
+-- being hard-coded in the app. Posts reference a top-level category by slug
+-- and may narrow it with one of its subcategories. Categories nest one level.
+CREATE TABLE public.categories (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- Tokens the app maps to a lucide icon and a badge palette
+  icon TEXT NOT NULL DEFAULT 'package',
+  color TEXT NOT NULL DEFAULT 'gray',
+  parent_id UUID REFERENCES public.categories(id) ON DELETE CASCADE,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX categories_parent_idx ON public.categories (parent_id, sort_order);
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view categories"
+  ON public.categories FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can add categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can edit categories"
+  ON public.categories FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete categories"
+  ON public.categories FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- A subcategory can't be a parent itself, and a parent can't become a child
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND (
+    NEW.parent_id = NEW.id
+    OR EXISTS (SELECT 1 FROM public.categories WHERE id = NEW.parent_id AND parent_id IS NOT NULL)
+    OR EXISTS (SELECT 1 FROM public.categories WHERE parent_id = NEW.id)
+  ) THEN
+    RAISE EXCEPTION 'Categories can only be nested one level deep' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER categories_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON public.categories
+  FOR EACH ROW EXECUTE FUNCTION public.check_category_parent();
+
+INSERT INTO public.categories (slug, name, icon, color, sort_order) VALUES
+  ('clothing', 'Clothing', 'shirt', 'blue', 10),
+  ('electronics', 'Electronics', 'laptop', 'purple', 20),
+  ('education', 'Education', 'book-open', 'green', 30),
+  ('food', 'Food', 'utensils', 'orange', 40),
+  ('services', 'Services', 'wrench', 'pink', 50),
+  ('other', 'Other', 'package', 'gray', 1000);
+
+-- Posts stored the display name; switch them to slugs, folding anything
+-- unrecognised into "Other"
+UPDATE public.donations d
+SET category = coalesce((SELECT c.slug FROM public.categories c WHERE c.name = d.category), 'other');
+
+UPDATE public.help_requests r
+SET category = coalesce((SELECT c.slug FROM public.categories c WHERE c.name = r.category), 'other');
+
+-- A category still in use can't be deleted; renaming a slug follows through
+ALTER TABLE public.donations
+  ADD CONSTRAINT donations_category_fkey
+    FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE,
+  ADD COLUMN subcategory TEXT REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE SET NULL;
+
+ALTER TABLE public.help_requests
+  ADD CONSTRAINT help_requests_category_fkey
+    FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE,
+  ADD COLUMN subcategory TEXT REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE SET NULL;
+
+-- Posts file under a top-level category, and a subcategory must belong to it
+CREATE OR REPLACE FUNCTION public.check_post_category()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.categories WHERE slug = NEW.category AND parent_id IS NOT NULL) THEN
+    RAISE EXCEPTION 'Posts must use a top-level category' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NEW.subcategory IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM public.categories child
+    JOIN public.categories parent ON parent.id = child.parent_id
+    WHERE child.slug = NEW.subcategory AND parent.slug = NEW.category
+  ) THEN
+    RAISE EXCEPTION 'Subcategory % does not belong to %', NEW.subcategory, NEW.category USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER donations_check_category
+  BEFORE INSERT OR UPDATE OF category, subcategory ON public.donations
+  FOR EACH ROW EXECUTE FUNCTION public.check_post_category();
+
+CREATE TRIGGER help_requests_check_category
+  BEFORE INSERT OR UPDATE OF category, subcategory ON public.help_requests
+  FOR EACH ROW EXECUTE FUNCTION public.check_post_category();
+
+CREATE INDEX donations_category_idx ON public.donations (category, subcategory);
+CREATE INDEX help_requests_category_idx ON public.help_requests (category, subcategory);
@@ -0,0 +1,41 @@
+-- Structured fields per category. Each category lists the fields its posts
+-- ask for (e.g. size for clothing); posts store the answers in `details`,
+-- keyed by field. Subcategories use their parent's fields.
+--
+-- A field looks like {"key": "size", "label": "Size", "type": "select",
+-- "options": ["S", "M"]}. Types are "select", "text" and "date"; select
+-- fields can also be used as feed filters.
+ALTER TABLE public.categories
+  ADD COLUMN fields JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(fields) = 'array');
+
+ALTER TABLE public.donations
+  ADD COLUMN details JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(details) = 'object');
+
+ALTER TABLE public.help_requests
+  ADD COLUMN details JSONB NOT NULL DEFAULT '{}'::jsonb CHECK (jsonb_typeof(details) = 'object');
+
+-- Feed filters match with `details @> {...}`
+CREATE INDEX donations_details_idx ON public.donations USING GIN (details jsonb_path_ops);
+CREATE INDEX help_requests_details_idx ON public.help_requests USING GIN (details jsonb_path_ops);
+
+UPDATE public.categories SET fields = '[
+  {"key": "size", "label": "Size", "type": "select", "options": ["XS", "S", "M", "L", "XL", "XXL", "Kids"]},
+  {"key": "gender", "label": "Gender", "type": "select", "options": ["Men", "Women", "Unisex", "Boys", "Girls"]}
+]'::jsonb WHERE slug = 'clothing';
+
+UPDATE public.categories SET fields = '[
+  {"key": "condition", "label": "Condition", "type": "select", "options": ["New", "Like new", "Good", "Fair"]},
+  {"key": "working", "label": "Working status", "type": "select", "options": ["Working", "Needs repair", "For parts"]}
+]'::jsonb WHERE slug = 'electronics';
+
+UPDATE public.categories SET fields = '[
+  {"key": "grade", "label": "Grade", "type": "select", "options": ["Class 1-5", "Class 6-8", "Class 9", "Class 10", "Class 11", "Class 12", "Undergraduate", "Postgraduate"]},
+  {"key": "exam", "label": "Exam", "type": "text", "placeholder": "e.g., JEE, NEET, MCA CET"},
+  {"key": "isbn", "label": "ISBN", "type": "text", "placeholder": "e.g., 978-93-5xxx"}
+]'::jsonb WHERE slug = 'education';
+
+UPDATE public.categories SET fields = '[
+  {"key": "diet", "label": "Veg / non-veg", "type": "select", "options": ["Veg", "Non-veg", "Vegan"]},
+  {"key": "storage", "label": "Storage", "type": "select", "options": ["Room temperature", "Refrigerated", "Frozen"]},
+  {"key": "expiry", "label": "Best before", "type": "date"}
+]'::jsonb WHERE slug = 'food';
@@ -0,0 +1,101 @@
+-- Profiles are readable by anyone (feeds and detail pages show the poster),
+-- and row-level security can't hide a single column, so email addresses and
+-- phone numbers move to a table only their owner and staff can read.
+CREATE TABLE public.profile_contacts (
+  id UUID NOT NULL PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  email TEXT,
+  phone TEXT,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.profile_contacts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact details"
+  ON public.profile_contacts FOR SELECT
+  USING (auth.uid() = id OR public.is_staff(auth.uid()));
+
+CREATE POLICY "Users can add their own contact details"
+  ON public.profile_contacts FOR INSERT
+  WITH CHECK (auth.uid() = id);
+
+CREATE POLICY "Users can update their own contact details"
+  ON public.profile_contacts FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id);
+
+-- The email always mirrors the sign-in address, whatever the client sends
+CREATE OR REPLACE FUNCTION public.sync_contact_email()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.email := (SELECT email FROM auth.users WHERE id = NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_contact_email
+  BEFORE INSERT OR UPDATE ON public.profile_contacts
+  FOR EACH ROW EXECUTE FUNCTION public.sync_contact_email();
+
+-- Touching the row re-runs sync_contact_email after a changed sign-in address
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.profile_contacts SET updated_at = now() WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_user_email_change();
+
+INSERT INTO public.profile_contacts (id, email, phone)
+  SELECT id, email, phone FROM public.profiles;
+
+ALTER TABLE public.profiles DROP COLUMN email, DROP COLUMN phone;
+
+-- Same as before, with the signup email and phone number going to profile_contacts
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name, location)
+  VALUES (
+    NEW.id,
+    NULLIF(NEW.raw_user_meta_data ->> 'full_name', ''),
+    NULLIF(NEW.raw_user_meta_data ->> 'location', '')
+  )
+  ON CONFLICT (id) DO UPDATE SET
+    full_name = COALESCE(EXCLUDED.full_name, public.profiles.full_name),
+    location = COALESCE(EXCLUDED.location, public.profiles.location),
+    updated_at = now();
+
+  INSERT INTO public.profile_contacts (id, phone)
+  VALUES (NEW.id, NULLIF(NEW.raw_user_meta_data ->> 'phone', ''))
+  ON CONFLICT (id) DO UPDATE SET
+    phone = COALESCE(EXCLUDED.phone, public.profile_contacts.phone),
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Members with their contact details, for the admin screens. It runs as the
+-- caller, so anyone but staff gets their own details and nulls elsewhere.
+CREATE VIEW public.member_directory WITH (security_invoker = true) AS
+  SELECT p.id, p.full_name, p.created_at, c.email, c.phone
+  FROM public.profiles p
+  LEFT JOIN public.profile_contacts c ON c.id = p.id;
+
+GRANT SELECT ON public.member_directory TO authenticated;
@@ -1,10 +1,24 @@
-import { defineConfig } from "vite";
+/// <reference types="vitest/config" />
+import { defineConfig, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// The local backend needs no Supabase project, but the generated client is
+// still created at startup and requires some URL and key
+const localBackendDefaults = (mode: string) => {
+  const env = loadEnv(mode, process.cwd(), "VITE_");
+  if (env.VITE_BACKEND !== "local") return {};
+
+  return {
+    ...(!env.VITE_SUPABASE_URL && { "import.meta.env.VITE_SUPABASE_URL": JSON.stringify("http://localhost:54321") }),
+    ...(!env.VITE_SUPABASE_PUBLISHABLE_KEY && { "import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY": JSON.stringify("local") }),
+  };
+};
+
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
+  define: localBackendDefaults(mode),
   server: {
     host: "::",
     port: 8080,
@@ -15,4 +29,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  test: {
+    environment: "jsdom",
+    setupFiles: ["./src/test/setup.ts"],
+  },
 }));